@@ -5,45 +5,16 @@
  * for basic Jupiter swaps without any premium features.
  */
 
-import { GanymedeClient, TOKENS } from 'ganymede';
+import { GanymedeClient, TOKENS, keypairSigner } from 'ganymede';
 import { Connection, Keypair, clusterApiUrl } from '@solana/web3.js';
 
-// Mock wallet adapter for demonstration
-// In a real app, you'd use @solana/wallet-adapter-react
-class MockWalletAdapter {
-  private keypair: Keypair;
-
-  constructor(keypair: Keypair) {
-    this.keypair = keypair;
-  }
-
-  get publicKey() {
-    return this.keypair.publicKey;
-  }
-
-  get connected() {
-    return true;
-  }
-
-  async signTransaction(tx: any) {
-    tx.sign([this.keypair]);
-    return tx;
-  }
-
-  async signMessage(message: Uint8Array) {
-    // In a real wallet, this would prompt the user
-    const nacl = await import('tweetnacl');
-    return nacl.sign.detached(message, this.keypair.secretKey);
-  }
-}
-
 async function main() {
   console.log('=== Ganymede Basic Swap Example ===\n');
 
-  // Setup - In production, use a real wallet adapter
+  // Setup - in a browser app, pass a wallet adapter instead
   // WARNING: Never use hardcoded private keys in production!
   const keypair = Keypair.generate(); // Demo keypair (will have no funds)
-  const wallet = new MockWalletAdapter(keypair) as any;
+  const wallet = keypairSigner(keypair);
   const connection = new Connection(clusterApiUrl('devnet'));
 
   console.log('Wallet:', keypair.publicKey.toBase58());
@@ -55,6 +26,8 @@ async function main() {
     connection,
     enablePremium: false, // Disable premium for free tier
     network: 'devnet',
+    // Set JUPITER_API_URL=http://localhost:8080/swap/v1 to use the stub Jupiter API
+    ...(process.env.JUPITER_API_URL && { jupiter: { baseUrl: process.env.JUPITER_API_URL } }),
   });
 
   try {
@@ -9,43 +9,16 @@
  * Premium features require an x402 micropayment of $0.005 USDC
  */
 
-import { GanymedeClient, TOKENS } from 'ganymede';
+import { GanymedeClient, TOKENS, keypairSigner } from 'ganymede';
 import { Connection, Keypair, clusterApiUrl } from '@solana/web3.js';
 
-// Mock wallet adapter for demonstration
-class MockWalletAdapter {
-  private keypair: Keypair;
-
-  constructor(keypair: Keypair) {
-    this.keypair = keypair;
-  }
-
-  get publicKey() {
-    return this.keypair.publicKey;
-  }
-
-  get connected() {
-    return true;
-  }
-
-  async signTransaction(tx: any) {
-    tx.sign([this.keypair]);
-    return tx;
-  }
-
-  async signMessage(message: Uint8Array) {
-    const nacl = await import('tweetnacl');
-    return nacl.sign.detached(message, this.keypair.secretKey);
-  }
-}
-
 async function main() {
   console.log('=== Ganymede Premium Swap Example ===\n');
   console.log('Premium features cost $0.005 USDC per swap via x402 micropayments\n');
 
   // Setup
   const keypair = Keypair.generate();
-  const wallet = new MockWalletAdapter(keypair) as any;
+  const wallet = keypairSigner(keypair);
   const connection = new Connection(clusterApiUrl('devnet'));
 
   console.log('Wallet:', keypair.publicKey.toBase58());
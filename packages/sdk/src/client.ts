@@ -1,22 +1,45 @@
-import { createJupiterApiClient, type QuoteGetRequest, type QuoteResponse } from '@jup-ag/api';
-import { Connection, VersionedTransaction, type Transaction } from '@solana/web3.js';
+import {
+  Configuration,
+  SwapApi,
+  createJupiterApiClient,
+  type QuoteGetRequest,
+  type QuoteResponse,
+} from '@jup-ag/api';
+import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
 import {
   type GanymedeConfig,
   type SwapParams,
+  type QuoteParams,
+  type RouteOptions,
+  type PlatformFeeConfig,
+  type JupiterApiConfig,
   type SwapResult,
   type EnhancedSwapResponse,
+  type CreditBalance,
+  type ExecuteSwapOptions,
+  type ExecuteWithRefreshOptions,
+  type SwapOptions,
+  type BatchQuoteOptions,
+  type QuoteBatchItem,
+  type EnhancedQuote,
+  type EnhancedQuoteBatchItem,
+  type SwapRefreshReason,
   GanymedeError,
   GanymedeErrorCode,
 } from './types.js';
-import { validateWallet, getWalletAddress } from './utils/wallet.js';
-import { wrapFetchWithPayment, extractPaymentTxHash } from './utils/x402-fetch.js';
-
-/**
- * Extended wallet interface that includes optional signTransaction
- */
-interface SignableWallet {
-  signTransaction?<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T>;
-}
+import { validateWallet, getWalletAddress, supportsTransactionSigning } from './utils/wallet.js';
+import { toSigner } from './utils/signer.js';
+import { sendAndConfirmTransaction } from './utils/transaction-sender.js';
+import { simulateSwapTransaction, type SwapSimulation } from './utils/simulation.js';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import {
+  wrapFetchWithPayment,
+  extractPaymentTxHash,
+  extractPaymentReceipt,
+  type PaymentApprovalHandler,
+} from './utils/x402-fetch.js';
+import { PaymentSession } from './utils/payment-session.js';
+import { PaymentLedger } from './utils/payment-ledger.js';
 
 /** Default API endpoint for the Ganymede premium server */
 const DEFAULT_API_ENDPOINT = 'http://localhost:3001';
@@ -27,6 +50,79 @@ const DEFAULT_MAX_PAYMENT = 0.01;
 /** Default slippage in basis points (0.5%) */
 const DEFAULT_SLIPPAGE_BPS = 50;
 
+/** Default execution attempts for executeWithRefresh */
+const DEFAULT_REFRESH_ATTEMPTS = 3;
+
+/** Default maximum price drift for executeWithRefresh in basis points (1%) */
+const DEFAULT_MAX_PRICE_DRIFT_BPS = 100;
+
+/** Default number of quotes getQuotes requests at once */
+const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/** Most quotes the server accepts in one premium batch */
+const MAX_QUOTE_BATCH_SIZE = 25;
+
+/** Jupiter program error for exceeded slippage tolerance */
+const JUPITER_SLIPPAGE_ERROR = 6001;
+
+/**
+ * Reads the remaining prepaid credit (USD) from the X-Credit-Balance header
+ */
+function parseCreditBalance(response: Response): number | undefined {
+  const header = response.headers.get('x-credit-balance');
+  return header ? parseFloat(header) : undefined;
+}
+
+/**
+ * Creates a Jupiter API client for the configured base URL and API key
+ */
+function createJupiterClient(config: JupiterApiConfig = {}): SwapApi {
+  if (!config.baseUrl) {
+    return createJupiterApiClient(config.apiKey !== undefined ? { apiKey: config.apiKey } : undefined);
+  }
+
+  return new SwapApi(new Configuration({
+    basePath: config.baseUrl.replace(/\/+$/, ''),
+    ...(config.apiKey !== undefined && { headers: { 'x-api-key': config.apiKey } }),
+  }));
+}
+
+/** SwapParams fields passed through to Jupiter's quote API (`platformFeeBps` goes with its fee account) */
+const ROUTE_OPTION_KEYS = [
+  'dexes',
+  'excludeDexes',
+  'onlyDirectRoutes',
+  'restrictIntermediateTokens',
+  'maxAccounts',
+  'asLegacyTransaction',
+] as const satisfies ReadonlyArray<keyof RouteOptions>;
+
+/**
+ * Picks the routing controls that were set
+ */
+function routeOptions(params: RouteOptions): RouteOptions {
+  const options: Record<string, unknown> = {};
+  for (const key of ROUTE_OPTION_KEYS) {
+    if (params[key] !== undefined) options[key] = params[key];
+  }
+  return options as RouteOptions;
+}
+
+/**
+ * Whether a failed execution can be fixed by rebuilding the swap
+ */
+function refreshReason(error: unknown): SwapRefreshReason | undefined {
+  if (!(error instanceof GanymedeError)) return undefined;
+
+  if (error.code === GanymedeErrorCode.TRANSACTION_EXPIRED) return 'expired';
+
+  const instructionError = (error.cause as { InstructionError?: [number, unknown] } | undefined)?.InstructionError;
+  const custom = (instructionError?.[1] as { Custom?: number } | undefined)?.Custom;
+  if (error.code === GanymedeErrorCode.SWAP_FAILED && custom === JUPITER_SLIPPAGE_ERROR) return 'slippage';
+
+  return undefined;
+}
+
 /**
  * GanymedeClient - Jupiter swap SDK with x402 micropayment-gated premium features
  *
@@ -59,11 +155,26 @@ const DEFAULT_SLIPPAGE_BPS = 50;
  * ```
  */
 export class GanymedeClient {
-  private jupiter: ReturnType<typeof createJupiterApiClient>;
-  private config: Required<GanymedeConfig>;
+  private jupiter: SwapApi;
+  private config: Required<Omit<GanymedeConfig, 'creditToken' | 'paymentSession' | 'spendLimits' | 'onPaymentRequired' | 'platformFee' | 'jupiter'>>;
   private paidFetch: typeof fetch | null = null;
+  private activeCreditToken: string | null;
+  private session: PaymentSession | null;
+  private ledger: PaymentLedger;
+  private onPaymentRequired?: PaymentApprovalHandler;
+  private platformFee?: PlatformFeeConfig;
 
   constructor(config: GanymedeConfig) {
+    if (config.platformFee) {
+      const { bps } = config.platformFee;
+      if (!Number.isInteger(bps) || bps < 0 || bps > 10_000) {
+        throw new GanymedeError(
+          GanymedeErrorCode.INVALID_PARAMS,
+          'Platform fee bps must be an integer from 0 to 10000'
+        );
+      }
+    }
+
     this.config = {
       wallet: config.wallet,
       connection: config.connection,
@@ -71,10 +182,21 @@ export class GanymedeClient {
       enablePremium: config.enablePremium ?? true,
       maxPaymentPerSwap: config.maxPaymentPerSwap ?? DEFAULT_MAX_PAYMENT,
       network: config.network || 'devnet',
+      preferredPaymentAssets: config.preferredPaymentAssets ?? [],
+      autoTopUpCredits: config.autoTopUpCredits ?? 0,
+      commitment: config.commitment ?? 'confirmed',
     };
+    this.activeCreditToken = config.creditToken ?? null;
+    // One session covers every paid endpoint, so switching between them does not prompt again
+    this.session = config.paymentSession
+      ? new PaymentSession({ resources: [`${this.config.apiEndpoint}/v1/*`], ...config.paymentSession })
+      : null;
+    this.ledger = new PaymentLedger(config.spendLimits);
+    this.onPaymentRequired = config.onPaymentRequired;
+    this.platformFee = config.platformFee;
 
     // Initialize Jupiter API client
-    this.jupiter = createJupiterApiClient();
+    this.jupiter = createJupiterClient(config.jupiter);
   }
 
   /**
@@ -98,19 +220,51 @@ export class GanymedeClient {
     return this.config.enablePremium;
   }
 
+  /**
+   * Gets the prepaid credit token in use, if any
+   */
+  get creditToken(): string | null {
+    return this.activeCreditToken;
+  }
+
+  /**
+   * Gets the payment session premium requests are paid from, if configured
+   */
+  get paymentSession(): PaymentSession | null {
+    return this.session;
+  }
+
+  /**
+   * Gets the ledger of x402 payments made by this client
+   *
+   * @example
+   * ```typescript
+   * const lastHour = client.paymentLedger.query({ since: Date.now() - 3_600_000 });
+   * const { day } = client.paymentLedger.spent();
+   * ```
+   */
+  get paymentLedger(): PaymentLedger {
+    return this.ledger;
+  }
+
   /**
    * Free tier: Get a swap quote directly from Jupiter
    *
    * This is a pass-through to Jupiter's quote API with no additional fees.
    */
-  async getQuote(params: Omit<SwapParams, 'mevProtection' | 'optimizePriorityFee' | 'includeAnalytics'>): Promise<QuoteResponse> {
+  async getQuote(params: QuoteParams): Promise<QuoteResponse> {
+    const fee = this.platformFeeFor(params);
+
     try {
       const quoteRequest: QuoteGetRequest = {
         inputMint: params.inputMint,
         outputMint: params.outputMint,
         amount: params.amount,
         slippageBps: params.slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+        swapMode: params.swapMode ?? 'ExactIn',
         restrictIntermediateTokens: true, // More stable routes
+        ...routeOptions(params),
+        ...(fee && { platformFeeBps: fee.feeBps }),
       };
 
       const quote = await this.jupiter.quoteGet(quoteRequest);
@@ -134,22 +288,145 @@ export class GanymedeClient {
     }
   }
 
+  /**
+   * Free tier: Get quotes for many swaps at once
+   *
+   * Requests at most `concurrency` quotes from Jupiter at a time. A failed
+   * quote does not fail the batch; its item carries the error instead.
+   *
+   * @returns One result per params entry, in the same order
+   */
+  async getQuotes(params: QuoteParams[], options: BatchQuoteOptions = {}): Promise<QuoteBatchItem[]> {
+    return mapWithConcurrency(params, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY, async item => {
+      try {
+        return { success: true, params: item, quote: await this.getQuote(item) };
+      } catch (error) {
+        return {
+          success: false,
+          params: item,
+          error: error instanceof GanymedeError
+            ? error
+            : new GanymedeError(GanymedeErrorCode.QUOTE_FAILED, 'Failed to get quote', error),
+        };
+      }
+    });
+  }
+
+  /**
+   * Premium tier: Get quotes with MEV analysis, priority fees and analytics
+   * for many swaps, paid with a single x402 payment
+   *
+   * The batch is priced per item, and may cost up to `maxPaymentPerSwap`
+   * per item. Falls back to `getQuotes` when premium is disabled.
+   *
+   * @param params - Up to 25 swaps
+   * @returns One result per params entry, in the same order
+   */
+  async getEnhancedQuotes(params: SwapParams[]): Promise<EnhancedQuoteBatchItem[]> {
+    if (params.length === 0) return [];
+
+    if (!this.config.enablePremium) {
+      const results = await this.getQuotes(params);
+      return results.map((result, i) => ({ ...result, params: params[i] }));
+    }
+
+    validateWallet(this.config.wallet);
+
+    if (params.length > MAX_QUOTE_BATCH_SIZE) {
+      throw new GanymedeError(
+        GanymedeErrorCode.INVALID_PARAMS,
+        `A premium batch can hold at most ${MAX_QUOTE_BATCH_SIZE} quotes`
+      );
+    }
+
+    const url = `${this.config.apiEndpoint}/v1/quote/batch/enhanced`;
+    const init: RequestInit = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({
+        requests: params.map(item => {
+          const fee = this.platformFeeFor(item);
+          return {
+            inputMint: item.inputMint,
+            outputMint: item.outputMint,
+            amount: item.amount,
+            slippageBps: item.slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+            swapMode: item.swapMode ?? 'ExactIn',
+            ...routeOptions(item),
+            ...(fee && { platformFeeBps: fee.feeBps }),
+            mevProtection: item.mevProtection ?? false,
+            optimizePriorityFee: item.optimizePriorityFee ?? false,
+            includeAnalytics: item.includeAnalytics ?? false,
+          };
+        }),
+      }),
+    };
+
+    let data: { results?: Array<EnhancedQuote | { error: string; message?: string }> };
+    try {
+      const response = await this.fetchWithCredits(url, init) ??
+        await this.createPaidFetch(this.config.maxPaymentPerSwap * params.length)(url, init);
+
+      // 502 means every quote failed; the results still say why
+      if (!response.ok && response.status !== 502) {
+        const errorText = await response.text();
+        throw new GanymedeError(
+          GanymedeErrorCode.QUOTE_FAILED,
+          `Premium batch quote request failed: ${response.status} ${errorText}`
+        );
+      }
+
+      data = await response.json() as typeof data;
+    } catch (error) {
+      if (error instanceof GanymedeError) throw error;
+
+      throw new GanymedeError(
+        GanymedeErrorCode.NETWORK_ERROR,
+        `Failed to fetch premium batch quote: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error
+      );
+    }
+
+    const results = data.results ?? [];
+    return params.map((item, i): EnhancedQuoteBatchItem => {
+      const result = results[i];
+      if (result && 'quote' in result) {
+        return { success: true, params: item, ...result };
+      }
+
+      return {
+        success: false,
+        params: item,
+        error: new GanymedeError(
+          GanymedeErrorCode.QUOTE_FAILED,
+          result?.message ?? result?.error ?? 'No result returned for this quote'
+        ),
+      };
+    });
+  }
+
   /**
    * Free tier: Build a swap transaction from a quote
    *
    * Gets a quote and builds a ready-to-sign transaction.
    */
-  async buildSwap(params: Omit<SwapParams, 'mevProtection' | 'optimizePriorityFee' | 'includeAnalytics'>): Promise<SwapResult> {
+  async buildSwap(params: QuoteParams): Promise<SwapResult> {
     validateWallet(this.config.wallet);
 
     const quote = await this.getQuote(params);
+    const fee = this.platformFeeFor(params);
 
     try {
-      const { swapTransaction } = await this.jupiter.swapPost({
+      const { swapTransaction, lastValidBlockHeight } = await this.jupiter.swapPost({
         swapRequest: {
           quoteResponse: quote,
           userPublicKey: getWalletAddress(this.config.wallet),
           dynamicComputeUnitLimit: true,
+          asLegacyTransaction: params.asLegacyTransaction,
+          feeAccount: fee?.feeAccount,
         },
       });
 
@@ -160,6 +437,8 @@ export class GanymedeClient {
       return {
         transaction,
         quote,
+        lastValidBlockHeight,
+        params,
       };
     } catch (error) {
       throw new GanymedeError(
@@ -173,7 +452,8 @@ export class GanymedeClient {
   /**
    * Premium tier: Get an enhanced swap with MEV protection, priority fees, and analytics
    *
-   * This triggers an x402 micropayment ($0.005) for premium features.
+   * This triggers an x402 micropayment for premium features, priced by the
+   * features requested and the trade size ($0.005 for a typical swap with all features).
    * If no premium features are requested, falls back to free tier.
    */
   async getEnhancedSwap(params: SwapParams): Promise<SwapResult> {
@@ -191,20 +471,208 @@ export class GanymedeClient {
     return this.fetchPremiumSwap(params);
   }
 
+  /**
+   * Buys prepaid credit with a single x402 payment
+   *
+   * Premium requests are then paid from the credit balance, without a wallet
+   * prompt per request. Tops up the current credit token if there is one.
+   *
+   * @param amount - USD amount of credit to buy
+   * @returns The credit token and its new balance
+   */
+  async topUpCredits(amount: number): Promise<CreditBalance> {
+    validateWallet(this.config.wallet);
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new GanymedeError(
+        GanymedeErrorCode.INVALID_PARAMS,
+        'Top-up amount must be a positive number of USD'
+      );
+    }
+
+    // The top-up amount is the payment limit, since the caller chose it
+    const topUpFetch = wrapFetchWithPayment(this.config.wallet, {
+      maxPayment: amount,
+      network: this.config.network,
+      preferredAssets: this.config.preferredPaymentAssets,
+      ledger: this.ledger,
+      onPaymentRequired: this.onPaymentRequired,
+    });
+
+    try {
+      // The server only rejects an unknown token after the payment, which
+      // the payment wrapper reports as declined - so drop it beforehand
+      if (this.activeCreditToken && await this.isCreditTokenUnknown()) {
+        this.activeCreditToken = null;
+      }
+
+      const response = await topUpFetch(`${this.config.apiEndpoint}/v1/credits`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          ...(this.activeCreditToken && { 'Authorization': `Bearer ${this.activeCreditToken}` }),
+        },
+        body: JSON.stringify({ amount }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new GanymedeError(
+          GanymedeErrorCode.PAYMENT_DECLINED,
+          `Credit top-up failed: ${response.status} ${errorText}`
+        );
+      }
+
+      const data = await response.json() as { token: string; balance: string };
+      this.activeCreditToken = data.token;
+
+      return { token: data.token, balance: parseFloat(data.balance) };
+    } catch (error) {
+      if (error instanceof GanymedeError) throw error;
+
+      throw new GanymedeError(
+        GanymedeErrorCode.NETWORK_ERROR,
+        `Failed to top up credits: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Gets the remaining balance of the current credit token
+   *
+   * @returns The balance in USD, or undefined if there is no valid credit token
+   */
+  async getCreditBalance(): Promise<number | undefined> {
+    if (!this.activeCreditToken) return undefined;
+
+    try {
+      const response = await fetch(`${this.config.apiEndpoint}/v1/credits`, {
+        headers: {
+          'Accept': 'application/json',
+          'Authorization': `Bearer ${this.activeCreditToken}`,
+        },
+      });
+
+      if (!response.ok) return undefined;
+
+      const data = await response.json() as { balance: string };
+      return parseFloat(data.balance);
+    } catch (error) {
+      throw new GanymedeError(
+        GanymedeErrorCode.NETWORK_ERROR,
+        `Failed to get credit balance: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Whether the server no longer knows the current credit token (e.g. it
+   * restarted with an in-memory credit store)
+   */
+  private async isCreditTokenUnknown(): Promise<boolean> {
+    const response = await fetch(`${this.config.apiEndpoint}/v1/credits`, {
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': `Bearer ${this.activeCreditToken}`,
+      },
+    });
+    return response.status === 401;
+  }
+
+  /**
+   * Platform fee to charge on a swap, if a fee account is configured for
+   * the mint the fee is taken in
+   *
+   * An explicit `platformFeeBps` in the swap params overrides the configured rate.
+   *
+   * @throws GanymedeError (INVALID_PARAMS) if `platformFeeBps` is set but no
+   * fee account is configured for the fee mint
+   */
+  private platformFeeFor(params: SwapParams): { feeBps: number; feeAccount: string } | undefined {
+    const feeMint = params.swapMode === 'ExactOut' ? params.inputMint : params.outputMint;
+    const feeAccount = this.platformFee?.feeAccounts[feeMint];
+
+    if (!feeAccount) {
+      if (params.platformFeeBps) {
+        throw new GanymedeError(
+          GanymedeErrorCode.INVALID_PARAMS,
+          `platformFeeBps requires a platformFee.feeAccounts entry for ${feeMint}`
+        );
+      }
+      return undefined;
+    }
+
+    return { feeBps: params.platformFeeBps ?? this.platformFee!.bps, feeAccount };
+  }
+
+  /**
+   * Sends a premium request paid with prepaid credit
+   *
+   * Buys credit first if auto top-up is enabled and needed. Returns undefined
+   * when credit cannot pay for the request, so the caller can pay per request.
+   */
+  private async fetchWithCredits(url: string, init: RequestInit): Promise<Response | undefined> {
+    const autoTopUp = this.config.autoTopUpCredits;
+
+    if (!this.activeCreditToken && autoTopUp > 0) {
+      await this.topUpCredits(autoTopUp);
+    }
+    if (!this.activeCreditToken) return undefined;
+
+    const send = () => fetch(url, {
+      ...init,
+      headers: { ...init.headers, 'Authorization': `Bearer ${this.activeCreditToken}` },
+    });
+
+    let response = await send();
+
+    // Balance ran out - buy more and try once more
+    if (response.status === 402 && autoTopUp > 0) {
+      await this.topUpCredits(autoTopUp);
+      response = await send();
+    }
+
+    if (response.status === 401) {
+      this.activeCreditToken = null;
+      return undefined;
+    }
+
+    return response.status === 402 ? undefined : response;
+  }
+
+  /**
+   * Creates a fetch that pays x402 challenges up to `maxPayment` USD, from
+   * the payment session when configured
+   */
+  private createPaidFetch(maxPayment: number): typeof fetch {
+    return wrapFetchWithPayment(this.config.wallet, {
+      maxPayment,
+      network: this.config.network,
+      preferredAssets: this.config.preferredPaymentAssets,
+      ledger: this.ledger,
+      onPaymentRequired: this.onPaymentRequired,
+      ...(this.session && { session: this.session }),
+    });
+  }
+
   /**
    * Fetches premium swap data from the x402-protected API
+   *
+   * Paid with prepaid credit when available, otherwise from the payment
+   * session or per request.
    */
   private async fetchPremiumSwap(params: SwapParams): Promise<SwapResult> {
     // Initialize paid fetch wrapper if not already done
-    if (!this.paidFetch) {
-      this.paidFetch = wrapFetchWithPayment(this.config.wallet, {
-        maxPayment: this.config.maxPaymentPerSwap,
-        network: this.config.network,
-      });
-    }
+    this.paidFetch ??= this.createPaidFetch(this.config.maxPaymentPerSwap);
+
+    const fee = this.platformFeeFor(params);
 
     try {
-      const response = await this.paidFetch(`${this.config.apiEndpoint}/v1/swap/enhanced`, {
+      const url = `${this.config.apiEndpoint}/v1/swap/enhanced`;
+      const init: RequestInit = {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -215,12 +683,17 @@ export class GanymedeClient {
           outputMint: params.outputMint,
           amount: params.amount,
           slippageBps: params.slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+          swapMode: params.swapMode ?? 'ExactIn',
+          ...routeOptions(params),
+          ...(fee && { platformFeeBps: fee.feeBps, feeAccount: fee.feeAccount }),
           userPublicKey: getWalletAddress(this.config.wallet),
           mevProtection: params.mevProtection ?? false,
           optimizePriorityFee: params.optimizePriorityFee ?? false,
           includeAnalytics: params.includeAnalytics ?? false,
         }),
-      });
+      };
+
+      const response = await this.fetchWithCredits(url, init) ?? await this.paidFetch(url, init);
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -239,10 +712,14 @@ export class GanymedeClient {
       return {
         transaction,
         quote: data.quote,
+        lastValidBlockHeight: data.lastValidBlockHeight,
+        params,
         mevAnalysis: data.mevAnalysis,
         recommendedPriorityFee: data.recommendedPriorityFee,
         routeAnalytics: data.routeAnalytics,
         paymentTxHash: extractPaymentTxHash(response),
+        paymentReceipt: extractPaymentReceipt(response),
+        creditBalance: parseCreditBalance(response),
       };
     } catch (error) {
       if (error instanceof GanymedeError) throw error;
@@ -255,19 +732,53 @@ export class GanymedeClient {
     }
   }
 
+  /**
+   * Simulates a swap transaction without sending it
+   *
+   * Reports the compute units and logs, a readable reason if the swap would
+   * fail (slippage exceeded, insufficient funds, account not found), and how
+   * the wallet's token and SOL balances would change.
+   *
+   * @param result - Swap built by buildSwap or getEnhancedSwap
+   * @returns The simulation outcome
+   */
+  async simulateSwap(result: SwapResult): Promise<SwapSimulation> {
+    validateWallet(this.config.wallet);
+    const owner = new PublicKey(getWalletAddress(this.config.wallet));
+
+    try {
+      return await simulateSwapTransaction(
+        this.config.connection,
+        result.transaction,
+        owner,
+        [result.quote.inputMint, result.quote.outputMint],
+        this.config.commitment
+      );
+    } catch (error) {
+      throw new GanymedeError(
+        GanymedeErrorCode.NETWORK_ERROR,
+        `Failed to simulate swap: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error
+      );
+    }
+  }
+
   /**
    * Executes a swap transaction
    *
-   * Signs and sends the transaction, then waits for confirmation.
+   * Signs and sends the transaction, rebroadcasting it until it confirms at
+   * the configured commitment or its blockhash expires.
    *
    * @param result - The swap result containing the transaction to execute
+   * @param options - Commitment, rebroadcast interval and progress callback
    * @returns The transaction signature
+   * @throws GanymedeError with code TRANSACTION_EXPIRED if the blockhash
+   *   expired before the transaction confirmed
    */
-  async executeSwap(result: SwapResult): Promise<string> {
+  async executeSwap(result: SwapResult, options: ExecuteSwapOptions = {}): Promise<string> {
     validateWallet(this.config.wallet);
 
-    const wallet = this.config.wallet as unknown as SignableWallet;
-    if (!wallet.signTransaction) {
+    if (!supportsTransactionSigning(this.config.wallet)) {
       throw new GanymedeError(
         GanymedeErrorCode.WALLET_SIGNING_FAILED,
         'Wallet does not support transaction signing'
@@ -276,31 +787,13 @@ export class GanymedeClient {
 
     try {
       // Sign the transaction
-      const signed = await wallet.signTransaction(result.transaction);
-
-      // Send the transaction
-      const txid = await this.config.connection.sendRawTransaction(
-        signed.serialize(),
-        {
-          skipPreflight: true,
-          maxRetries: 2,
-        }
-      );
-
-      // Wait for confirmation
-      const confirmation = await this.config.connection.confirmTransaction(
-        txid,
-        'confirmed'
-      );
+      const signed = await toSigner(this.config.wallet).signTransaction(result.transaction);
 
-      if (confirmation.value.err) {
-        throw new GanymedeError(
-          GanymedeErrorCode.SWAP_FAILED,
-          `Transaction failed: ${JSON.stringify(confirmation.value.err)}`
-        );
-      }
-
-      return txid;
+      return await sendAndConfirmTransaction(this.config.connection, signed, {
+        commitment: this.config.commitment,
+        lastValidBlockHeight: result.lastValidBlockHeight,
+        ...options,
+      });
     } catch (error) {
       if (error instanceof GanymedeError) throw error;
 
@@ -312,15 +805,98 @@ export class GanymedeClient {
     }
   }
 
+  /**
+   * Executes a swap, rebuilding it from its parameters if it goes stale
+   *
+   * When the transaction's blockhash expires or it fails on slippage, the
+   * swap is re-quoted and rebuilt through `getEnhancedSwap`, so premium swaps
+   * are paid from prepaid credit or the payment session when configured.
+   * Gives up after `maxAttempts`, or if the new quote's output dropped (or,
+   * for ExactOut swaps, its input rose) by more than `maxPriceDriftBps`
+   * against the original.
+   *
+   * @param result - Swap built by buildSwap or getEnhancedSwap
+   * @returns The transaction signature and the swap that was executed
+   * @throws GanymedeError with code PRICE_DRIFT_EXCEEDED if the price moved too far
+   */
+  async executeWithRefresh(
+    result: SwapResult,
+    options: ExecuteWithRefreshOptions = {}
+  ): Promise<{ txid: string; result: SwapResult }> {
+    const {
+      maxAttempts = DEFAULT_REFRESH_ATTEMPTS,
+      maxPriceDriftBps = DEFAULT_MAX_PRICE_DRIFT_BPS,
+      onRefresh,
+      ...sendOptions
+    } = options;
+
+    const params = result.params;
+    if (!params) {
+      throw new GanymedeError(
+        GanymedeErrorCode.INVALID_PARAMS,
+        'Swap result has no parameters to rebuild it from'
+      );
+    }
+
+    // ExactOut swaps fix the output, so the price shows in the input amount
+    const exactOut = params.swapMode === 'ExactOut';
+    const originalAmount = parseInt(exactOut ? result.quote.inAmount : result.quote.outAmount);
+    let current = result;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const txid = await this.executeSwap(current, sendOptions);
+        return { txid, result: current };
+      } catch (error) {
+        const reason = refreshReason(error);
+        if (!reason || attempt >= maxAttempts) throw error;
+
+        current = await this.getEnhancedSwap(params);
+
+        const driftBps = exactOut
+          ? (parseInt(current.quote.inAmount) - originalAmount) * 10_000 / originalAmount
+          : (originalAmount - parseInt(current.quote.outAmount)) * 10_000 / originalAmount;
+        if (driftBps > maxPriceDriftBps) {
+          throw new GanymedeError(
+            GanymedeErrorCode.PRICE_DRIFT_EXCEEDED,
+            exactOut
+              ? `Rebuilt swap costs ${driftBps.toFixed(0)} bps more than the original quote (max ${maxPriceDriftBps})`
+              : `Rebuilt swap returns ${driftBps.toFixed(0)} bps less than the original quote (max ${maxPriceDriftBps})`,
+            error
+          );
+        }
+
+        onRefresh?.({ attempt: attempt + 1, reason, result: current });
+      }
+    }
+  }
+
   /**
    * Convenience method: Get quote, build, and execute swap in one call
    *
    * @param params - Swap parameters
+   * @param options - Send options; set `simulate` to refuse to send a swap
+   *   that fails simulation
    * @returns Object containing the transaction signature and swap result
+   * @throws GanymedeError with code SIMULATION_FAILED if simulation is enabled
+   *   and the swap would fail
    */
-  async swap(params: SwapParams): Promise<{ txid: string; result: SwapResult }> {
+  async swap(params: SwapParams, options: SwapOptions = {}): Promise<{ txid: string; result: SwapResult }> {
+    const { simulate, ...sendOptions } = options;
     const result = await this.getEnhancedSwap(params);
-    const txid = await this.executeSwap(result);
+
+    if (simulate) {
+      const simulation = await this.simulateSwap(result);
+      if (!simulation.success) {
+        throw new GanymedeError(
+          GanymedeErrorCode.SIMULATION_FAILED,
+          `Swap simulation failed: ${simulation.error?.message ?? 'Unknown error'}`,
+          simulation
+        );
+      }
+    }
+
+    const txid = await this.executeSwap(result, sendOptions);
     return { txid, result };
   }
 }
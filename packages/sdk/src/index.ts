@@ -41,21 +41,65 @@ export { GanymedeClient } from './client.js';
 // Types
 export type {
   GanymedeConfig,
+  PlatformFeeConfig,
+  JupiterApiConfig,
   SwapParams,
+  RouteOptions,
   SwapResult,
   MEVAnalysis,
   PriorityFeeRecommendation,
   RouteAnalytics,
   RouteHop,
   EnhancedSwapResponse,
+  PaymentReceipt,
+  CreditBalance,
+  SpendLimits,
+  PaymentRecord,
+  ExecuteSwapOptions,
+  ExecuteWithRefreshOptions,
+  SwapRefreshReason,
+  SwapOptions,
+  QuoteParams,
+  BatchQuoteOptions,
+  QuoteBatchItem,
+  EnhancedQuote,
+  EnhancedQuoteBatchItem,
 } from './types.js';
 
 export { GanymedeError, GanymedeErrorCode } from './types.js';
 
 // Utilities (for advanced usage)
-export { wrapFetchWithPayment, extractPaymentTxHash } from './utils/x402-fetch.js';
-export type { PaymentConfig } from './utils/x402-fetch.js';
+export {
+  wrapFetchWithPayment,
+  extractPaymentTxHash,
+  extractPaymentReceipt,
+  decodePaymentResponse,
+  parsePaymentRequirements,
+  selectPaymentOption,
+} from './utils/x402-fetch.js';
+export type {
+  PaymentConfig,
+  PaymentRequirements,
+  PaymentApprovalRequest,
+  PaymentApproval,
+  PaymentApprovalHandler,
+} from './utils/x402-fetch.js';
+export { PaymentSession } from './utils/payment-session.js';
+export type { PaymentSessionConfig } from './utils/payment-session.js';
+export { PaymentLedger } from './utils/payment-ledger.js';
+export type { PaymentLedgerQuery, SpendSummary } from './utils/payment-ledger.js';
 export { validateWallet, getWalletAddress, supportsMessageSigning } from './utils/wallet.js';
+export { keypairSigner, remoteSigner, walletAdapterSigner, toSigner } from './utils/signer.js';
+export type { Signer, RemoteSignRequest, RemoteSignFunction } from './utils/signer.js';
+export { sendAndConfirmTransaction } from './utils/transaction-sender.js';
+export type { SendTransactionOptions, SendProgressEvent } from './utils/transaction-sender.js';
+export { simulateSwapTransaction, decodeSimulationError } from './utils/simulation.js';
+export type {
+  SwapSimulation,
+  SimulationError,
+  SimulationErrorReason,
+  TokenBalanceChange,
+} from './utils/simulation.js';
 
 // Re-export useful types from dependencies
 export type { QuoteResponse } from '@jup-ag/api';
@@ -1,13 +1,20 @@
 import type { QuoteResponse } from '@jup-ag/api';
-import type { Connection, VersionedTransaction } from '@solana/web3.js';
+import type { Commitment, Connection, VersionedTransaction } from '@solana/web3.js';
 import type { WalletAdapter } from '@solana/wallet-adapter-base';
+import type { PaymentSessionConfig } from './utils/payment-session.js';
+import type { PaymentApprovalHandler } from './utils/x402-fetch.js';
+import type { Signer } from './utils/signer.js';
+import type { SendTransactionOptions } from './utils/transaction-sender.js';
 
 /**
  * Configuration for the Ganymede client
  */
 export interface GanymedeConfig {
-  /** Connected wallet adapter for signing transactions and payments */
-  wallet: WalletAdapter;
+  /**
+   * Signs transactions and payments: a connected wallet adapter, or a Signer
+   * such as `keypairSigner(keypair)` for headless use
+   */
+  wallet: WalletAdapter | Signer;
   /** Solana connection instance */
   connection: Connection;
   /** Custom API endpoint for x402-protected server (defaults to hosted version) */
@@ -18,20 +25,119 @@ export interface GanymedeConfig {
   maxPaymentPerSwap?: number;
   /** Network to use: 'devnet' or 'mainnet' */
   network?: 'devnet' | 'mainnet';
+  /** Payment assets to prefer when the server accepts several, by symbol or mint (e.g. ['USDC', 'USDT']) */
+  preferredPaymentAssets?: string[];
+  /** Prepaid credit token to spend instead of paying per request */
+  creditToken?: string;
+  /**
+   * USD amount of prepaid credit to buy automatically when there is no credit
+   * token or its balance runs out (default: 0, disabled)
+   */
+  autoTopUpCredits?: number;
+  /**
+   * Pay premium requests from a wallet-signed session with a spend limit, so
+   * the wallet signs once per session instead of once per request
+   */
+  paymentSession?: PaymentSessionConfig;
+  /** Rolling USD budgets for x402 payments; payments that would exceed one are refused before signing */
+  spendLimits?: SpendLimits;
+  /**
+   * Approves, rejects or changes each x402 payment before it is signed, e.g.
+   * to show the price to the user or enforce a payTo allowlist
+   */
+  onPaymentRequired?: PaymentApprovalHandler;
+  /** Commitment executeSwap waits for (default: 'confirmed') */
+  commitment?: Commitment;
+  /** Referral fee to collect on swaps, for apps embedding the client */
+  platformFee?: PlatformFeeConfig;
+  /** Jupiter API to quote and build swaps with (defaults to the public API) */
+  jupiter?: JupiterApiConfig;
+}
+
+/**
+ * Jupiter API location and credentials, for self-hosted instances or paid
+ * API keys
+ */
+export interface JupiterApiConfig {
+  /**
+   * Base URL of the quote and swap API, e.g. 'http://localhost:8080/swap/v1'
+   * (default: https://lite-api.jup.ag/swap/v1, or https://api.jup.ag/swap/v1
+   * with an API key)
+   */
+  baseUrl?: string;
+  /** API key sent as the x-api-key header */
+  apiKey?: string;
+}
+
+/**
+ * Referral fee collected on swaps made through the client
+ */
+export interface PlatformFeeConfig {
+  /** Fee in basis points (100 = 1%) */
+  bps: number;
+  /**
+   * Token account that receives the fee, by the mint the fee is taken in:
+   * the output mint, or the input mint for ExactOut swaps. Swaps without a
+   * fee account for that mint are not charged.
+   */
+  feeAccounts: Record<string, string>;
+}
+
+/**
+ * Rolling spend budgets for x402 payments, in USD
+ */
+export interface SpendLimits {
+  /** Maximum spent over any 60-minute window */
+  perHour?: number;
+  /** Maximum spent over any 24-hour window */
+  perDay?: number;
+  /** Maximum spent over the client's lifetime */
+  perSession?: number;
+}
+
+/**
+ * Jupiter routing controls
+ */
+export interface RouteOptions {
+  /** Only route through these DEXes (Jupiter labels, e.g. 'Raydium') */
+  dexes?: string[];
+  /** Never route through these DEXes */
+  excludeDexes?: string[];
+  /** Only use single-hop routes */
+  onlyDirectRoutes?: boolean;
+  /** Only route through highly liquid intermediate tokens (default: true) */
+  restrictIntermediateTokens?: boolean;
+  /** Upper bound on the accounts the route may use, to leave room for other instructions */
+  maxAccounts?: number;
+  /**
+   * Platform fee taken from the output, in basis points (needs a
+   * `platformFee.feeAccounts` entry for the fee mint)
+   */
+  platformFeeBps?: number;
+  /** Build a legacy transaction instead of a versioned one */
+  asLegacyTransaction?: boolean;
 }
 
 /**
  * Parameters for requesting a swap quote or execution
  */
-export interface SwapParams {
+export interface SwapParams extends RouteOptions {
   /** Input token mint address */
   inputMint: string;
   /** Output token mint address */
   outputMint: string;
-  /** Amount in smallest units (lamports for SOL, etc.) */
+  /**
+   * Amount in smallest units (lamports for SOL, etc.): the input amount, or
+   * the output amount when `swapMode` is 'ExactOut'
+   */
   amount: number;
   /** Slippage tolerance in basis points (100 = 1%) */
   slippageBps?: number;
+  /**
+   * Which side of the swap is fixed (default: 'ExactIn'). With 'ExactOut'
+   * exactly `amount` of the output token is received and the input varies.
+   */
+  swapMode?: 'ExactIn' | 'ExactOut';
   /** Enable MEV protection analysis (premium feature) */
   mevProtection?: boolean;
   /** Get optimized priority fee recommendation (premium feature) */
@@ -40,6 +146,43 @@ export interface SwapParams {
   includeAnalytics?: boolean;
 }
 
+/**
+ * Parameters for a quote: swap parameters without the premium features
+ */
+export type QuoteParams = Omit<SwapParams, 'mevProtection' | 'optimizePriorityFee' | 'includeAnalytics'>;
+
+/**
+ * Options for quoting several swaps at once
+ */
+export interface BatchQuoteOptions {
+  /** Quotes requested from Jupiter at the same time (default: 4) */
+  concurrency?: number;
+}
+
+/**
+ * One quote of a batch; a failed quote carries its error instead
+ */
+export type QuoteBatchItem =
+  | { success: true; params: QuoteParams; quote: QuoteResponse }
+  | { success: false; params: QuoteParams; error: GanymedeError };
+
+/**
+ * Quote with the premium analysis requested for it
+ */
+export interface EnhancedQuote {
+  quote: QuoteResponse;
+  mevAnalysis?: MEVAnalysis;
+  recommendedPriorityFee?: PriorityFeeRecommendation;
+  routeAnalytics?: RouteAnalytics;
+}
+
+/**
+ * One premium quote of a batch; a failed quote carries its error instead
+ */
+export type EnhancedQuoteBatchItem =
+  | ({ success: true; params: SwapParams } & EnhancedQuote)
+  | { success: false; params: SwapParams; error: GanymedeError };
+
 /**
  * MEV (Maximal Extractable Value) risk analysis
  */
@@ -119,6 +262,13 @@ export interface RouteAnalytics {
     estimatedGasCost: number;
     priceImpact: number;
     effectivePrice: number;
+    /** Platform fee taken by the swap (only if one was charged) */
+    platformFee?: {
+      /** Fee in atomic units of `mint` */
+      amount: string;
+      feeBps: number;
+      mint: string;
+    };
   };
   /** Comparison with alternatives */
   comparison: {
@@ -139,6 +289,42 @@ export interface RouteAnalytics {
   optimizationSuggestions: string[];
 }
 
+/**
+ * x402 settlement receipt decoded from the X-PAYMENT-RESPONSE header
+ */
+export interface PaymentReceipt {
+  /** Whether the payment was settled */
+  success: boolean;
+  /** Settlement transaction signature */
+  transaction: string;
+  /** Network the payment settled on, in CAIP-2 format */
+  network: string;
+  /** Address of the wallet that paid */
+  payer: string;
+  /** Reason settlement failed (only when success is false) */
+  errorReason?: string;
+}
+
+/**
+ * x402 payment recorded in the client's payment ledger
+ */
+export interface PaymentRecord {
+  /** Amount paid in USD */
+  amount: number;
+  /** Mint address of the token paid with */
+  asset: string;
+  /** Network the payment was made on, in CAIP-2 format */
+  network: string;
+  /** URL of the paid resource */
+  resource: string;
+  /** When the payment was made (ms since epoch) */
+  timestamp: number;
+  /** Whether the payment was signed per request or charged to a payment session */
+  method: 'signature' | 'session';
+  /** Settlement receipt returned by the server */
+  receipt?: PaymentReceipt;
+}
+
 /**
  * Result of a swap request
  */
@@ -147,6 +333,10 @@ export interface SwapResult {
   transaction: VersionedTransaction;
   /** Quote details from Jupiter */
   quote: QuoteResponse;
+  /** Last block height at which the transaction's blockhash is valid */
+  lastValidBlockHeight?: number;
+  /** Parameters the swap was built from, used to rebuild it when it goes stale */
+  params?: SwapParams;
   /** MEV analysis (only if mevProtection was requested) */
   mevAnalysis?: MEVAnalysis;
   /** Priority fee recommendation (only if optimizePriorityFee was requested) */
@@ -155,6 +345,54 @@ export interface SwapResult {
   routeAnalytics?: RouteAnalytics;
   /** x402 payment transaction hash (if premium features were used) */
   paymentTxHash?: string;
+  /** x402 settlement receipt (if premium features were used) */
+  paymentReceipt?: PaymentReceipt;
+  /** Remaining prepaid credit in USD (if the request was paid with credit) */
+  creditBalance?: number;
+}
+
+/**
+ * Options for executing a swap transaction
+ */
+export type ExecuteSwapOptions = Omit<SendTransactionOptions, 'lastValidBlockHeight'>;
+
+/**
+ * Options for the one-call swap
+ */
+export interface SwapOptions extends ExecuteSwapOptions {
+  /** Simulate the transaction first and refuse to send it if it would fail (default: false) */
+  simulate?: boolean;
+}
+
+/**
+ * Why a swap was rebuilt by executeWithRefresh
+ */
+export type SwapRefreshReason = 'expired' | 'slippage';
+
+/**
+ * Options for executing a swap that is rebuilt when it goes stale
+ */
+export interface ExecuteWithRefreshOptions extends ExecuteSwapOptions {
+  /** Total execution attempts, including the first (default: 3) */
+  maxAttempts?: number;
+  /**
+   * Largest drop in output amount a rebuilt swap may have against the
+   * original quote, in basis points (default: 100 = 1%). For ExactOut swaps
+   * this bounds the rise in input amount instead.
+   */
+  maxPriceDriftBps?: number;
+  /** Called with each rebuilt swap before it is executed */
+  onRefresh?: (event: { attempt: number; reason: SwapRefreshReason; result: SwapResult }) => void;
+}
+
+/**
+ * Prepaid credit token and its balance
+ */
+export interface CreditBalance {
+  /** Bearer token to spend the credit with */
+  token: string;
+  /** Remaining balance in USD */
+  balance: number;
 }
 
 /**
@@ -162,6 +400,7 @@ export interface SwapResult {
  */
 export interface EnhancedSwapResponse {
   swapTransaction: string;
+  lastValidBlockHeight?: number;
   quote: QuoteResponse;
   mevAnalysis?: MEVAnalysis;
   recommendedPriorityFee?: PriorityFeeRecommendation;
@@ -180,6 +419,10 @@ export enum GanymedeErrorCode {
   SWAP_FAILED = 'SWAP_FAILED',
   NETWORK_ERROR = 'NETWORK_ERROR',
   INVALID_PARAMS = 'INVALID_PARAMS',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
+  TRANSACTION_EXPIRED = 'TRANSACTION_EXPIRED',
+  PRICE_DRIFT_EXCEEDED = 'PRICE_DRIFT_EXCEEDED',
+  SIMULATION_FAILED = 'SIMULATION_FAILED',
 }
 
 /**
@@ -0,0 +1,133 @@
+import {
+  GanymedeError,
+  GanymedeErrorCode,
+  type PaymentRecord,
+  type SpendLimits,
+} from '../types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Filter for querying the payment ledger
+ */
+export interface PaymentLedgerQuery {
+  /** Only payments made at or after this time (ms since epoch) */
+  since?: number;
+  /** Only payments made before this time (ms since epoch) */
+  until?: number;
+  /** Only payments for this resource URL */
+  resource?: string;
+}
+
+/**
+ * USD spent in each budget window
+ */
+export interface SpendSummary {
+  /** Spent in the last hour */
+  hour: number;
+  /** Spent in the last 24 hours */
+  day: number;
+  /** Spent since the ledger was created */
+  session: number;
+}
+
+/**
+ * Record of every x402 payment made, with rolling spend budgets
+ *
+ * Budgets are checked with `assertWithinBudget` before a payment is signed;
+ * the hour and day windows roll, the session window covers the ledger's
+ * whole lifetime.
+ */
+export class PaymentLedger {
+  private readonly limits: SpendLimits;
+  private records: PaymentRecord[] = [];
+
+  constructor(limits: SpendLimits = {}) {
+    for (const [window, limit] of Object.entries(limits)) {
+      if (limit !== undefined && (!Number.isFinite(limit) || limit < 0)) {
+        throw new GanymedeError(
+          GanymedeErrorCode.INVALID_PARAMS,
+          `Spend limit ${window} must be a non-negative number of USD`
+        );
+      }
+    }
+
+    this.limits = limits;
+  }
+
+  /**
+   * Adds a payment to the ledger
+   */
+  record(payment: PaymentRecord): void {
+    this.records.push({ ...payment });
+  }
+
+  /**
+   * Lists recorded payments, oldest first
+   */
+  query(filter: PaymentLedgerQuery = {}): PaymentRecord[] {
+    return this.records
+      .filter(payment =>
+        (filter.since === undefined || payment.timestamp >= filter.since) &&
+        (filter.until === undefined || payment.timestamp < filter.until) &&
+        (filter.resource === undefined || payment.resource === filter.resource)
+      )
+      .map(payment => ({ ...payment }));
+  }
+
+  /**
+   * Totals spending in each budget window
+   */
+  spent(now: number = Date.now()): SpendSummary {
+    const summary: SpendSummary = { hour: 0, day: 0, session: 0 };
+
+    for (const payment of this.records) {
+      summary.session += payment.amount;
+      if (payment.timestamp > now - DAY_MS) summary.day += payment.amount;
+      if (payment.timestamp > now - HOUR_MS) summary.hour += payment.amount;
+    }
+
+    return summary;
+  }
+
+  /**
+   * USD that can still be paid now without exceeding any budget (Infinity
+   * without limits)
+   */
+  remaining(now: number = Date.now()): number {
+    const spent = this.spent(now);
+    const left = Math.min(
+      (this.limits.perHour ?? Infinity) - spent.hour,
+      (this.limits.perDay ?? Infinity) - spent.day,
+      (this.limits.perSession ?? Infinity) - spent.session
+    );
+
+    // Round to micro-USD like assertWithinBudget
+    return Number.isFinite(left) ? Math.max(0, Math.round(left * 1e6) / 1e6) : left;
+  }
+
+  /**
+   * Throws if paying `amount` USD now would exceed any budget
+   *
+   * @throws GanymedeError with code BUDGET_EXCEEDED
+   */
+  assertWithinBudget(amount: number, now: number = Date.now()): void {
+    const spent = this.spent(now);
+    const windows: Array<[keyof SpendSummary, number | undefined, string]> = [
+      ['hour', this.limits.perHour, 'hourly'],
+      ['day', this.limits.perDay, 'daily'],
+      ['session', this.limits.perSession, 'session'],
+    ];
+
+    for (const [window, limit, label] of windows) {
+      // Round to micro-USD so float sums of exact prices don't trip the limit
+      if (limit !== undefined && Math.round((spent[window] + amount) * 1e6) > Math.round(limit * 1e6)) {
+        throw new GanymedeError(
+          GanymedeErrorCode.BUDGET_EXCEEDED,
+          `Payment of $${amount} would exceed the ${label} budget of $${limit} ($${spent[window].toFixed(6)} spent)`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import { GanymedeError, GanymedeErrorCode } from '../types.js';
+import type { PaymentRequirements } from './x402-fetch.js';
+
+/** Default session lifetime in seconds (1 hour) */
+const DEFAULT_SESSION_SECONDS = 60 * 60;
+
+/**
+ * Wallet that can sign session authorizations
+ */
+interface MessageSignableWallet {
+  publicKey: { toBase58(): string } | null;
+  signMessage?(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Configuration for a payment session
+ */
+export interface PaymentSessionConfig {
+  /** Total USD the session may spend */
+  maxSpend: number;
+  /** How long the session stays valid, in seconds (default: 3600, max: 86400) */
+  expiresInSeconds?: number;
+  /**
+   * Resource URLs the session may pay for; a trailing `*` matches any suffix.
+   * Defaults to the resource of the request that opened the session.
+   */
+  resources?: string[];
+}
+
+/**
+ * Bounded-spend payment session
+ *
+ * The wallet signs one authorization for up to `maxSpend` USD, and the server
+ * then charges each request against it without another signature. A new
+ * session is opened automatically when the budget runs out or it expires.
+ *
+ * @example
+ * ```typescript
+ * const session = new PaymentSession({ maxSpend: 0.5 });
+ * const paidFetch = wrapFetchWithPayment(wallet, { maxPayment: 0.01, session });
+ * ```
+ */
+export class PaymentSession {
+  private readonly config: PaymentSessionConfig;
+  private header: string | null = null;
+  private asset: PaymentRequirements['asset'] | null = null;
+  private network: string | null = null;
+  private resources: string[] = [];
+  private remainingAtomic = 0;
+  private expiry = 0;
+
+  constructor(config: PaymentSessionConfig) {
+    if (!Number.isFinite(config.maxSpend) || config.maxSpend <= 0) {
+      throw new GanymedeError(
+        GanymedeErrorCode.INVALID_PARAMS,
+        'Session maxSpend must be a positive number of USD'
+      );
+    }
+
+    this.config = config;
+  }
+
+  /**
+   * Total USD each session authorizes
+   */
+  get maxSpend(): number {
+    return this.config.maxSpend;
+  }
+
+  /**
+   * Whether a signed session is open, unexpired and has budget left
+   */
+  get isActive(): boolean {
+    return this.header !== null && Date.now() < this.expiry && this.remainingAtomic > 0;
+  }
+
+  /**
+   * Remaining session budget in USD, as last reported by the server
+   */
+  get remaining(): number | undefined {
+    if (!this.header || !this.asset) return undefined;
+    return this.remainingAtomic / Math.pow(10, this.asset.decimals);
+  }
+
+  /**
+   * When the current session expires (ms since epoch)
+   */
+  get expiresAt(): number | undefined {
+    return this.header ? this.expiry : undefined;
+  }
+
+  /**
+   * The X-PAYMENT-SESSION header value for the current session
+   */
+  get headerValue(): string | undefined {
+    return this.isActive ? this.header! : undefined;
+  }
+
+  /**
+   * Whether a session opened for these terms could pay for the request
+   */
+  canPay(requirements: PaymentRequirements): boolean {
+    return Number(requirements.amount) <= this.budgetFor(requirements, this.config.maxSpend);
+  }
+
+  /**
+   * Whether the open session can pay for the request without a new signature
+   */
+  covers(requirements: PaymentRequirements): boolean {
+    return this.isActive &&
+      this.asset?.address === requirements.asset.address &&
+      this.network === requirements.network &&
+      Number(requirements.amount) <= this.remainingAtomic &&
+      this.resources.some(entry => entry.endsWith('*')
+        ? requirements.resource.startsWith(entry.slice(0, -1))
+        : entry === requirements.resource);
+  }
+
+  /**
+   * Signs a new session authorization for a payment option
+   *
+   * Prompts the wallet once. Replaces any current session.
+   *
+   * @param maxSpend - USD to authorize, if less than the configured `maxSpend`
+   * @returns The X-PAYMENT-SESSION header value
+   */
+  async open(
+    wallet: MessageSignableWallet,
+    requirements: PaymentRequirements,
+    maxSpend: number = this.config.maxSpend
+  ): Promise<string> {
+    if (!wallet.signMessage) {
+      throw new GanymedeError(
+        GanymedeErrorCode.WALLET_SIGNING_FAILED,
+        'Wallet does not support message signing required for payment sessions'
+      );
+    }
+
+    if (!wallet.publicKey) {
+      throw new GanymedeError(
+        GanymedeErrorCode.WALLET_NOT_CONNECTED,
+        'Wallet public key is not available'
+      );
+    }
+
+    const issuedAt = Date.now();
+    const expiresAt = issuedAt + (this.config.expiresInSeconds ?? DEFAULT_SESSION_SECONDS) * 1000;
+    const maxAmount = this.budgetFor(requirements, Math.min(maxSpend, this.config.maxSpend));
+    const resources = this.config.resources ?? [requirements.resource];
+
+    // Field order matches the server's SessionAuthorization
+    const message = JSON.stringify({
+      x402Version: 1,
+      scheme: 'session',
+      sessionId: randomSessionId(),
+      network: requirements.network,
+      asset: requirements.asset.address,
+      payTo: requirements.payTo,
+      payer: wallet.publicKey.toBase58(),
+      maxAmount: String(maxAmount),
+      resources,
+      issuedAt,
+      expiresAt,
+    });
+
+    let signature: Uint8Array;
+    try {
+      signature = await wallet.signMessage(new TextEncoder().encode(message));
+    } catch (error) {
+      throw new GanymedeError(
+        GanymedeErrorCode.WALLET_SIGNING_FAILED,
+        `Failed to sign payment session: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error
+      );
+    }
+
+    this.header = btoa(JSON.stringify({
+      x402Version: 1,
+      scheme: 'session',
+      network: requirements.network,
+      payload: {
+        message,
+        signature: Buffer.from(signature).toString('base64'),
+        publicKey: wallet.publicKey.toBase58(),
+      },
+    }));
+    this.asset = requirements.asset;
+    this.network = requirements.network;
+    this.resources = resources;
+    this.remainingAtomic = maxAmount;
+    this.expiry = expiresAt;
+
+    return this.header;
+  }
+
+  /**
+   * Updates the remaining budget from the X-PAYMENT-SESSION-REMAINING header
+   *
+   * @returns USD charged to the session since the last update
+   */
+  update(response: Response): number {
+    const header = response.headers.get('x-payment-session-remaining');
+    if (header === null || !/^\d+$/.test(header) || !this.asset) return 0;
+
+    const remaining = parseInt(header, 10);
+    const charged = Math.max(0, this.remainingAtomic - remaining);
+    this.remainingAtomic = remaining;
+
+    return charged / Math.pow(10, this.asset.decimals);
+  }
+
+  /**
+   * The asset and network the current session pays with
+   */
+  get terms(): { asset: string; network: string } | undefined {
+    return this.header && this.asset ? { asset: this.asset.address, network: this.network! } : undefined;
+  }
+
+  /**
+   * Drops the current session so the next payment opens a new one
+   */
+  close(): void {
+    this.header = null;
+    this.asset = null;
+    this.network = null;
+    this.resources = [];
+    this.remainingAtomic = 0;
+    this.expiry = 0;
+  }
+
+  /**
+   * USD budget in the option's smallest units
+   */
+  private budgetFor(requirements: PaymentRequirements, maxSpend: number): number {
+    return Math.round(maxSpend * Math.pow(10, requirements.asset.decimals));
+  }
+}
+
+/**
+ * Generates a random session identifier
+ */
+function randomSessionId(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,208 @@
+import {
+  VersionedTransaction,
+  type Keypair,
+  type PublicKey,
+  type Transaction,
+} from '@solana/web3.js';
+import type { WalletAdapter } from '@solana/wallet-adapter-base';
+import { GanymedeError, GanymedeErrorCode } from '../types.js';
+
+/**
+ * Anything that can sign for a Solana account: a browser wallet, a local
+ * keypair or a remote signing service
+ */
+export interface Signer {
+  /** Account the signer signs for (null while a wallet is disconnected) */
+  readonly publicKey: PublicKey | null;
+  /** Signs a transaction, returning the signed transaction */
+  signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T>;
+  /** Signs several transactions at once */
+  signAllTransactions<T extends Transaction | VersionedTransaction>(transactions: T[]): Promise<T[]>;
+  /** Signs an arbitrary message, returning the 64-byte ed25519 signature */
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Bytes a remote signer is asked to sign
+ */
+export interface RemoteSignRequest {
+  /** Whether the bytes are a transaction message or an off-chain message (e.g. an x402 payment) */
+  kind: 'transaction' | 'message';
+  /** Exact bytes to sign with ed25519 */
+  bytes: Uint8Array;
+}
+
+/**
+ * Callback that signs bytes on a remote service (KMS, HSM, custody API)
+ * and returns the 64-byte ed25519 signature
+ */
+export type RemoteSignFunction = (request: RemoteSignRequest) => Promise<Uint8Array>;
+
+/** PKCS#8 prefix wrapping a raw 32-byte ed25519 seed */
+const ED25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20,
+]);
+
+/**
+ * Creates a signer backed by a local keypair, for bots and backends
+ *
+ * @example
+ * ```typescript
+ * const keypair = Keypair.fromSecretKey(Uint8Array.from(JSON.parse(readFileSync('id.json', 'utf8'))));
+ * const client = new GanymedeClient({ wallet: keypairSigner(keypair), connection });
+ * ```
+ */
+export function keypairSigner(keypair: Keypair): Signer {
+  let signingKey: ReturnType<typeof crypto.subtle.importKey> | null = null;
+
+  const signBytes = async (bytes: Uint8Array): Promise<Uint8Array> => {
+    if (!signingKey) {
+      signingKey = crypto.subtle.importKey(
+        'pkcs8',
+        concat(ED25519_PKCS8_PREFIX, keypair.secretKey.slice(0, 32)),
+        { name: 'Ed25519' },
+        false,
+        ['sign']
+      );
+      // Import again on the next attempt instead of failing for good
+      signingKey.catch(() => { signingKey = null; });
+    }
+    return new Uint8Array(await crypto.subtle.sign('Ed25519', await signingKey, bytes));
+  };
+
+  const signTransaction = async <T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> => {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([keypair]);
+    } else {
+      transaction.partialSign(keypair);
+    }
+    return transaction;
+  };
+
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction,
+    signAllTransactions: transactions => Promise.all(transactions.map(signTransaction)),
+    signMessage: signBytes,
+  };
+}
+
+/**
+ * Creates a signer that delegates to a remote signing service
+ *
+ * The callback only ever sees the bytes to sign; transactions are assembled
+ * and signatures attached locally.
+ */
+export function remoteSigner(publicKey: PublicKey, sign: RemoteSignFunction): Signer {
+  const request = async (kind: RemoteSignRequest['kind'], bytes: Uint8Array): Promise<Uint8Array> => {
+    let signature: Uint8Array;
+    try {
+      signature = await sign({ kind, bytes });
+    } catch (error) {
+      throw new GanymedeError(
+        GanymedeErrorCode.WALLET_SIGNING_FAILED,
+        `Remote signer failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error
+      );
+    }
+
+    if (signature.length !== 64) {
+      throw new GanymedeError(
+        GanymedeErrorCode.WALLET_SIGNING_FAILED,
+        `Remote signer returned a ${signature.length}-byte signature, expected 64`
+      );
+    }
+    return signature;
+  };
+
+  const signTransaction = async <T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> => {
+    if (transaction instanceof VersionedTransaction) {
+      const signature = await request('transaction', transaction.message.serialize());
+      transaction.addSignature(publicKey, signature);
+    } else {
+      const signature = await request('transaction', transaction.serializeMessage());
+      transaction.addSignature(publicKey, Buffer.from(signature));
+    }
+    return transaction;
+  };
+
+  return {
+    publicKey,
+    signTransaction,
+    signAllTransactions: async transactions => {
+      // Sequential, so a remote service sees requests in order
+      const signed: typeof transactions = [];
+      for (const transaction of transactions) {
+        signed.push(await signTransaction(transaction));
+      }
+      return signed;
+    },
+    signMessage: message => request('message', message),
+  };
+}
+
+/**
+ * Wallet adapter methods that only signer-capable wallets implement
+ */
+interface SignerWalletAdapter {
+  signTransaction?<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T>;
+  signAllTransactions?<T extends Transaction | VersionedTransaction>(transactions: T[]): Promise<T[]>;
+  signMessage?(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Creates a signer from a browser wallet adapter
+ *
+ * Methods the wallet does not implement throw WALLET_SIGNING_FAILED.
+ */
+export function walletAdapterSigner(wallet: WalletAdapter): Signer {
+  const signer = wallet as unknown as SignerWalletAdapter;
+
+  const unsupported = (capability: string): never => {
+    throw new GanymedeError(
+      GanymedeErrorCode.WALLET_SIGNING_FAILED,
+      `Wallet does not support ${capability}`
+    );
+  };
+
+  return {
+    get publicKey() {
+      return wallet.publicKey;
+    },
+    signTransaction: async transaction =>
+      signer.signTransaction ? signer.signTransaction(transaction) : unsupported('transaction signing'),
+    signAllTransactions: async transactions => {
+      if (signer.signAllTransactions) return signer.signAllTransactions(transactions);
+      if (!signer.signTransaction) return unsupported('transaction signing');
+
+      const signed: typeof transactions = [];
+      for (const transaction of transactions) {
+        signed.push(await signer.signTransaction(transaction));
+      }
+      return signed;
+    },
+    signMessage: async message =>
+      signer.signMessage ? signer.signMessage(message) : unsupported('message signing'),
+  };
+}
+
+/**
+ * Whether a wallet is a wallet adapter rather than a Signer
+ */
+export function isWalletAdapter(wallet: WalletAdapter | Signer): wallet is WalletAdapter {
+  return 'connected' in wallet;
+}
+
+/**
+ * Returns a Signer for either a wallet adapter or a Signer
+ */
+export function toSigner(wallet: WalletAdapter | Signer): Signer {
+  return isWalletAdapter(wallet) ? walletAdapterSigner(wallet) : wallet;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
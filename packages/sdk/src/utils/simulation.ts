@@ -0,0 +1,198 @@
+import {
+  PublicKey,
+  type Commitment,
+  type Connection,
+  type TransactionError,
+  type VersionedTransaction,
+} from '@solana/web3.js';
+
+/**
+ * Readable cause of a failed simulation
+ */
+export type SimulationErrorReason =
+  | 'slippage_exceeded'
+  | 'insufficient_funds'
+  | 'account_not_found'
+  | 'unknown';
+
+/**
+ * Decoded simulation failure
+ */
+export interface SimulationError {
+  /** Readable cause of the failure */
+  reason: SimulationErrorReason;
+  /** Human-readable description */
+  message: string;
+  /** Transaction error as returned by the RPC node */
+  raw: TransactionError;
+}
+
+/**
+ * Change in one of the owner's token accounts, in the token's smallest units
+ */
+export interface TokenBalanceChange {
+  /** Token account address */
+  account: string;
+  /** Token mint */
+  mint: string;
+  /** Balance before the swap */
+  preAmount: string;
+  /** Balance after the swap */
+  postAmount: string;
+  /** Signed difference (postAmount - preAmount) */
+  change: string;
+}
+
+/**
+ * Outcome of simulating a swap transaction
+ */
+export interface SwapSimulation {
+  /** Whether the transaction would succeed */
+  success: boolean;
+  /** Compute units the transaction consumed */
+  unitsConsumed?: number;
+  /** Program logs */
+  logs: string[];
+  /** Decoded failure (only if the simulation failed) */
+  error?: SimulationError;
+  /** Changes to the owner's token accounts for the swap's mints */
+  balanceChanges: TokenBalanceChange[];
+  /** Change in the owner's SOL balance in lamports, including fees */
+  lamportsChange: number;
+}
+
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+/** Jupiter program error for exceeded slippage tolerance */
+const JUPITER_SLIPPAGE_ERROR = 6001;
+
+/** SPL Token program error for an insufficient token balance */
+const TOKEN_INSUFFICIENT_FUNDS_ERROR = 1;
+
+/** Size of the base SPL token account layout (mint, owner, amount, ...) */
+const TOKEN_ACCOUNT_MIN_SIZE = 72;
+
+/**
+ * Derives the associated token accounts an owner may hold for a mint, under
+ * both the Token and Token-2022 programs
+ */
+function associatedTokenAccounts(owner: PublicKey, mint: PublicKey): PublicKey[] {
+  return [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map(programId =>
+    PublicKey.findProgramAddressSync(
+      [owner.toBuffer(), programId.toBuffer(), mint.toBuffer()],
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    )[0]
+  );
+}
+
+/**
+ * Reads the mint and amount of an SPL token account
+ */
+function parseTokenAccount(data: Uint8Array | undefined): { mint: string; amount: bigint } | undefined {
+  if (!data || data.length < TOKEN_ACCOUNT_MIN_SIZE) return undefined;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    amount: view.getBigUint64(64, true),
+  };
+}
+
+/**
+ * Turns a transaction error into a readable reason
+ */
+export function decodeSimulationError(err: TransactionError, logs: string[] = []): SimulationError {
+  const joinedLogs = logs.join('\n');
+  const instructionError = (err as { InstructionError?: [number, unknown] }).InstructionError;
+  const custom = (instructionError?.[1] as { Custom?: number } | undefined)?.Custom;
+
+  let reason: SimulationErrorReason = 'unknown';
+  let message = `Transaction failed: ${JSON.stringify(err)}`;
+
+  if (custom === JUPITER_SLIPPAGE_ERROR || /SlippageToleranceExceeded/.test(joinedLogs)) {
+    reason = 'slippage_exceeded';
+    message = 'Price moved beyond the slippage tolerance';
+  } else if (
+    err === 'InsufficientFundsForFee' ||
+    err === 'InsufficientFundsForRent' ||
+    instructionError?.[1] === 'InsufficientFunds' ||
+    /insufficient (funds|lamports)/i.test(joinedLogs) ||
+    (custom === TOKEN_INSUFFICIENT_FUNDS_ERROR && /Program Tokenkeg|Program Tokenz/.test(joinedLogs))
+  ) {
+    reason = 'insufficient_funds';
+    message = 'Insufficient balance to cover the swap or its fees';
+  } else if (
+    err === 'AccountNotFound' ||
+    err === 'ProgramAccountNotFound' ||
+    instructionError?.[1] === 'MissingAccount' ||
+    /account not found|AccountNotInitialized/i.test(joinedLogs)
+  ) {
+    reason = 'account_not_found';
+    message = 'A required account does not exist (e.g. an unfunded wallet or missing token account)';
+  }
+
+  return { reason, message, raw: err };
+}
+
+/**
+ * Simulates a swap transaction and reports the owner's balance changes
+ *
+ * Signatures are not verified and the blockhash is replaced, so unsigned
+ * and slightly stale transactions can be simulated.
+ */
+export async function simulateSwapTransaction(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  owner: PublicKey,
+  mints: string[],
+  commitment: Commitment = 'confirmed'
+): Promise<SwapSimulation> {
+  const tokenAccounts = [...new Set(mints)].flatMap(mint => associatedTokenAccounts(owner, new PublicKey(mint)));
+  const watched = [owner, ...tokenAccounts];
+
+  const before = await connection.getMultipleAccountsInfo(watched, commitment);
+  const { value } = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment,
+    accounts: { encoding: 'base64', addresses: watched.map(key => key.toBase58()) },
+  });
+
+  const logs = value.logs ?? [];
+  const after = value.accounts ?? [];
+
+  const balanceChanges: TokenBalanceChange[] = [];
+  tokenAccounts.forEach((account, i) => {
+    const pre = parseTokenAccount(before[i + 1]?.data);
+    const postAccount = after[i + 1];
+    const post = parseTokenAccount(postAccount ? Buffer.from(postAccount.data[0], 'base64') : undefined);
+    const mint = pre?.mint ?? post?.mint;
+    if (!mint) return;
+
+    const preAmount = pre?.amount ?? 0n;
+    const postAmount = value.err ? preAmount : post?.amount ?? 0n;
+    if (preAmount === postAmount && !pre) return;
+
+    balanceChanges.push({
+      account: account.toBase58(),
+      mint,
+      preAmount: preAmount.toString(),
+      postAmount: postAmount.toString(),
+      change: (postAmount - preAmount).toString(),
+    });
+  });
+
+  const preLamports = before[0]?.lamports ?? 0;
+  const postLamports = value.err ? preLamports : after[0]?.lamports ?? preLamports;
+
+  return {
+    success: !value.err,
+    unitsConsumed: value.unitsConsumed,
+    logs,
+    ...(value.err && { error: decodeSimulationError(value.err, logs) }),
+    balanceChanges,
+    lamportsChange: postLamports - preLamports,
+  };
+}
@@ -0,0 +1,137 @@
+import type {
+  Commitment,
+  Connection,
+  Transaction,
+  TransactionSignature,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { GanymedeError, GanymedeErrorCode } from '../types.js';
+
+/** Default interval between rebroadcasts in milliseconds */
+const DEFAULT_REBROADCAST_INTERVAL_MS = 2000;
+
+/**
+ * Progress of a transaction being sent and confirmed
+ */
+export type SendProgressEvent =
+  | { type: 'sent'; signature: TransactionSignature; lastValidBlockHeight: number }
+  | { type: 'rebroadcast'; signature: TransactionSignature; attempt: number; blockHeight: number }
+  | { type: 'confirmed'; signature: TransactionSignature; slot: number; commitment: Commitment }
+  | { type: 'expired'; signature: TransactionSignature; blockHeight: number; lastValidBlockHeight: number };
+
+/**
+ * Options for sending and confirming a transaction
+ */
+export interface SendTransactionOptions {
+  /** Commitment to wait for (default: 'confirmed') */
+  commitment?: Commitment;
+  /**
+   * Last block height at which the transaction's blockhash is valid.
+   * Fetched from the cluster when omitted.
+   */
+  lastValidBlockHeight?: number;
+  /** Milliseconds between status checks and rebroadcasts (default: 2000) */
+  rebroadcastIntervalMs?: number;
+  /** Run preflight simulation on the first send (default: false) */
+  preflight?: boolean;
+  /** Called as the transaction is sent, rebroadcast, confirmed or expires */
+  onProgress?: (event: SendProgressEvent) => void;
+}
+
+/** Commitment levels in increasing order of finality */
+const COMMITMENT_RANK: Record<string, number> = { processed: 0, confirmed: 1, finalized: 2 };
+
+/**
+ * Whether a signature status has reached the requested commitment
+ */
+function reachedCommitment(status: string | undefined, commitment: Commitment): boolean {
+  const wanted = COMMITMENT_RANK[commitment] ?? COMMITMENT_RANK.confirmed;
+  return status !== undefined && (COMMITMENT_RANK[status] ?? -1) >= wanted;
+}
+
+/**
+ * Sends a signed transaction and rebroadcasts it until it confirms or its
+ * blockhash expires
+ *
+ * The RPC node's own retry queue is disabled (`maxRetries: 0`); the
+ * transaction is resent every `rebroadcastIntervalMs` instead, which lands
+ * more reliably when the cluster is congested.
+ *
+ * @returns The transaction signature
+ * @throws GanymedeError with code TRANSACTION_EXPIRED if the blockhash expires
+ *   first, or SWAP_FAILED if the transaction fails on chain
+ */
+export async function sendAndConfirmTransaction(
+  connection: Connection,
+  transaction: Transaction | VersionedTransaction,
+  options: SendTransactionOptions = {}
+): Promise<TransactionSignature> {
+  const commitment = options.commitment ?? 'confirmed';
+  const interval = options.rebroadcastIntervalMs ?? DEFAULT_REBROADCAST_INTERVAL_MS;
+  const emit = options.onProgress ?? (() => {});
+
+  const lastValidBlockHeight = options.lastValidBlockHeight ??
+    (await connection.getLatestBlockhash(commitment)).lastValidBlockHeight;
+
+  const raw = transaction.serialize();
+  const signature = await connection.sendRawTransaction(raw, {
+    skipPreflight: !options.preflight,
+    preflightCommitment: commitment,
+    maxRetries: 0,
+  });
+  emit({ type: 'sent', signature, lastValidBlockHeight });
+
+  // Whether the transaction reached the commitment; throws if it failed on chain
+  const checkConfirmed = async (): Promise<{ confirmed: boolean; landed: boolean }> => {
+    const { value: [status] } = await connection.getSignatureStatuses([signature]);
+
+    if (status?.err) {
+      throw new GanymedeError(
+        GanymedeErrorCode.SWAP_FAILED,
+        `Transaction failed: ${JSON.stringify(status.err)}`,
+        status.err
+      );
+    }
+
+    if (status && reachedCommitment(status.confirmationStatus, commitment)) {
+      emit({ type: 'confirmed', signature, slot: status.slot, commitment });
+      return { confirmed: true, landed: true };
+    }
+
+    return { confirmed: false, landed: !!status };
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    await sleep(interval);
+
+    const { confirmed, landed } = await checkConfirmed();
+    if (confirmed) return signature;
+
+    // A landed transaction no longer depends on its blockhash
+    const blockHeight = await connection.getBlockHeight(commitment);
+    if (!landed && blockHeight > lastValidBlockHeight) {
+      // It may have landed between the status check and the expiry
+      if ((await checkConfirmed()).confirmed) return signature;
+
+      emit({ type: 'expired', signature, blockHeight, lastValidBlockHeight });
+      throw new GanymedeError(
+        GanymedeErrorCode.TRANSACTION_EXPIRED,
+        `Transaction ${signature} expired at block height ${lastValidBlockHeight} before confirming`
+      );
+    }
+
+    // Landed but not yet at the requested commitment - just wait
+    if (landed) continue;
+
+    try {
+      await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+    } catch {
+      // A failed rebroadcast is retried on the next interval
+    }
+    emit({ type: 'rebroadcast', signature, attempt, blockHeight });
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -1,5 +1,6 @@
 import type { WalletAdapter } from '@solana/wallet-adapter-base';
 import { GanymedeError, GanymedeErrorCode } from '../types.js';
+import { isWalletAdapter, type Signer } from './signer.js';
 
 /**
  * Extended wallet interface with optional signing methods
@@ -11,9 +12,11 @@ interface ExtendedWallet {
 
 /**
  * Validates that a wallet is properly connected and ready for use
+ *
+ * A Signer counts as connected when it has a public key.
  */
-export function validateWallet(wallet: WalletAdapter): void {
-  if (!wallet.connected) {
+export function validateWallet(wallet: WalletAdapter | Signer): void {
+  if (isWalletAdapter(wallet) && !wallet.connected) {
     throw new GanymedeError(
       GanymedeErrorCode.WALLET_NOT_CONNECTED,
       'Wallet is not connected. Please connect your wallet first.'
@@ -31,7 +34,7 @@ export function validateWallet(wallet: WalletAdapter): void {
 /**
  * Checks if wallet supports message signing (required for x402 payments)
  */
-export function supportsMessageSigning(wallet: WalletAdapter): boolean {
+export function supportsMessageSigning(wallet: WalletAdapter | Signer): boolean {
   const extWallet = wallet as unknown as ExtendedWallet;
   return typeof extWallet.signMessage === 'function';
 }
@@ -39,7 +42,7 @@ export function supportsMessageSigning(wallet: WalletAdapter): boolean {
 /**
  * Checks if wallet supports transaction signing
  */
-export function supportsTransactionSigning(wallet: WalletAdapter): boolean {
+export function supportsTransactionSigning(wallet: WalletAdapter | Signer): boolean {
   const extWallet = wallet as unknown as ExtendedWallet;
   return typeof extWallet.signTransaction === 'function';
 }
@@ -47,7 +50,7 @@ export function supportsTransactionSigning(wallet: WalletAdapter): boolean {
 /**
  * Gets the wallet's public key as a base58 string
  */
-export function getWalletAddress(wallet: WalletAdapter): string {
+export function getWalletAddress(wallet: WalletAdapter | Signer): string {
   validateWallet(wallet);
   return wallet.publicKey!.toBase58();
 }
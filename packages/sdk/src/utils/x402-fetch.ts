@@ -1,5 +1,8 @@
 import type { WalletAdapter } from '@solana/wallet-adapter-base';
-import { GanymedeError, GanymedeErrorCode } from '../types.js';
+import { GanymedeError, GanymedeErrorCode, type PaymentReceipt } from '../types.js';
+import type { PaymentSession } from './payment-session.js';
+import type { PaymentLedger } from './payment-ledger.js';
+import type { Signer } from './signer.js';
 
 /**
  * Extended wallet interface that includes signMessage
@@ -17,12 +20,70 @@ export interface PaymentConfig {
   maxPayment: number;
   /** Network to use for payments */
   network?: 'devnet' | 'mainnet';
+  /**
+   * Payment assets to prefer, by symbol or mint address, most preferred first.
+   * Options for other assets are still used, after the preferred ones, in the
+   * order the server lists them.
+   */
+  preferredAssets?: string[];
+  /**
+   * Session to pay from instead of signing each payment. The wallet signs
+   * once per session; `maxPayment` still caps the price of each request.
+   */
+  session?: PaymentSession;
+  /**
+   * Ledger to record payments in. Its spend budgets are checked before each
+   * payment is signed.
+   */
+  ledger?: PaymentLedger;
+  /**
+   * Called before a payment or session is signed, e.g. to ask the user for
+   * consent or apply a payTo allowlist. Not called for requests paid from an
+   * already open session.
+   */
+  onPaymentRequired?: PaymentApprovalHandler;
 }
 
+/**
+ * Payment awaiting approval from `onPaymentRequired`
+ */
+export interface PaymentApprovalRequest {
+  /** Option the SDK selected */
+  selected: PaymentRequirements;
+  /** Every option within the limits, best first; the handler may pick any of them */
+  options: PaymentRequirements[];
+  /** Set when approving opens a payment session rather than a single payment */
+  session?: {
+    /** Total USD the session authorizes */
+    maxSpend: number;
+  };
+}
+
+/**
+ * Decision of an approval handler: `true` pays with the selected option,
+ * `false` refuses to pay, and an option from `options` pays with that instead
+ */
+export type PaymentApproval = boolean | PaymentRequirements;
+
+/**
+ * Approval hook run before the SDK signs an x402 payment
+ */
+export type PaymentApprovalHandler = (
+  request: PaymentApprovalRequest
+) => PaymentApproval | Promise<PaymentApproval>;
+
+/**
+ * CAIP-2 identifiers of the Solana clusters
+ */
+const NETWORK_IDS: Record<'devnet' | 'mainnet', string> = {
+  mainnet: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+  devnet: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+};
+
 /**
  * Payment requirements from 402 response
  */
-interface PaymentRequirements {
+export interface PaymentRequirements {
   x402Version: number;
   scheme: string;
   network: string;
@@ -38,21 +99,145 @@ interface PaymentRequirements {
     decimals: number;
     symbol: string;
   };
+  /** Server-issued single-use nonce that must be signed */
+  nonce?: string;
 }
 
 /**
  * Parses the PAYMENT-REQUIRED header from a 402 response
+ *
+ * Returns every accepted payment option. Servers that send a single
+ * requirements object instead of an `accepts` list yield one option.
  */
-function parsePaymentRequirements(header: string): PaymentRequirements {
+export function parsePaymentRequirements(header: string): PaymentRequirements[] {
+  let decoded: any;
   try {
-    const decoded = atob(header);
-    return JSON.parse(decoded);
+    decoded = JSON.parse(atob(header));
   } catch {
     throw new GanymedeError(
       GanymedeErrorCode.PAYMENT_DECLINED,
       'Failed to parse payment requirements from server'
     );
   }
+
+  const options: PaymentRequirements[] = Array.isArray(decoded?.accepts) ? decoded.accepts : [decoded];
+  if (options.length === 0 || options.some(option => !option?.amount || !option?.asset)) {
+    throw new GanymedeError(
+      GanymedeErrorCode.PAYMENT_DECLINED,
+      'Server returned no usable payment options'
+    );
+  }
+
+  return options;
+}
+
+/**
+ * Converts an option's amount from smallest units to whole tokens
+ */
+function optionAmount(requirements: PaymentRequirements): number {
+  return parseInt(requirements.amount) / Math.pow(10, requirements.asset.decimals);
+}
+
+/**
+ * Picks the payment option to pay with
+ *
+ * Only options on the configured network using the `exact` scheme and within
+ * `maxPayment` are payable. Among those, preferred assets come first in the
+ * caller's order, then the rest in the server's order.
+ */
+export function selectPaymentOption(
+  options: PaymentRequirements[],
+  config: PaymentConfig
+): PaymentRequirements {
+  return rankPaymentOptions(options, config)[0];
+}
+
+/**
+ * Lists the payable options, best first (see selectPaymentOption)
+ */
+function rankPaymentOptions(
+  options: PaymentRequirements[],
+  config: PaymentConfig
+): PaymentRequirements[] {
+  const network = NETWORK_IDS[config.network || 'devnet'];
+  const compatible = options.filter(option => option.network === network && option.scheme === 'exact');
+
+  if (compatible.length === 0) {
+    throw new GanymedeError(
+      GanymedeErrorCode.PAYMENT_DECLINED,
+      `Server does not accept payments on ${config.network || 'devnet'}`
+    );
+  }
+
+  const payable = compatible.filter(option => optionAmount(option) <= config.maxPayment);
+
+  if (payable.length === 0) {
+    const cheapest = Math.min(...compatible.map(optionAmount));
+    throw new GanymedeError(
+      GanymedeErrorCode.PAYMENT_EXCEEDED_LIMIT,
+      `Payment of $${cheapest} exceeds maximum limit of $${config.maxPayment}`
+    );
+  }
+
+  const preferred = config.preferredAssets || [];
+  const rank = (option: PaymentRequirements): number => {
+    const index = preferred.findIndex(asset =>
+      asset === option.asset.address || asset.toUpperCase() === option.asset.symbol.toUpperCase()
+    );
+    return index === -1 ? preferred.length : index;
+  };
+
+  // Array.prototype.sort is stable, so ties keep the server's order
+  return [...payable].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Runs the approval hook and returns the option to pay with
+ *
+ * @throws GanymedeError with code PAYMENT_DECLINED if the payment is refused
+ */
+async function approvePayment(
+  handler: PaymentApprovalHandler,
+  request: PaymentApprovalRequest
+): Promise<PaymentRequirements> {
+  let approval: PaymentApproval;
+  try {
+    approval = await handler(request);
+  } catch (error) {
+    if (error instanceof GanymedeError) throw error;
+
+    throw new GanymedeError(
+      GanymedeErrorCode.PAYMENT_DECLINED,
+      `Payment approval failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error
+    );
+  }
+
+  if (approval === true) return request.selected;
+
+  if (approval === false) {
+    throw new GanymedeError(
+      GanymedeErrorCode.PAYMENT_DECLINED,
+      `Payment of ${optionAmount(request.selected)} ${request.selected.asset.symbol} was not approved`
+    );
+  }
+
+  // Match by terms so handlers may return a copy of an option
+  const chosen = request.options.find(option =>
+    option.network === approval.network &&
+    option.asset.address === approval.asset?.address &&
+    option.amount === approval.amount &&
+    option.payTo === approval.payTo
+  );
+
+  if (!chosen) {
+    throw new GanymedeError(
+      GanymedeErrorCode.PAYMENT_DECLINED,
+      'Approved payment option is not one of the payable options'
+    );
+  }
+
+  return chosen;
 }
 
 /**
@@ -87,6 +272,8 @@ async function createPaymentPayload(
     payTo: requirements.payTo,
     timestamp: Date.now(),
     payer: wallet.publicKey.toBase58(),
+    nonce: requirements.nonce,
+    asset: requirements.asset.address,
   });
 
   // Sign the message with the wallet
@@ -112,21 +299,49 @@ async function createPaymentPayload(
  * Wraps fetch with automatic x402 payment handling
  *
  * When a request returns 402 Payment Required, this wrapper:
- * 1. Extracts payment requirements from the response
- * 2. Validates the payment amount against maxPayment limit
- * 3. Signs a payment authorization with the wallet
+ * 1. Extracts the accepted payment options from the response
+ * 2. Picks the first payable option within the maxPayment limit, honoring
+ *    the caller's asset preferences, and runs the `onPaymentRequired` hook
+ * 3. Signs a payment authorization for that option with the wallet
  * 4. Retries the request with the payment signature
+ *
+ * With a payment session configured, requests carry the session header
+ * while it is active, and a 402 opens a new session instead of signing a
+ * single payment.
+ *
+ * With a ledger configured, every payment is recorded, and one that would
+ * exceed a spend budget throws BUDGET_EXCEEDED before anything is signed.
  */
 export function wrapFetchWithPayment(
-  wallet: WalletAdapter,
+  wallet: WalletAdapter | Signer,
   config: PaymentConfig
 ): (input: string | URL | Request, init?: RequestInit) => Promise<Response> {
   // Cast wallet to include signMessage capability
   const signableWallet = wallet as unknown as MessageSignableWallet;
 
+  const { session, ledger } = config;
+
+  const withHeaders = (init: RequestInit | undefined, headers: Record<string, string>): RequestInit => ({
+    ...init,
+    headers: { ...init?.headers, ...headers },
+  });
+
   return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
-    // Make the initial request
-    const response = await fetch(input, init);
+    // Make the initial request, paid from the session if one is open. The
+    // price is only known from a challenge, so the session is held back when
+    // a request priced at maxPayment could exceed the remaining budget.
+    const sessionHeader = ledger && ledger.remaining() < config.maxPayment
+      ? undefined
+      : session?.headerValue;
+
+    const response = await fetch(
+      input,
+      sessionHeader ? withHeaders(init, { 'x-payment-session': sessionHeader }) : init
+    );
+
+    if (sessionHeader && response.ok) {
+      recordSessionCharge(session!, requestUrl(input), response);
+    }
 
     // If not a 402, return as-is
     if (response.status !== 402) {
@@ -144,34 +359,54 @@ export function wrapFetchWithPayment(
       );
     }
 
-    const requirements = parsePaymentRequirements(paymentHeader);
+    const options = rankPaymentOptions(parsePaymentRequirements(paymentHeader), config);
 
-    // Validate payment amount against limit
-    const requiredAmount = parseInt(requirements.amount) / Math.pow(10, requirements.asset.decimals);
-    if (requiredAmount > config.maxPayment) {
-      throw new GanymedeError(
-        GanymedeErrorCode.PAYMENT_EXCEEDED_LIMIT,
-        `Payment of $${requiredAmount} exceeds maximum limit of $${config.maxPayment}`
-      );
-    }
+    // The session was held back for the budget check; pay from it if it can
+    const openOption = !sessionHeader ? options.find(option => session?.covers(option)) : undefined;
 
-    // Create and sign payment
-    const paymentPayload = await createPaymentPayload(
-      signableWallet,
-      requirements,
-      config.network || 'devnet'
-    );
+    let requirements = openOption ?? options[0];
+    let paySession = openOption || session?.canPay(requirements) ? session : undefined;
+    let retryInit: RequestInit;
 
-    // Retry request with payment signature
-    const retryInit: RequestInit = {
-      ...init,
-      headers: {
-        ...init?.headers,
-        'payment-signature': paymentPayload,
-        'x-payment': paymentPayload,
-      },
-    };
+    if (openOption) {
+      ledger?.assertWithinBudget(optionAmount(requirements));
+      retryInit = withHeaders(init, { 'x-payment-session': session!.headerValue! });
+    } else {
+      // A new session may not authorize more than the budget has left
+      const sessionBudget = Math.min(session?.maxSpend ?? 0, ledger?.remaining() ?? Infinity);
+
+      if (config.onPaymentRequired) {
+        requirements = await approvePayment(config.onPaymentRequired, {
+          selected: requirements,
+          options,
+          ...(paySession && { session: { maxSpend: sessionBudget } }),
+        });
+        // Only open a session if the handler was told it would
+        paySession = paySession?.canPay(requirements) ? paySession : undefined;
+      }
+
+      ledger?.assertWithinBudget(optionAmount(requirements));
 
+      if (paySession) {
+        // Open a new session; the server rejected or exhausted the old one
+        const newSession = await paySession.open(signableWallet, requirements, sessionBudget);
+        retryInit = withHeaders(init, { 'x-payment-session': newSession });
+      } else {
+        // Create and sign payment
+        const paymentPayload = await createPaymentPayload(
+          signableWallet,
+          requirements,
+          config.network || 'devnet'
+        );
+
+        retryInit = withHeaders(init, {
+          'payment-signature': paymentPayload,
+          'x-payment': paymentPayload,
+        });
+      }
+    }
+
+    // Retry request with payment
     const paidResponse = await fetch(input, retryInit);
 
     if (!paidResponse.ok) {
@@ -181,15 +416,94 @@ export function wrapFetchWithPayment(
       );
     }
 
+    if (paySession) {
+      recordSessionCharge(paySession, requirements.resource, paidResponse);
+    } else {
+      ledger?.record({
+        amount: optionAmount(requirements),
+        asset: requirements.asset.address,
+        network: requirements.network,
+        resource: requirements.resource,
+        timestamp: Date.now(),
+        method: 'signature',
+        receipt: extractPaymentReceipt(paidResponse),
+      });
+    }
+
     return paidResponse;
   };
+
+  /**
+   * Updates the session budget and records what the request was charged
+   */
+  function recordSessionCharge(paySession: PaymentSession, resource: string, paidResponse: Response): void {
+    const charged = paySession.update(paidResponse);
+    const terms = paySession.terms;
+    if (charged <= 0 || !terms) return;
+
+    ledger?.record({
+      amount: charged,
+      asset: terms.asset,
+      network: terms.network,
+      resource,
+      timestamp: Date.now(),
+      method: 'session',
+      receipt: extractPaymentReceipt(paidResponse),
+    });
+  }
+}
+
+/**
+ * URL of a fetch input
+ */
+function requestUrl(input: string | URL | Request): string {
+  return typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+}
+
+/**
+ * Decodes an X-PAYMENT-RESPONSE header value (base64-encoded JSON)
+ *
+ * Returns undefined if the value is not a settlement response, e.g. the bare
+ * transaction hash sent by older servers.
+ */
+export function decodePaymentResponse(header: string): PaymentReceipt | undefined {
+  try {
+    const decoded = JSON.parse(atob(header));
+    if (typeof decoded !== 'object' || decoded === null ||
+        typeof decoded.success !== 'boolean' || typeof decoded.transaction !== 'string') {
+      return undefined;
+    }
+
+    return {
+      success: decoded.success,
+      transaction: decoded.transaction,
+      network: decoded.network,
+      payer: decoded.payer,
+      ...(decoded.errorReason && { errorReason: decoded.errorReason }),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extracts the x402 settlement receipt from response headers
+ */
+export function extractPaymentReceipt(response: Response): PaymentReceipt | undefined {
+  const header = response.headers.get('x-payment-response');
+  return header ? decodePaymentResponse(header) : undefined;
 }
 
 /**
  * Extracts the payment transaction hash from response headers
  */
 export function extractPaymentTxHash(response: Response): string | undefined {
-  return response.headers.get('x-payment-response') ||
-         response.headers.get('x-payment-txhash') ||
+  const receipt = extractPaymentReceipt(response);
+  if (receipt) {
+    return receipt.transaction || undefined;
+  }
+
+  return response.headers.get('x-payment-txhash') ||
+         response.headers.get('x-payment-response') ||
          undefined;
 }
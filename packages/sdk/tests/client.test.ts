@@ -1,14 +1,25 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { Connection, Keypair, PublicKey, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
 import { GanymedeClient } from '../src/client.js';
+import { keypairSigner } from '../src/utils/signer.js';
+import { MockConnection } from './helpers/mock-connection.js';
 import { GanymedeError, GanymedeErrorCode } from '../src/types.js';
 
-// Mock Jupiter API
+// Mock Jupiter API (clients record the configuration they were created with)
 vi.mock('@jup-ag/api', () => ({
-  createJupiterApiClient: () => ({
+  createJupiterApiClient: (config?: unknown) => ({
+    config,
     quoteGet: vi.fn(),
     swapPost: vi.fn(),
   }),
+  Configuration: class {
+    constructor(public params: unknown) {}
+  },
+  SwapApi: class {
+    quoteGet = vi.fn();
+    swapPost = vi.fn();
+    constructor(public configuration: unknown) {}
+  },
 }));
 
 // Mock wallet
@@ -41,6 +52,16 @@ function createMockConnection() {
   } as unknown as Connection;
 }
 
+// Base64 swap transaction as returned by Jupiter
+function swapTransaction(): string {
+  const message = new TransactionMessage({
+    payerKey: new PublicKey('11111111111111111111111111111111'),
+    recentBlockhash: '11111111111111111111111111111111',
+    instructions: [],
+  }).compileToV0Message();
+  return Buffer.from(new VersionedTransaction(message).serialize()).toString('base64');
+}
+
 describe('GanymedeClient', () => {
   let mockFetch: any;
 
@@ -86,6 +107,46 @@ describe('GanymedeClient', () => {
       expect(client.network).toBe('mainnet');
       expect(client.isPremiumEnabled).toBe(false);
     });
+
+    it('should create a payment session only when configured', () => {
+      const wallet = createMockWallet();
+      const connection = createMockConnection();
+
+      const withSession = new GanymedeClient({ wallet, connection, paymentSession: { maxSpend: 0.1 } });
+      const withoutSession = new GanymedeClient({ wallet, connection });
+
+      expect(withSession.paymentSession?.isActive).toBe(false);
+      expect(withoutSession.paymentSession).toBeNull();
+    });
+
+    it('should use the public Jupiter API by default', () => {
+      const client = new GanymedeClient({ wallet: createMockWallet(), connection: createMockConnection() });
+
+      expect((client as any).jupiter.config).toBeUndefined();
+    });
+
+    it('should send a configured Jupiter API key', () => {
+      const client = new GanymedeClient({
+        wallet: createMockWallet(),
+        connection: createMockConnection(),
+        jupiter: { apiKey: 'jup_key' },
+      });
+
+      expect((client as any).jupiter.config).toEqual({ apiKey: 'jup_key' });
+    });
+
+    it('should point at a configured Jupiter base URL', () => {
+      const client = new GanymedeClient({
+        wallet: createMockWallet(),
+        connection: createMockConnection(),
+        jupiter: { baseUrl: 'http://localhost:8080/swap/v1/', apiKey: 'jup_key' },
+      });
+
+      expect((client as any).jupiter.configuration.params).toEqual({
+        basePath: 'http://localhost:8080/swap/v1',
+        headers: { 'x-api-key': 'jup_key' },
+      });
+    });
   });
 
   describe('getQuote', () => {
@@ -103,6 +164,56 @@ describe('GanymedeClient', () => {
         amount: 1000000000,
       })).rejects.toThrow(GanymedeError);
     });
+
+    it('should request the swap mode', async () => {
+      const client = new GanymedeClient({ wallet: createMockWallet(), connection: createMockConnection() });
+      const jupiter = (client as any).jupiter;
+      jupiter.quoteGet.mockResolvedValue({ inAmount: '170000000', outAmount: '25000000' });
+
+      await client.getQuote({
+        inputMint: 'So11111111111111111111111111111111111111112',
+        outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        amount: 25_000_000,
+        swapMode: 'ExactOut',
+      });
+      await client.getQuote({
+        inputMint: 'So11111111111111111111111111111111111111112',
+        outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        amount: 1_000_000_000,
+      });
+
+      expect(jupiter.quoteGet.mock.calls[0][0]).toMatchObject({ amount: 25_000_000, swapMode: 'ExactOut' });
+      expect(jupiter.quoteGet.mock.calls[1][0]).toMatchObject({ swapMode: 'ExactIn' });
+    });
+
+    it('should pass routing controls to Jupiter', async () => {
+      const client = new GanymedeClient({ wallet: createMockWallet(), connection: createMockConnection() });
+      const jupiter = (client as any).jupiter;
+      jupiter.quoteGet.mockResolvedValue({ inAmount: '1000000000', outAmount: '150000000' });
+      jupiter.swapPost.mockResolvedValue({ swapTransaction: swapTransaction(), lastValidBlockHeight: 1150 });
+
+      await client.buildSwap({
+        inputMint: 'So11111111111111111111111111111111111111112',
+        outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        amount: 1_000_000_000,
+        excludeDexes: ['Raydium'],
+        onlyDirectRoutes: true,
+        restrictIntermediateTokens: false,
+        maxAccounts: 40,
+        asLegacyTransaction: true,
+      });
+
+      const quoteRequest = jupiter.quoteGet.mock.calls[0][0];
+      expect(quoteRequest).toMatchObject({
+        excludeDexes: ['Raydium'],
+        onlyDirectRoutes: true,
+        restrictIntermediateTokens: false,
+        maxAccounts: 40,
+        asLegacyTransaction: true,
+      });
+      expect(quoteRequest).not.toHaveProperty('dexes');
+      expect(jupiter.swapPost.mock.calls[0][0].swapRequest.asLegacyTransaction).toBe(true);
+    });
   });
 
   describe('getEnhancedSwap', () => {
@@ -161,6 +272,698 @@ describe('GanymedeClient', () => {
         expect((error as GanymedeError).code).toBe(GanymedeErrorCode.WALLET_SIGNING_FAILED);
       }
     });
+
+    it('should sign and send with a keypair signer', async () => {
+      const keypair = Keypair.generate();
+      const mock = new MockConnection();
+      const client = new GanymedeClient({ wallet: keypairSigner(keypair), connection: mock.connection });
+
+      const transaction = new VersionedTransaction(new TransactionMessage({
+        payerKey: keypair.publicKey,
+        recentBlockhash: '11111111111111111111111111111111',
+        instructions: [],
+      }).compileToV0Message());
+
+      const txid = await client.executeSwap({ transaction, quote: {} as any }, { rebroadcastIntervalMs: 0 });
+
+      expect(txid).toBe('mock_signature');
+      expect(transaction.signatures[0].some(byte => byte !== 0)).toBe(true);
+      expect(mock.sent).toEqual([transaction.serialize()]);
+    });
+
+    it('should wait for the configured commitment until the swap expires', async () => {
+      const mock = new MockConnection();
+      mock.statuses = ['confirmed', 'finalized'];
+      mock.blocksPerCheck = 100;
+      const client = new GanymedeClient({
+        wallet: createMockWallet(),
+        connection: mock.connection,
+        commitment: 'finalized',
+      });
+      const onProgress = vi.fn();
+      const transaction = { serialize: () => new Uint8Array([1]) } as unknown as VersionedTransaction;
+
+      await expect(client.executeSwap(
+        { transaction, quote: {} as any, lastValidBlockHeight: 1100 },
+        { rebroadcastIntervalMs: 0, onProgress }
+      )).resolves.toBe('mock_signature');
+
+      mock.landOnSend = null;
+      await expect(client.executeSwap(
+        { transaction, quote: {} as any, lastValidBlockHeight: mock.blockHeight + 150 },
+        { rebroadcastIntervalMs: 0, onProgress }
+      )).rejects.toMatchObject({ code: GanymedeErrorCode.TRANSACTION_EXPIRED });
+
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ type: 'expired' }));
+    });
+  });
+});
+
+describe('GanymedeClient executeWithRefresh', () => {
+  const params = {
+    inputMint: 'So11111111111111111111111111111111111111112',
+    outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    amount: 1_000_000_000,
+  };
+
+  function setup(outAmounts: string[]) {
+    const mock = new MockConnection();
+    const client = new GanymedeClient({ wallet: createMockWallet(), connection: mock.connection });
+    const jupiter = (client as any).jupiter;
+
+    for (const outAmount of outAmounts) {
+      jupiter.quoteGet.mockResolvedValueOnce({ inAmount: '1000000000', outAmount });
+    }
+    jupiter.swapPost.mockImplementation(async () => ({
+      swapTransaction: swapTransaction(),
+      lastValidBlockHeight: mock.blockHeight + 150,
+    }));
+
+    return { mock, client, jupiter };
+  }
+
+  it('should rebuild and resend a swap whose blockhash expired', async () => {
+    const { mock, client, jupiter } = setup(['150000000', '149900000']);
+    mock.landOnSend = null;
+    mock.blocksPerCheck = 100;
+
+    const onRefresh = vi.fn(() => {
+      mock.landOnSend = mock.sent.length + 1;
+    });
+
+    const stale = await client.buildSwap(params);
+    const { txid, result } = await client.executeWithRefresh(stale, { rebroadcastIntervalMs: 0, onRefresh });
+
+    expect(txid).toBe('mock_signature');
+    expect(result.quote.outAmount).toBe('149900000');
+    expect(onRefresh).toHaveBeenCalledWith({ attempt: 2, reason: 'expired', result });
+    expect(jupiter.quoteGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('should rebuild a swap that failed on slippage', async () => {
+    const { mock, client } = setup(['150000000', '150000000']);
+    mock.transactionError = { InstructionError: [2, { Custom: 6001 }] };
+
+    const onRefresh = vi.fn(() => {
+      mock.transactionError = null;
+    });
+
+    const stale = await client.buildSwap(params);
+    await client.executeWithRefresh(stale, { rebroadcastIntervalMs: 0, onRefresh });
+
+    expect(onRefresh).toHaveBeenCalledWith(expect.objectContaining({ reason: 'slippage' }));
+  });
+
+  it('should refuse a rebuilt swap whose price drifted too far', async () => {
+    const { mock, client } = setup(['150000000', '147000000']);
+    mock.landOnSend = null;
+    mock.blocksPerCheck = 100;
+
+    const stale = await client.buildSwap(params);
+
+    await expect(client.executeWithRefresh(stale, { rebroadcastIntervalMs: 0, maxPriceDriftBps: 100 }))
+      .rejects.toMatchObject({ code: GanymedeErrorCode.PRICE_DRIFT_EXCEEDED });
+  });
+
+  it('should measure ExactOut drift on the input amount', async () => {
+    const { mock, client, jupiter } = setup([]);
+    mock.landOnSend = null;
+    mock.blocksPerCheck = 100;
+    jupiter.quoteGet
+      .mockResolvedValueOnce({ inAmount: '170000000', outAmount: '25000000' })
+      .mockResolvedValueOnce({ inAmount: '173400000', outAmount: '25000000' });
+
+    const stale = await client.buildSwap({ ...params, amount: 25_000_000, swapMode: 'ExactOut' });
+
+    const error = await client.executeWithRefresh(stale, { rebroadcastIntervalMs: 0, maxPriceDriftBps: 100 })
+      .catch(caught => caught);
+
+    expect(error.code).toBe(GanymedeErrorCode.PRICE_DRIFT_EXCEEDED);
+    expect(error.message).toContain('200 bps more');
+  });
+
+  it('should give up after the maximum attempts', async () => {
+    const { mock, client, jupiter } = setup(['150000000', '150000000']);
+    mock.landOnSend = null;
+    mock.blocksPerCheck = 100;
+
+    const stale = await client.buildSwap(params);
+
+    await expect(client.executeWithRefresh(stale, { rebroadcastIntervalMs: 0, maxAttempts: 2 }))
+      .rejects.toMatchObject({ code: GanymedeErrorCode.TRANSACTION_EXPIRED });
+    expect(jupiter.quoteGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry other failures', async () => {
+    const { mock, client, jupiter } = setup(['150000000']);
+    mock.transactionError = { InstructionError: [0, { Custom: 1 }] };
+
+    const stale = await client.buildSwap(params);
+
+    await expect(client.executeWithRefresh(stale, { rebroadcastIntervalMs: 0 }))
+      .rejects.toMatchObject({ code: GanymedeErrorCode.SWAP_FAILED });
+    expect(jupiter.quoteGet).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GanymedeClient simulateSwap', () => {
+  const params = {
+    inputMint: 'So11111111111111111111111111111111111111112',
+    outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    amount: 1_000_000_000,
+  };
+
+  function setup() {
+    const mock = new MockConnection();
+    const client = new GanymedeClient({ wallet: createMockWallet(), connection: mock.connection });
+    const jupiter = (client as any).jupiter;
+
+    jupiter.quoteGet.mockResolvedValue({ ...params, inAmount: '1000000000', outAmount: '150000000' });
+    jupiter.swapPost.mockResolvedValue({ swapTransaction: swapTransaction(), lastValidBlockHeight: 1150 });
+
+    return { mock, client };
+  }
+
+  it('should report compute units, logs and a decoded error', async () => {
+    const { mock, client } = setup();
+    mock.simulationError = 'AccountNotFound';
+    mock.simulationLogs = ['Program log: failed'];
+
+    const simulation = await client.simulateSwap(await client.buildSwap(params));
+
+    expect(simulation).toMatchObject({
+      success: false,
+      unitsConsumed: 85_000,
+      logs: ['Program log: failed'],
+      error: { reason: 'account_not_found' },
+    });
+    expect(mock.sent).toHaveLength(0);
+  });
+
+  it('should refuse to send a swap that fails simulation', async () => {
+    const { mock, client } = setup();
+    mock.simulationError = { InstructionError: [3, { Custom: 6001 }] };
+
+    const error = await client.swap(params, { simulate: true, rebroadcastIntervalMs: 0 })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GanymedeError);
+    expect(error.code).toBe(GanymedeErrorCode.SIMULATION_FAILED);
+    expect(error.message).toContain('slippage');
+    expect(error.cause.error.reason).toBe('slippage_exceeded');
+    expect(mock.sent).toHaveLength(0);
+  });
+
+  it('should send a swap that passes simulation', async () => {
+    const { mock, client } = setup();
+
+    const { txid } = await client.swap(params, { simulate: true, rebroadcastIntervalMs: 0 });
+
+    expect(txid).toBe('mock_signature');
+    expect(mock.lastSimulationConfig).toBeDefined();
+    expect(mock.sent).toHaveLength(1);
+  });
+
+  it('should not simulate unless asked', async () => {
+    const { mock, client } = setup();
+    mock.simulationError = 'AccountNotFound';
+
+    await client.swap(params, { rebroadcastIntervalMs: 0 });
+
+    expect(mock.lastSimulationConfig).toBeUndefined();
+    expect(mock.sent).toHaveLength(1);
+  });
+});
+
+describe('GanymedeClient platform fee', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+  const platformFee = { bps: 30, feeAccounts: { [USDC]: 'UsdcFeeAccount' } };
+
+  function createClient() {
+    const client = new GanymedeClient({
+      wallet: createMockWallet(),
+      connection: createMockConnection(),
+      apiEndpoint: 'https://api.test',
+      creditToken: 'gcr_test',
+      platformFee,
+    });
+    const jupiter = (client as any).jupiter;
+    jupiter.quoteGet.mockResolvedValue({ inAmount: '1000000000', outAmount: '150000000' });
+    jupiter.swapPost.mockResolvedValue({ swapTransaction: swapTransaction(), lastValidBlockHeight: 1150 });
+    return { client, jupiter };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+  });
+
+  it('should charge the fee on the free path', async () => {
+    const { client, jupiter } = createClient();
+
+    await client.buildSwap({ inputMint: SOL, outputMint: USDC, amount: 1_000_000_000 });
+
+    expect(jupiter.quoteGet.mock.calls[0][0].platformFeeBps).toBe(30);
+    expect(jupiter.swapPost.mock.calls[0][0].swapRequest.feeAccount).toBe('UsdcFeeAccount');
+  });
+
+  it('should send the fee with premium requests', async () => {
+    const { client } = createClient();
+    const mockFetch = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ quote: {}, swapTransaction: swapTransaction() }))
+    );
+    vi.stubGlobal('fetch', mockFetch);
+
+    await client.getEnhancedSwap({ inputMint: SOL, outputMint: USDC, amount: 1_000_000_000, mevProtection: true });
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({
+      platformFeeBps: 30,
+      feeAccount: 'UsdcFeeAccount',
+    });
+  });
+
+  it('should take ExactOut fees in the input mint', async () => {
+    const { client, jupiter } = createClient();
+
+    await client.buildSwap({ inputMint: USDC, outputMint: SOL, amount: 1_000_000_000, swapMode: 'ExactOut' });
+
+    expect(jupiter.quoteGet.mock.calls[0][0].platformFeeBps).toBe(30);
+    expect(jupiter.swapPost.mock.calls[0][0].swapRequest.feeAccount).toBe('UsdcFeeAccount');
+  });
+
+  it('should not charge swaps without a fee account for the mint', async () => {
+    const { client, jupiter } = createClient();
+
+    await client.buildSwap({ inputMint: USDC, outputMint: SOL, amount: 150_000_000 });
+
+    expect(jupiter.quoteGet.mock.calls[0][0]).not.toHaveProperty('platformFeeBps');
+    expect(jupiter.swapPost.mock.calls[0][0].swapRequest.feeAccount).toBeUndefined();
+  });
+
+  it('should reject a fee rate without a fee account on both paths', async () => {
+    const { client, jupiter } = createClient();
+    const mockFetch = vi.fn();
+    vi.stubGlobal('fetch', mockFetch);
+    const params = { inputMint: USDC, outputMint: SOL, amount: 150_000_000, platformFeeBps: 50 };
+
+    await expect(client.buildSwap(params)).rejects.toMatchObject({ code: GanymedeErrorCode.INVALID_PARAMS });
+    await expect(client.getEnhancedSwap({ ...params, mevProtection: true }))
+      .rejects.toMatchObject({ code: GanymedeErrorCode.INVALID_PARAMS });
+    expect(jupiter.quoteGet).not.toHaveBeenCalled();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid fee rate', () => {
+    expect(() => new GanymedeClient({
+      wallet: createMockWallet(),
+      connection: createMockConnection(),
+      platformFee: { bps: 12.5, feeAccounts: {} },
+    })).toThrow(GanymedeError);
+  });
+});
+
+describe('GanymedeClient batch quotes', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+  const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+  function createClient(config: Record<string, unknown> = {}) {
+    const client = new GanymedeClient({
+      wallet: createMockWallet(),
+      connection: createMockConnection(),
+      apiEndpoint: 'https://api.test',
+      ...config,
+    });
+    return { client, jupiter: (client as any).jupiter };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+  });
+
+  it('should return a result per quote in order, keeping failures per item', async () => {
+    const { client, jupiter } = createClient();
+    jupiter.quoteGet.mockImplementation(async ({ outputMint }: { outputMint: string }) => {
+      if (outputMint === BONK) throw new Error('No route found');
+      return { outputMint, outAmount: '150000000' };
+    });
+
+    const results = await client.getQuotes([
+      { inputMint: SOL, outputMint: USDC, amount: 1_000_000_000 },
+      { inputMint: SOL, outputMint: BONK, amount: 1_000_000_000 },
+    ]);
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({ success: true, quote: { outputMint: USDC } });
+    expect(results[1].success).toBe(false);
+    expect(results[1].params.outputMint).toBe(BONK);
+    if (!results[1].success) expect(results[1].error.code).toBe(GanymedeErrorCode.QUOTE_FAILED);
+  });
+
+  it('should limit the number of quotes in flight', async () => {
+    const { client, jupiter } = createClient();
+    let inFlight = 0;
+    let peak = 0;
+    jupiter.quoteGet.mockImplementation(async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return { outAmount: '1' };
+    });
+
+    const params = Array.from({ length: 7 }, () => ({ inputMint: SOL, outputMint: USDC, amount: 1 }));
+    const results = await client.getQuotes(params, { concurrency: 2 });
+
+    expect(results.every(result => result.success)).toBe(true);
+    expect(peak).toBe(2);
+  });
+
+  it('should fetch premium quotes in one request', async () => {
+    const { client } = createClient({ creditToken: 'gcr_test' });
+    const mockFetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      results: [
+        { quote: { outAmount: '150000000' }, mevAnalysis: { riskLevel: 'low' } },
+        { error: 'Quote failed', message: 'No route found' },
+      ],
+    })));
+    vi.stubGlobal('fetch', mockFetch);
+
+    const results = await client.getEnhancedQuotes([
+      { inputMint: SOL, outputMint: USDC, amount: 1_000_000_000, mevProtection: true },
+      { inputMint: SOL, outputMint: BONK, amount: 1_000_000_000 },
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toBe('https://api.test/v1/quote/batch/enhanced');
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.requests).toHaveLength(2);
+    expect(body.requests[0]).toMatchObject({ outputMint: USDC, mevProtection: true, optimizePriorityFee: false });
+
+    expect(results[0]).toMatchObject({ success: true, mevAnalysis: { riskLevel: 'low' } });
+    expect(results[1].success).toBe(false);
+    if (!results[1].success) expect(results[1].error.message).toBe('No route found');
+  });
+
+  it('should open one payment session covering every paid endpoint', async () => {
+    const wallet = createMockWallet();
+    const signMessage = vi.spyOn(wallet, 'signMessage');
+    const { client } = createClient({ wallet, paymentSession: { maxSpend: 0.1 } });
+    const challenge = {
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+      maxAmountRequired: '3000',
+      amount: '3000',
+      resource: 'https://api.test/v1/quote/batch/enhanced',
+      description: 'Batch of premium quotes',
+      mimeType: 'application/json',
+      payTo: 'TestPaymentWallet',
+      maxTimeoutSeconds: 60,
+      asset: { address: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU', decimals: 6, symbol: 'USDC' },
+      nonce: 'nonce-1',
+    };
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(null, {
+        status: 402,
+        headers: { 'payment-required': btoa(JSON.stringify({ accepts: [challenge] })) },
+      }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ results: [{ quote: { outAmount: '1' } }] }), {
+        headers: { 'x-payment-session-remaining': '97000' },
+      })));
+
+    await client.getEnhancedQuotes([{ inputMint: SOL, outputMint: USDC, amount: 1 }]);
+
+    expect(signMessage).toHaveBeenCalledTimes(1);
+    const session = JSON.parse(new TextDecoder().decode(signMessage.mock.calls[0][0]));
+    expect(session.resources).toEqual(['https://api.test/v1/*']);
+  });
+
+  it('should read per-item errors when every premium quote failed', async () => {
+    const { client } = createClient({ creditToken: 'gcr_test' });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      error: 'All quotes failed',
+      results: [{ error: 'Quote failed', message: 'No route found' }],
+    }), { status: 502 })));
+
+    const results = await client.getEnhancedQuotes([{ inputMint: SOL, outputMint: BONK, amount: 1 }]);
+
+    expect(results).toEqual([expect.objectContaining({ success: false })]);
+  });
+
+  it('should reject premium batches over the size limit', async () => {
+    const { client } = createClient({ creditToken: 'gcr_test' });
+    const params = Array.from({ length: 26 }, () => ({ inputMint: SOL, outputMint: USDC, amount: 1 }));
+
+    await expect(client.getEnhancedQuotes(params)).rejects.toMatchObject({
+      code: GanymedeErrorCode.INVALID_PARAMS,
+    });
+  });
+
+  it('should fall back to free quotes when premium is disabled', async () => {
+    const { client, jupiter } = createClient({ enablePremium: false });
+    jupiter.quoteGet.mockResolvedValue({ outAmount: '150000000' });
+    const mockFetch = vi.fn();
+    vi.stubGlobal('fetch', mockFetch);
+
+    const results = await client.getEnhancedQuotes([
+      { inputMint: SOL, outputMint: USDC, amount: 1_000_000_000, mevProtection: true },
+    ]);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(results[0]).toMatchObject({ success: true, quote: { outAmount: '150000000' } });
+  });
+});
+
+describe('GanymedeClient prepaid credits', () => {
+  const API = 'https://api.test';
+  const DEVNET = 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1';
+  let mockFetch: any;
+
+  const swapParams = {
+    inputMint: 'So11111111111111111111111111111111111111112',
+    outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    amount: 1_000_000_000,
+    mevProtection: true,
+  };
+
+  function challenge(amount: string) {
+    const accepts = [{
+      x402Version: 1,
+      scheme: 'exact',
+      network: DEVNET,
+      amount,
+      maxAmountRequired: amount,
+      resource: `${API}/v1/credits`,
+      description: 'Prepaid credit',
+      mimeType: 'application/json',
+      payTo: 'RecipientAddress',
+      maxTimeoutSeconds: 60,
+      asset: { address: 'USDC_ADDRESS', decimals: 6, symbol: 'USDC' },
+      nonce: 'nonce',
+    }];
+    return new Response(JSON.stringify({ error: 'Payment Required' }), {
+      status: 402,
+      headers: { 'payment-required': btoa(JSON.stringify({ x402Version: 1, accepts })) },
+    });
+  }
+
+  function swapResponse(balance: string) {
+    return new Response(JSON.stringify({ quote: {}, swapTransaction: swapTransaction() }), {
+      status: 200,
+      headers: { 'x-credit-balance': balance },
+    });
+  }
+
+  function headersOf(call: number): Record<string, string> {
+    return mockFetch.mock.calls[call][1]?.headers ?? {};
+  }
+
+  function createClient(config: Record<string, unknown> = {}) {
+    return new GanymedeClient({
+      wallet: createMockWallet(),
+      connection: createMockConnection(),
+      apiEndpoint: API,
+      ...config,
+    });
+  }
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should buy credit with one payment and keep the token', async () => {
+    const client = createClient();
+    mockFetch
+      .mockResolvedValueOnce(challenge('1000000'))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ token: 'gcr_abc', balance: '1.000000' })));
+
+    const credit = await client.topUpCredits(1);
+
+    expect(credit).toEqual({ token: 'gcr_abc', balance: 1 });
+    expect(client.creditToken).toBe('gcr_abc');
+    expect(mockFetch.mock.calls[1][0]).toBe(`${API}/v1/credits`);
+    expect(headersOf(1)['payment-signature']).toBeDefined();
+  });
+
+  it('should record top-ups in the payment ledger', async () => {
+    const client = createClient();
+    mockFetch
+      .mockResolvedValueOnce(challenge('1000000'))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ token: 'gcr_abc', balance: '1.000000' })));
+
+    await client.topUpCredits(1);
+
+    expect(client.paymentLedger.query()).toEqual([
+      expect.objectContaining({ amount: 1, resource: `${API}/v1/credits`, method: 'signature' }),
+    ]);
+    expect(client.paymentLedger.spent().session).toBe(1);
+  });
+
+  it('should refuse payments over the spend limits before signing', async () => {
+    const client = createClient({ spendLimits: { perDay: 0.5 } });
+    mockFetch.mockResolvedValueOnce(challenge('1000000'));
+
+    await expect(client.topUpCredits(1)).rejects.toMatchObject({ code: GanymedeErrorCode.BUDGET_EXCEEDED });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(client.paymentLedger.query()).toEqual([]);
+  });
+
+  it('should ask onPaymentRequired before paying for credit', async () => {
+    const onPaymentRequired = vi.fn().mockResolvedValue(false);
+    const client = createClient({ onPaymentRequired });
+    mockFetch.mockResolvedValueOnce(challenge('1000000'));
+
+    await expect(client.topUpCredits(1)).rejects.toMatchObject({ code: GanymedeErrorCode.PAYMENT_DECLINED });
+    expect(onPaymentRequired.mock.calls[0][0].selected.resource).toBe(`${API}/v1/credits`);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should buy a fresh token when the server no longer knows the current one', async () => {
+    const client = createClient({ creditToken: 'gcr_stale' });
+    // Behaves like the credits router: unknown tokens are rejected after payment
+    mockFetch.mockImplementation(async (url: string, init: RequestInit = {}) => {
+      const headers = (init.headers ?? {}) as Record<string, string>;
+      const unknownToken = headers['Authorization'] === 'Bearer gcr_stale';
+
+      if (init.method !== 'POST') {
+        return unknownToken
+          ? new Response(JSON.stringify({ error: 'Invalid Credit Token' }), { status: 401 })
+          : new Response(JSON.stringify({ balance: '0' }));
+      }
+      if (!headers['payment-signature']) return challenge('1000000');
+      if (unknownToken) {
+        return new Response(JSON.stringify({ error: 'Invalid Credit Token' }), { status: 401 });
+      }
+      return new Response(JSON.stringify({ token: 'gcr_fresh', balance: '1.000000' }));
+    });
+
+    const credit = await client.topUpCredits(1);
+
+    expect(credit).toEqual({ token: 'gcr_fresh', balance: 1 });
+    expect(client.creditToken).toBe('gcr_fresh');
+    expect(client.paymentLedger.query()).toHaveLength(1);
+  });
+
+  it('should reject non-positive top-up amounts', async () => {
+    const client = createClient();
+
+    await expect(client.topUpCredits(0)).rejects.toMatchObject({ code: GanymedeErrorCode.INVALID_PARAMS });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should spend an existing credit token without signing a payment', async () => {
+    const client = createClient({ creditToken: 'gcr_abc' });
+    mockFetch.mockResolvedValueOnce(swapResponse('0.995000'));
+
+    const result = await client.getEnhancedSwap(swapParams);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(headersOf(0)['Authorization']).toBe('Bearer gcr_abc');
+    expect(headersOf(0)['payment-signature']).toBeUndefined();
+    expect(result.creditBalance).toBe(0.995);
+  });
+
+  it('should top up automatically when the balance runs out', async () => {
+    const client = createClient({ creditToken: 'gcr_abc', autoTopUpCredits: 1 });
+    mockFetch
+      .mockResolvedValueOnce(new Response(JSON.stringify({ error: 'Insufficient Credit' }), { status: 402 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ balance: '0.001000' })))
+      .mockResolvedValueOnce(challenge('1000000'))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ token: 'gcr_abc', balance: '1.001000' })))
+      .mockResolvedValueOnce(swapResponse('0.996000'));
+
+    const result = await client.getEnhancedSwap(swapParams);
+
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+    expect(headersOf(3)['Authorization']).toBe('Bearer gcr_abc');
+    expect(headersOf(4)['Authorization']).toBe('Bearer gcr_abc');
+    expect(result.creditBalance).toBe(0.996);
+  });
+
+  it('should fall back to per-request payment when credit runs out without auto top-up', async () => {
+    const client = createClient({ creditToken: 'gcr_abc' });
+    mockFetch
+      .mockResolvedValueOnce(new Response(JSON.stringify({ error: 'Insufficient Credit' }), { status: 402 }))
+      .mockResolvedValueOnce(challenge('5000'))
+      .mockResolvedValueOnce(swapResponse('0.001000'));
+
+    await client.getEnhancedSwap(swapParams);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(headersOf(1)['Authorization']).toBeUndefined();
+    expect(headersOf(2)['payment-signature']).toBeDefined();
+  });
+
+  it('should drop an unknown credit token and pay per request', async () => {
+    const client = createClient({ creditToken: 'gcr_stale' });
+    mockFetch
+      .mockResolvedValueOnce(new Response(JSON.stringify({ error: 'Invalid Credit Token' }), { status: 401 }))
+      .mockResolvedValueOnce(challenge('5000'))
+      .mockResolvedValueOnce(swapResponse('0'));
+
+    await client.getEnhancedSwap(swapParams);
+
+    expect(client.creditToken).toBeNull();
+    expect(headersOf(2)['payment-signature']).toBeDefined();
+  });
+
+  it('should read the balance of the current token', async () => {
+    const client = createClient({ creditToken: 'gcr_abc' });
+    mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ balance: '0.420000' })));
+
+    expect(await client.getCreditBalance()).toBe(0.42);
+    expect(headersOf(0)['Authorization']).toBe('Bearer gcr_abc');
+  });
+
+  it('should pay for a refreshed premium swap from credit', async () => {
+    const mock = new MockConnection();
+    mock.landOnSend = null;
+    mock.blocksPerCheck = 100;
+    const client = createClient({ creditToken: 'gcr_abc', connection: mock.connection });
+    const premiumSwap = (balance: string) => new Response(JSON.stringify({
+      quote: { outAmount: '150000000' },
+      swapTransaction: swapTransaction(),
+      lastValidBlockHeight: mock.blockHeight + 150,
+    }), { headers: { 'x-credit-balance': balance } });
+
+    mockFetch.mockResolvedValueOnce(premiumSwap('0.995000')).mockResolvedValueOnce(premiumSwap('0.990000'));
+
+    const stale = await client.getEnhancedSwap(swapParams);
+    const { result } = await client.executeWithRefresh(stale, {
+      rebroadcastIntervalMs: 0,
+      onRefresh: () => { mock.landOnSend = mock.sent.length + 1; },
+    });
+
+    expect(result.creditBalance).toBe(0.99);
+    expect(headersOf(1)['Authorization']).toBe('Bearer gcr_abc');
+    expect(headersOf(1)['payment-signature']).toBeUndefined();
   });
 });
 
@@ -0,0 +1,112 @@
+import type {
+  AccountInfo,
+  Connection,
+  PublicKey,
+  SignatureStatus,
+  SimulatedTransactionResponse,
+  SimulateTransactionConfig,
+  TransactionConfirmationStatus,
+  TransactionError,
+} from '@solana/web3.js';
+
+/**
+ * Scripted stand-in for the parts of `Connection` that send and confirm
+ * transactions
+ *
+ * The transaction lands on the `landOnSend`-th send; after that each status
+ * check reports the next entry of `statuses` (repeating the last one). The
+ * block height advances by `blocksPerCheck` on every `getBlockHeight` call.
+ * Simulations move accounts from their `accounts` state to their
+ * `simulatedAccounts` state unless `simulationError` is set.
+ */
+export class MockConnection {
+  /** Raw transactions received, including rebroadcasts */
+  readonly sent: Uint8Array[] = [];
+  /** Current block height */
+  blockHeight = 1000;
+  /** Blocks the chain advances per getBlockHeight call */
+  blocksPerCheck = 0;
+  /** Send on which the transaction lands (null: never) */
+  landOnSend: number | null = 1;
+  /** Confirmation statuses reported once landed */
+  statuses: TransactionConfirmationStatus[] = ['confirmed'];
+  /** On-chain error reported once landed */
+  transactionError: TransactionError | null = null;
+
+  /** Account state by address */
+  readonly accounts = new Map<string, AccountInfo<Buffer>>();
+  /** Account state after a simulated transaction, by address */
+  readonly simulatedAccounts = new Map<string, AccountInfo<Buffer>>();
+  /** Error reported by simulations */
+  simulationError: TransactionError | null = null;
+  /** Logs reported by simulations */
+  simulationLogs: string[] = [];
+  /** Config of the last simulation */
+  lastSimulationConfig: SimulateTransactionConfig | undefined;
+
+  private statusChecks = 0;
+
+  /** This double, typed as a Connection */
+  get connection(): Connection {
+    return this as unknown as Connection;
+  }
+
+  async sendRawTransaction(raw: Uint8Array): Promise<string> {
+    this.sent.push(raw);
+    return 'mock_signature';
+  }
+
+  async getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+    return { blockhash: '11111111111111111111111111111111', lastValidBlockHeight: this.blockHeight + 150 };
+  }
+
+  async getBlockHeight(): Promise<number> {
+    this.blockHeight += this.blocksPerCheck;
+    return this.blockHeight;
+  }
+
+  async getSignatureStatuses(signatures: string[]): Promise<{ context: { slot: number }; value: (SignatureStatus | null)[] }> {
+    const landed = this.landOnSend !== null && this.sent.length >= this.landOnSend;
+    if (!landed) {
+      return { context: { slot: this.blockHeight }, value: signatures.map(() => null) };
+    }
+
+    const confirmationStatus = this.statuses[Math.min(this.statusChecks++, this.statuses.length - 1)];
+    return {
+      context: { slot: this.blockHeight },
+      value: signatures.map(() => ({
+        slot: this.blockHeight,
+        confirmations: null,
+        err: this.transactionError,
+        confirmationStatus,
+      })),
+    };
+  }
+
+  async getMultipleAccountsInfo(keys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> {
+    return keys.map(key => this.accounts.get(key.toBase58()) ?? null);
+  }
+
+  async simulateTransaction(
+    _transaction: unknown,
+    config?: SimulateTransactionConfig
+  ): Promise<{ context: { slot: number }; value: SimulatedTransactionResponse }> {
+    this.lastSimulationConfig = config;
+    const addresses = config?.accounts?.addresses ?? [];
+
+    return {
+      context: { slot: this.blockHeight },
+      value: {
+        err: this.simulationError,
+        logs: this.simulationLogs,
+        unitsConsumed: 85_000,
+        accounts: this.simulationError ? null : addresses.map(address => {
+          const account = this.simulatedAccounts.get(address) ?? this.accounts.get(address);
+          return account
+            ? { ...account, owner: account.owner.toBase58(), data: [account.data.toString('base64'), 'base64'] }
+            : null;
+        }),
+      },
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { vi } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import type { PaymentRequirements } from '../../src/utils/x402-fetch.js';
+
+export const DEVNET = 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1';
+
+/**
+ * Connected wallet whose `signMessage` spy returns a fixed signature
+ */
+export function createMockWallet(options: { signMessage?: boolean } = {}) {
+  return {
+    connected: true,
+    publicKey: new PublicKey('11111111111111111111111111111111'),
+    signMessage: options.signMessage !== false
+      ? vi.fn(async (msg: Uint8Array) => new Uint8Array(64).fill(1))
+      : undefined,
+  } as any;
+}
+
+/**
+ * Devnet USDC payment option for a premium endpoint, `amount` in atomic units
+ */
+export function paymentOption(amount: string = '5000'): PaymentRequirements {
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network: DEVNET,
+    maxAmountRequired: amount,
+    amount,
+    resource: 'https://api.example.com/premium',
+    description: 'Premium feature',
+    mimeType: 'application/json',
+    payTo: 'RecipientAddress',
+    maxTimeoutSeconds: 60,
+    asset: { address: 'USDC_ADDRESS', decimals: 6, symbol: 'USDC' },
+    nonce: 'abc123',
+  };
+}
+
+/**
+ * 402 response offering a single payment option
+ */
+export function challenge(amount?: string): Response {
+  return new Response(null, {
+    status: 402,
+    headers: { 'payment-required': btoa(JSON.stringify({ x402Version: 1, accepts: [paymentOption(amount)] })) },
+  });
+}
+
+/**
+ * Successful response to a paid request
+ */
+export function paid(headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ data: 'premium' }), { status: 200, headers });
+}
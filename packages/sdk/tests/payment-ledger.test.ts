@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PaymentLedger } from '../src/utils/payment-ledger.js';
+import { PaymentSession } from '../src/utils/payment-session.js';
+import { wrapFetchWithPayment } from '../src/utils/x402-fetch.js';
+import { GanymedeError, GanymedeErrorCode, type PaymentRecord } from '../src/types.js';
+import { DEVNET, createMockWallet, challenge, paid } from './helpers/x402.js';
+
+const HOUR = 60 * 60 * 1000;
+
+function payment(amount: number, timestamp: number, resource: string = 'https://api.example.com/premium'): PaymentRecord {
+  return { amount, asset: 'USDC_ADDRESS', network: DEVNET, resource, timestamp, method: 'signature' };
+}
+
+const mockFetch = vi.fn();
+
+describe('PaymentLedger', () => {
+  const now = Date.UTC(2025, 0, 1, 12);
+
+  it('should total spending per rolling window', () => {
+    const ledger = new PaymentLedger();
+    ledger.record(payment(0.001, now - 10 * 60 * 1000));
+    ledger.record(payment(0.002, now - 2 * HOUR));
+    ledger.record(payment(0.004, now - 30 * HOUR));
+
+    const spent = ledger.spent(now);
+
+    expect(spent.hour).toBeCloseTo(0.001);
+    expect(spent.day).toBeCloseTo(0.003);
+    expect(spent.session).toBeCloseTo(0.007);
+  });
+
+  it('should filter payments by time and resource', () => {
+    const ledger = new PaymentLedger();
+    ledger.record(payment(0.001, now - 2 * HOUR, 'https://api.example.com/a'));
+    ledger.record(payment(0.002, now - HOUR, 'https://api.example.com/b'));
+    ledger.record(payment(0.003, now, 'https://api.example.com/a'));
+
+    expect(ledger.query({ since: now - HOUR }).map(p => p.amount)).toEqual([0.002, 0.003]);
+    expect(ledger.query({ until: now - HOUR }).map(p => p.amount)).toEqual([0.001]);
+    expect(ledger.query({ resource: 'https://api.example.com/a' }).map(p => p.amount)).toEqual([0.001, 0.003]);
+  });
+
+  it('should refuse payments that would exceed a budget', () => {
+    const ledger = new PaymentLedger({ perHour: 0.01, perDay: 0.02 });
+    ledger.record(payment(0.005, now - 10 * 60 * 1000));
+    ledger.record(payment(0.01, now - 3 * HOUR));
+
+    expect(() => ledger.assertWithinBudget(0.005, now)).not.toThrow();
+
+    try {
+      ledger.assertWithinBudget(0.006, now);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as GanymedeError).code).toBe(GanymedeErrorCode.BUDGET_EXCEEDED);
+      expect((error as GanymedeError).message).toContain('hourly budget of $0.01');
+    }
+
+    // The hour window has rolled past the first payment, the day window has not
+    expect(() => ledger.assertWithinBudget(0.006, now + HOUR)).toThrow('daily budget');
+  });
+
+  it('should report the budget left in the tightest window', () => {
+    const now = Date.now();
+    const ledger = new PaymentLedger({ perHour: 0.01, perDay: 0.05 });
+    ledger.record(payment(0.003, now - 2 * HOUR));
+    ledger.record(payment(0.004, now - 1000));
+
+    expect(ledger.remaining(now)).toBe(0.006);
+    expect(new PaymentLedger().remaining()).toBe(Infinity);
+  });
+
+  it('should reject negative limits', () => {
+    expect(() => new PaymentLedger({ perSession: -1 })).toThrow(GanymedeError);
+  });
+});
+
+describe('wrapFetchWithPayment with a payment ledger', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should record each payment with its receipt', async () => {
+    const ledger = new PaymentLedger();
+    const wrappedFetch = wrapFetchWithPayment(createMockWallet(), { maxPayment: 0.01, ledger });
+    const receipt = { success: true, transaction: 'tx123', network: DEVNET, payer: 'Payer' };
+
+    mockFetch
+      .mockResolvedValueOnce(challenge())
+      .mockResolvedValueOnce(paid({ 'x-payment-response': btoa(JSON.stringify(receipt)) }));
+
+    await wrappedFetch('https://api.example.com/premium');
+
+    expect(ledger.query()).toEqual([{
+      amount: 0.005,
+      asset: 'USDC_ADDRESS',
+      network: DEVNET,
+      resource: 'https://api.example.com/premium',
+      timestamp: expect.any(Number),
+      method: 'signature',
+      receipt,
+    }]);
+  });
+
+  it('should stop a payment loop at the session budget without signing', async () => {
+    const wallet = createMockWallet();
+    const ledger = new PaymentLedger({ perSession: 0.01 });
+    const wrappedFetch = wrapFetchWithPayment(wallet, { maxPayment: 0.01, ledger });
+
+    mockFetch.mockImplementation(async (input, init) =>
+      init?.headers?.['payment-signature'] ? paid() : challenge()
+    );
+
+    await wrappedFetch('https://api.example.com/premium');
+    await wrappedFetch('https://api.example.com/premium');
+    await expect(wrappedFetch('https://api.example.com/premium'))
+      .rejects.toMatchObject({ code: GanymedeErrorCode.BUDGET_EXCEEDED });
+
+    expect(wallet.signMessage).toHaveBeenCalledTimes(2);
+    expect(ledger.spent().session).toBeCloseTo(0.01);
+  });
+
+  it('should record charges to a payment session', async () => {
+    const ledger = new PaymentLedger({ perHour: 0.01 });
+    const session = new PaymentSession({ maxSpend: 0.05 });
+    const wrappedFetch = wrapFetchWithPayment(createMockWallet(), { maxPayment: 0.005, session, ledger });
+
+    mockFetch
+      .mockResolvedValueOnce(challenge())
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '5000' }))
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '0' }))
+      .mockResolvedValueOnce(challenge());
+
+    await wrappedFetch('https://api.example.com/premium');
+    await wrappedFetch('https://api.example.com/premium');
+
+    expect(ledger.query().map(p => [p.amount, p.method])).toEqual([[0.005, 'session'], [0.005, 'session']]);
+
+    // The next charge would go over the hourly budget
+    await expect(wrappedFetch('https://api.example.com/premium'))
+      .rejects.toMatchObject({ code: GanymedeErrorCode.BUDGET_EXCEEDED });
+    expect(mockFetch.mock.calls[3][1]?.headers?.['x-payment-session']).toBeUndefined();
+  });
+
+  it('should cap a new session at the remaining budget', async () => {
+    const wallet = createMockWallet();
+    const ledger = new PaymentLedger({ perDay: 0.02 });
+    ledger.record(payment(0.015, Date.now()));
+    const onPaymentRequired = vi.fn().mockResolvedValue(true);
+    const session = new PaymentSession({ maxSpend: 0.05 });
+    const wrappedFetch = wrapFetchWithPayment(wallet, { maxPayment: 0.005, session, ledger, onPaymentRequired });
+
+    mockFetch
+      .mockResolvedValueOnce(challenge('2000'))
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '3000' }));
+
+    await wrappedFetch('https://api.example.com/premium');
+
+    const signed = JSON.parse(new TextDecoder().decode(wallet.signMessage.mock.calls[0][0]));
+    expect(signed.maxAmount).toBe('5000');
+    expect(onPaymentRequired.mock.calls[0][0].session).toEqual({ maxSpend: 0.005 });
+  });
+
+  it('should check the challenge price before charging a session near the budget', async () => {
+    const wallet = createMockWallet();
+    const ledger = new PaymentLedger({ perSession: 0.011 });
+    const session = new PaymentSession({ maxSpend: 0.05 });
+    const wrappedFetch = wrapFetchWithPayment(wallet, { maxPayment: 0.01, session, ledger });
+
+    mockFetch
+      .mockResolvedValueOnce(challenge('2000'))
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '9000' }))
+      .mockResolvedValueOnce(challenge('8000'))
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '1000' }))
+      .mockResolvedValueOnce(challenge('5000'));
+
+    await wrappedFetch('https://api.example.com/premium');
+
+    // Less than maxPayment is left, so the session is only sent once the price is known
+    await wrappedFetch('https://api.example.com/premium');
+    expect(mockFetch.mock.calls[2][1]?.headers?.['x-payment-session']).toBeUndefined();
+    expect(mockFetch.mock.calls[3][1].headers['x-payment-session'])
+      .toBe(mockFetch.mock.calls[1][1].headers['x-payment-session']);
+
+    // A costlier request is refused before it is charged
+    await expect(wrappedFetch('https://api.example.com/premium'))
+      .rejects.toMatchObject({ code: GanymedeErrorCode.BUDGET_EXCEEDED });
+
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+    expect(wallet.signMessage).toHaveBeenCalledTimes(1);
+    expect(ledger.spent().session).toBeCloseTo(0.01);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PaymentSession } from '../src/utils/payment-session.js';
+import { wrapFetchWithPayment } from '../src/utils/x402-fetch.js';
+import { GanymedeError, GanymedeErrorCode } from '../src/types.js';
+import { DEVNET, createMockWallet, paymentOption, challenge, paid } from './helpers/x402.js';
+
+const mockFetch = vi.fn();
+
+describe('PaymentSession', () => {
+  it('should reject a non-positive budget', () => {
+    expect(() => new PaymentSession({ maxSpend: 0 })).toThrow(GanymedeError);
+  });
+
+  it('should sign one authorization for the whole budget', async () => {
+    const wallet = createMockWallet();
+    const session = new PaymentSession({ maxSpend: 0.05, expiresInSeconds: 600 });
+
+    const header = await session.open(wallet, paymentOption());
+    const payload = JSON.parse(atob(header));
+    const message = JSON.parse(payload.payload.message);
+
+    expect(payload.scheme).toBe('session');
+    expect(message).toMatchObject({
+      x402Version: 1,
+      scheme: 'session',
+      network: DEVNET,
+      asset: 'USDC_ADDRESS',
+      payTo: 'RecipientAddress',
+      payer: '11111111111111111111111111111111',
+      maxAmount: '50000',
+      resources: ['https://api.example.com/premium'],
+    });
+    expect(message.expiresAt - message.issuedAt).toBe(600_000);
+    expect(session.isActive).toBe(true);
+    expect(session.remaining).toBe(0.05);
+    expect(wallet.signMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should track the budget reported by the server', async () => {
+    const session = new PaymentSession({ maxSpend: 0.01 });
+    await session.open(createMockWallet(), paymentOption());
+
+    session.update(paid({ 'x-payment-session-remaining': '5000' }));
+    expect(session.remaining).toBe(0.005);
+
+    session.update(paid({ 'x-payment-session-remaining': '0' }));
+    expect(session.isActive).toBe(false);
+  });
+
+  it('should report signing failures', async () => {
+    const wallet = createMockWallet();
+    wallet.signMessage.mockRejectedValueOnce(new Error('User rejected'));
+
+    try {
+      await new PaymentSession({ maxSpend: 0.01 }).open(wallet, paymentOption());
+      expect.unreachable();
+    } catch (error) {
+      expect((error as GanymedeError).code).toBe(GanymedeErrorCode.WALLET_SIGNING_FAILED);
+    }
+  });
+});
+
+describe('wrapFetchWithPayment with a payment session', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should open a session on the first 402 and reuse it', async () => {
+    const wallet = createMockWallet();
+    const session = new PaymentSession({ maxSpend: 0.02 });
+    const wrappedFetch = wrapFetchWithPayment(wallet, { maxPayment: 0.01, session });
+
+    mockFetch
+      .mockResolvedValueOnce(challenge())
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '15000' }))
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '10000' }));
+
+    await wrappedFetch('https://api.example.com/premium');
+    await wrappedFetch('https://api.example.com/premium');
+
+    const sessionHeader = mockFetch.mock.calls[1][1].headers['x-payment-session'];
+    expect(sessionHeader).toBeDefined();
+    expect(mockFetch.mock.calls[1][1].headers['payment-signature']).toBeUndefined();
+    expect(mockFetch.mock.calls[2][1].headers['x-payment-session']).toBe(sessionHeader);
+    expect(wallet.signMessage).toHaveBeenCalledTimes(1);
+    expect(session.remaining).toBe(0.01);
+  });
+
+  it('should open a new session when the server rejects the current one', async () => {
+    const wallet = createMockWallet();
+    const session = new PaymentSession({ maxSpend: 0.01 });
+    const wrappedFetch = wrapFetchWithPayment(wallet, { maxPayment: 0.01, session });
+
+    mockFetch
+      .mockResolvedValueOnce(challenge())
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '5000' }))
+      .mockResolvedValueOnce(challenge())
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '5000' }));
+
+    await wrappedFetch('https://api.example.com/premium');
+    await wrappedFetch('https://api.example.com/premium');
+
+    expect(wallet.signMessage).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[3][1].headers['x-payment-session'])
+      .not.toBe(mockFetch.mock.calls[1][1].headers['x-payment-session']);
+  });
+
+  it('should ask for approval of the whole session budget', async () => {
+    const onPaymentRequired = vi.fn().mockResolvedValue(true);
+    const session = new PaymentSession({ maxSpend: 0.02 });
+    const wrappedFetch = wrapFetchWithPayment(createMockWallet(), { maxPayment: 0.01, session, onPaymentRequired });
+
+    mockFetch
+      .mockResolvedValueOnce(challenge())
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '15000' }))
+      .mockResolvedValueOnce(paid({ 'x-payment-session-remaining': '10000' }));
+
+    await wrappedFetch('https://api.example.com/premium');
+    await wrappedFetch('https://api.example.com/premium');
+
+    expect(onPaymentRequired).toHaveBeenCalledTimes(1);
+    expect(onPaymentRequired.mock.calls[0][0].session).toEqual({ maxSpend: 0.02 });
+  });
+
+  it('should pay per request when the price exceeds the session budget', async () => {
+    const session = new PaymentSession({ maxSpend: 0.001 });
+    const wrappedFetch = wrapFetchWithPayment(createMockWallet(), { maxPayment: 0.01, session });
+
+    mockFetch
+      .mockResolvedValueOnce(challenge('5000'))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: 'premium' }), { status: 200 }));
+
+    await wrappedFetch('https://api.example.com/premium');
+
+    expect(mockFetch.mock.calls[1][1].headers['payment-signature']).toBeDefined();
+    expect(mockFetch.mock.calls[1][1].headers['x-payment-session']).toBeUndefined();
+    expect(session.isActive).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Keypair, PublicKey, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { keypairSigner, remoteSigner, walletAdapterSigner, toSigner } from '../src/utils/signer.js';
+import { validateWallet, getWalletAddress } from '../src/utils/wallet.js';
+import { GanymedeError, GanymedeErrorCode } from '../src/types.js';
+
+function createTransaction(payer: PublicKey): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: '11111111111111111111111111111111',
+    instructions: [],
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+async function verify(publicKey: PublicKey, message: Uint8Array, signature: Uint8Array): Promise<boolean> {
+  const key = await crypto.subtle.importKey('raw', publicKey.toBytes(), { name: 'Ed25519' }, false, ['verify']);
+  return crypto.subtle.verify('Ed25519', key, signature, message);
+}
+
+describe('keypairSigner', () => {
+  const keypair = Keypair.generate();
+  const signer = keypairSigner(keypair);
+
+  it('should sign messages with the keypair', async () => {
+    const message = new TextEncoder().encode('x402 payment');
+
+    const signature = await signer.signMessage(message);
+
+    expect(signer.publicKey).toEqual(keypair.publicKey);
+    expect(signature).toHaveLength(64);
+    expect(await verify(keypair.publicKey, message, signature)).toBe(true);
+  });
+
+  it('should sign versioned transactions', async () => {
+    const [first, second] = await signer.signAllTransactions([
+      createTransaction(keypair.publicKey),
+      createTransaction(keypair.publicKey),
+    ]);
+
+    for (const transaction of [first, second]) {
+      expect(await verify(keypair.publicKey, transaction.message.serialize(), transaction.signatures[0])).toBe(true);
+    }
+  });
+
+  it('should import the key again after a failed import', async () => {
+    const fresh = keypairSigner(keypair);
+    const importKey = vi.spyOn(crypto.subtle, 'importKey').mockRejectedValueOnce(new Error('import failed'));
+    const message = new TextEncoder().encode('retry');
+
+    await expect(fresh.signMessage(message)).rejects.toThrow('import failed');
+    const signature = await fresh.signMessage(message);
+    expect(importKey).toHaveBeenCalledTimes(2);
+    importKey.mockRestore();
+
+    expect(await verify(keypair.publicKey, message, signature)).toBe(true);
+  });
+
+  it('should count as a connected wallet', () => {
+    expect(() => validateWallet(signer)).not.toThrow();
+    expect(getWalletAddress(signer)).toBe(keypair.publicKey.toBase58());
+  });
+});
+
+describe('remoteSigner', () => {
+  const keypair = Keypair.generate();
+  const local = keypairSigner(keypair);
+
+  it('should send only the bytes to sign to the callback', async () => {
+    const sign = vi.fn(({ bytes }: { bytes: Uint8Array }) => local.signMessage(bytes));
+    const signer = remoteSigner(keypair.publicKey, sign);
+
+    const transaction = await signer.signTransaction(createTransaction(keypair.publicKey));
+    const expected = await local.signTransaction(createTransaction(keypair.publicKey));
+
+    expect(sign).toHaveBeenCalledWith({ kind: 'transaction', bytes: transaction.message.serialize() });
+    expect(transaction.signatures[0]).toEqual(expected.signatures[0]);
+  });
+
+  it('should tag off-chain messages', async () => {
+    const sign = vi.fn(({ bytes }: { bytes: Uint8Array }) => local.signMessage(bytes));
+    const message = new TextEncoder().encode('hello');
+
+    await remoteSigner(keypair.publicKey, sign).signMessage(message);
+
+    expect(sign).toHaveBeenCalledWith({ kind: 'message', bytes: message });
+  });
+
+  it('should reject malformed signatures and report failures', async () => {
+    const short = remoteSigner(keypair.publicKey, async () => new Uint8Array(10));
+    const failing = remoteSigner(keypair.publicKey, async () => { throw new Error('KMS unavailable'); });
+
+    await expect(short.signMessage(new Uint8Array(1))).rejects.toThrow('expected 64');
+    await expect(failing.signMessage(new Uint8Array(1))).rejects.toMatchObject({
+      code: GanymedeErrorCode.WALLET_SIGNING_FAILED,
+      message: 'Remote signer failed: KMS unavailable',
+    });
+  });
+});
+
+describe('walletAdapterSigner', () => {
+  function createMockWallet(capabilities: { signTransaction?: boolean } = {}) {
+    return {
+      connected: true,
+      publicKey: new PublicKey('11111111111111111111111111111111'),
+      signTransaction: capabilities.signTransaction ? vi.fn(async <T>(tx: T) => tx) : undefined,
+      sendTransaction: async () => 'txid',
+    } as any;
+  }
+
+  it('should delegate to the wallet', async () => {
+    const wallet = createMockWallet({ signTransaction: true });
+    const signer = toSigner(wallet);
+    const transactions = [createTransaction(wallet.publicKey), createTransaction(wallet.publicKey)];
+
+    await signer.signAllTransactions(transactions);
+
+    expect(signer.publicKey).toBe(wallet.publicKey);
+    expect(wallet.signTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report missing capabilities', async () => {
+    const signer = walletAdapterSigner(createMockWallet());
+
+    await expect(signer.signMessage(new Uint8Array(1))).rejects.toThrow(GanymedeError);
+    await expect(signer.signTransaction(createTransaction(PublicKey.default)))
+      .rejects.toThrow('Wallet does not support transaction signing');
+  });
+
+  it('should pass Signers through unchanged', () => {
+    const signer = keypairSigner(Keypair.generate());
+    expect(toSigner(signer)).toBe(signer);
+  });
+});
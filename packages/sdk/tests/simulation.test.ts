@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { Keypair, PublicKey, type AccountInfo } from '@solana/web3.js';
+import { simulateSwapTransaction, decodeSimulationError } from '../src/utils/simulation.js';
+import { MockConnection } from './helpers/mock-connection.js';
+
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+const owner = Keypair.generate().publicKey;
+const transaction = {} as any;
+
+function tokenAccountAddress(mint: string): string {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), new PublicKey(mint).toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  )[0].toBase58();
+}
+
+function tokenAccount(mint: string, amount: bigint): AccountInfo<Buffer> {
+  const data = Buffer.alloc(165);
+  new PublicKey(mint).toBuffer().copy(data, 0);
+  owner.toBuffer().copy(data, 32);
+  data.writeBigUInt64LE(amount, 64);
+  return { data, executable: false, lamports: 2_039_280, owner: TOKEN_PROGRAM_ID };
+}
+
+function systemAccount(lamports: number): AccountInfo<Buffer> {
+  return { data: Buffer.alloc(0), executable: false, lamports, owner: PublicKey.default };
+}
+
+describe('simulateSwapTransaction', () => {
+  it('should report balance changes of a successful swap', async () => {
+    const mock = new MockConnection();
+    mock.simulationLogs = ['Program JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4 success'];
+    mock.accounts.set(owner.toBase58(), systemAccount(5_000_000_000));
+    mock.accounts.set(tokenAccountAddress(SOL), tokenAccount(SOL, 1_000_000_000n));
+    mock.simulatedAccounts.set(owner.toBase58(), systemAccount(4_999_995_000));
+    mock.simulatedAccounts.set(tokenAccountAddress(SOL), tokenAccount(SOL, 0n));
+    mock.simulatedAccounts.set(tokenAccountAddress(USDC), tokenAccount(USDC, 150_000_000n));
+
+    const simulation = await simulateSwapTransaction(mock.connection, transaction, owner, [SOL, USDC]);
+
+    expect(simulation.success).toBe(true);
+    expect(simulation.error).toBeUndefined();
+    expect(simulation.unitsConsumed).toBe(85_000);
+    expect(simulation.logs).toEqual(mock.simulationLogs);
+    expect(simulation.lamportsChange).toBe(-5_000);
+    expect(simulation.balanceChanges).toEqual([
+      { account: tokenAccountAddress(SOL), mint: SOL, preAmount: '1000000000', postAmount: '0', change: '-1000000000' },
+      { account: tokenAccountAddress(USDC), mint: USDC, preAmount: '0', postAmount: '150000000', change: '150000000' },
+    ]);
+  });
+
+  it('should simulate without signature verification against a fresh blockhash', async () => {
+    const mock = new MockConnection();
+
+    await simulateSwapTransaction(mock.connection, transaction, owner, [SOL, USDC]);
+
+    expect(mock.lastSimulationConfig).toMatchObject({ sigVerify: false, replaceRecentBlockhash: true });
+    expect(mock.lastSimulationConfig?.accounts?.addresses).toContain(owner.toBase58());
+    expect(mock.lastSimulationConfig?.accounts?.addresses).toContain(tokenAccountAddress(USDC));
+  });
+
+  it('should decode a failed simulation and leave balances unchanged', async () => {
+    const mock = new MockConnection();
+    mock.simulationError = { InstructionError: [3, { Custom: 6001 }] };
+    mock.accounts.set(tokenAccountAddress(SOL), tokenAccount(SOL, 1_000_000_000n));
+
+    const simulation = await simulateSwapTransaction(mock.connection, transaction, owner, [SOL, USDC]);
+
+    expect(simulation.success).toBe(false);
+    expect(simulation.error?.reason).toBe('slippage_exceeded');
+    expect(simulation.lamportsChange).toBe(0);
+    expect(simulation.balanceChanges).toEqual([
+      { account: tokenAccountAddress(SOL), mint: SOL, preAmount: '1000000000', postAmount: '1000000000', change: '0' },
+    ]);
+  });
+});
+
+describe('decodeSimulationError', () => {
+  it('should decode Jupiter slippage errors', () => {
+    expect(decodeSimulationError({ InstructionError: [2, { Custom: 6001 }] }).reason).toBe('slippage_exceeded');
+    expect(decodeSimulationError({ InstructionError: [2, { Custom: 6017 }] }, [
+      'Program log: AnchorError occurred. Error Code: SlippageToleranceExceeded.',
+    ]).reason).toBe('slippage_exceeded');
+  });
+
+  it('should decode insufficient funds', () => {
+    expect(decodeSimulationError('InsufficientFundsForFee').reason).toBe('insufficient_funds');
+    expect(decodeSimulationError({ InstructionError: [1, { Custom: 1 }] }, [
+      'Program TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA invoke [2]',
+      'Program log: Error: insufficient funds',
+    ]).reason).toBe('insufficient_funds');
+  });
+
+  it('should decode missing accounts', () => {
+    expect(decodeSimulationError('AccountNotFound').reason).toBe('account_not_found');
+    expect(decodeSimulationError({ InstructionError: [0, 'MissingAccount'] }).reason).toBe('account_not_found');
+  });
+
+  it('should fall back to the raw error', () => {
+    const decoded = decodeSimulationError({ InstructionError: [0, { Custom: 42 }] });
+
+    expect(decoded.reason).toBe('unknown');
+    expect(decoded.message).toContain('42');
+    expect(decoded.raw).toEqual({ InstructionError: [0, { Custom: 42 }] });
+  });
+});
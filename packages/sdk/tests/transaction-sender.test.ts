@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { sendAndConfirmTransaction, type SendProgressEvent } from '../src/utils/transaction-sender.js';
+import { GanymedeError, GanymedeErrorCode } from '../src/types.js';
+import { MockConnection } from './helpers/mock-connection.js';
+
+const transaction = { serialize: () => new Uint8Array([1, 2, 3]) } as any;
+
+function send(mock: MockConnection, options: Parameters<typeof sendAndConfirmTransaction>[2] = {}) {
+  const events: SendProgressEvent[] = [];
+  const promise = sendAndConfirmTransaction(mock.connection, transaction, {
+    rebroadcastIntervalMs: 0,
+    lastValidBlockHeight: 1150,
+    onProgress: event => events.push(event),
+    ...options,
+  });
+  return { promise, events };
+}
+
+describe('sendAndConfirmTransaction', () => {
+  it('should confirm a transaction that lands on the first send', async () => {
+    const mock = new MockConnection();
+    const { promise, events } = send(mock);
+
+    expect(await promise).toBe('mock_signature');
+    expect(events.map(event => event.type)).toEqual(['sent', 'confirmed']);
+    expect(mock.sent).toHaveLength(1);
+  });
+
+  it('should rebroadcast until the transaction lands', async () => {
+    const mock = new MockConnection();
+    mock.landOnSend = 3;
+    const { promise, events } = send(mock);
+
+    await promise;
+
+    expect(events.map(event => event.type)).toEqual(['sent', 'rebroadcast', 'rebroadcast', 'confirmed']);
+    expect(mock.sent).toHaveLength(3);
+  });
+
+  it('should stop once the blockhash expires', async () => {
+    const mock = new MockConnection();
+    mock.landOnSend = null;
+    mock.blocksPerCheck = 60;
+    const { promise, events } = send(mock);
+
+    await expect(promise).rejects.toMatchObject({ code: GanymedeErrorCode.TRANSACTION_EXPIRED });
+    expect(events.at(-1)).toEqual({
+      type: 'expired',
+      signature: 'mock_signature',
+      blockHeight: 1180,
+      lastValidBlockHeight: 1150,
+    });
+    expect(mock.sent).toHaveLength(3);
+  });
+
+  it('should wait for the requested commitment without rebroadcasting a landed transaction', async () => {
+    const mock = new MockConnection();
+    mock.statuses = ['processed', 'confirmed', 'finalized'];
+    const { promise, events } = send(mock, { commitment: 'finalized' });
+
+    await promise;
+
+    expect(events.at(-1)).toMatchObject({ type: 'confirmed', commitment: 'finalized' });
+    expect(mock.sent).toHaveLength(1);
+  });
+
+  it('should report transactions that fail on chain', async () => {
+    const mock = new MockConnection();
+    mock.transactionError = { InstructionError: [0, { Custom: 6001 }] };
+    const { promise } = send(mock);
+
+    await expect(promise).rejects.toThrow(GanymedeError);
+    await expect(promise).rejects.toMatchObject({ code: GanymedeErrorCode.SWAP_FAILED });
+  });
+
+  it('should look up the last valid block height when not given', async () => {
+    const mock = new MockConnection();
+    const { promise, events } = send(mock, { lastValidBlockHeight: undefined });
+
+    await promise;
+
+    expect(events[0]).toEqual({ type: 'sent', signature: 'mock_signature', lastValidBlockHeight: 1150 });
+  });
+});
@@ -36,5 +36,9 @@ describe('GanymedeError', () => {
     expect(GanymedeErrorCode.SWAP_FAILED).toBe('SWAP_FAILED');
     expect(GanymedeErrorCode.NETWORK_ERROR).toBe('NETWORK_ERROR');
     expect(GanymedeErrorCode.INVALID_PARAMS).toBe('INVALID_PARAMS');
+    expect(GanymedeErrorCode.BUDGET_EXCEEDED).toBe('BUDGET_EXCEEDED');
+    expect(GanymedeErrorCode.TRANSACTION_EXPIRED).toBe('TRANSACTION_EXPIRED');
+    expect(GanymedeErrorCode.PRICE_DRIFT_EXCEEDED).toBe('PRICE_DRIFT_EXCEEDED');
+    expect(GanymedeErrorCode.SIMULATION_FAILED).toBe('SIMULATION_FAILED');
   });
 });
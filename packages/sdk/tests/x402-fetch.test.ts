@@ -1,18 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { PublicKey } from '@solana/web3.js';
-import { wrapFetchWithPayment, extractPaymentTxHash } from '../src/utils/x402-fetch.js';
+import {
+  wrapFetchWithPayment,
+  extractPaymentTxHash,
+  extractPaymentReceipt,
+  decodePaymentResponse,
+  parsePaymentRequirements,
+  selectPaymentOption,
+} from '../src/utils/x402-fetch.js';
 import { GanymedeError, GanymedeErrorCode } from '../src/types.js';
-
-// Mock wallet
-function createMockWallet(options: { signMessage?: boolean } = {}) {
-  return {
-    connected: true,
-    publicKey: new PublicKey('11111111111111111111111111111111'),
-    signMessage: options.signMessage !== false
-      ? async (msg: Uint8Array) => new Uint8Array(64).fill(1)
-      : undefined,
-  } as any;
-}
+import { createMockWallet } from './helpers/x402.js';
 
 // Mock fetch
 const mockFetch = vi.fn();
@@ -96,6 +92,46 @@ describe('wrapFetchWithPayment', () => {
     expect(secondCallInit.headers).toHaveProperty('x-payment');
   });
 
+  it('should sign the server-issued nonce', async () => {
+    const wallet = createMockWallet();
+    const wrappedFetch = wrapFetchWithPayment(wallet, { maxPayment: 0.01 });
+
+    const requirements = {
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+      amount: '5000',
+      resource: 'https://api.example.com/premium',
+      description: 'Premium feature',
+      mimeType: 'application/json',
+      payTo: 'RecipientAddress',
+      maxTimeoutSeconds: 60,
+      asset: {
+        address: 'USDC_ADDRESS',
+        decimals: 6,
+        symbol: 'USDC',
+      },
+      nonce: 'abc123',
+    };
+
+    mockFetch
+      .mockResolvedValueOnce(new Response(null, {
+        status: 402,
+        headers: { 'payment-required': btoa(JSON.stringify(requirements)) },
+      }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: 'premium' }), { status: 200 }));
+
+    await wrappedFetch('https://api.example.com/premium');
+
+    const paymentHeader = mockFetch.mock.calls[1][1].headers['payment-signature'];
+    const payload = JSON.parse(atob(paymentHeader));
+    const message = JSON.parse(payload.payload.message);
+
+    expect(message.nonce).toBe('abc123');
+    expect(message.amount).toBe('5000');
+    expect(message.payTo).toBe('RecipientAddress');
+  });
+
   it('should throw when payment exceeds limit', async () => {
     const wallet = createMockWallet();
     const wrappedFetch = wrapFetchWithPayment(wallet, { maxPayment: 0.001 }); // Very low limit
@@ -187,6 +223,198 @@ describe('wrapFetchWithPayment', () => {
   });
 });
 
+describe('payment option selection', () => {
+  const DEVNET = 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1';
+  const MAINNET = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+
+  function option(symbol: string, amount: string, network: string = DEVNET) {
+    return {
+      x402Version: 1,
+      scheme: 'exact',
+      network,
+      maxAmountRequired: amount,
+      amount,
+      resource: 'https://api.example.com/premium',
+      description: 'Premium feature',
+      mimeType: 'application/json',
+      payTo: 'RecipientAddress',
+      maxTimeoutSeconds: 60,
+      asset: { address: `${symbol}_ADDRESS`, decimals: 6, symbol },
+      nonce: 'abc123',
+    };
+  }
+
+  function challengeHeader(...accepts: ReturnType<typeof option>[]) {
+    return btoa(JSON.stringify({ x402Version: 1, error: 'Payment Required', accepts }));
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should parse an accepts list and a legacy single requirements object', () => {
+    expect(parsePaymentRequirements(challengeHeader(option('USDC', '5000'), option('USDT', '5000'))))
+      .toHaveLength(2);
+    expect(parsePaymentRequirements(btoa(JSON.stringify(option('USDC', '5000')))))
+      .toEqual([option('USDC', '5000')]);
+  });
+
+  it('should reject a challenge with no options', () => {
+    expect(() => parsePaymentRequirements(challengeHeader())).toThrow(GanymedeError);
+  });
+
+  it('should pick the first payable option in server order', () => {
+    const options = [option('USDC', '50000'), option('USDT', '5000'), option('PYUSD', '5000')];
+
+    expect(selectPaymentOption(options, { maxPayment: 0.01 }).asset.symbol).toBe('USDT');
+  });
+
+  it('should honor preferred assets by symbol or mint', () => {
+    const options = [option('USDC', '5000'), option('USDT', '5000')];
+
+    expect(selectPaymentOption(options, { maxPayment: 0.01, preferredAssets: ['usdt'] }).asset.symbol)
+      .toBe('USDT');
+    expect(selectPaymentOption(options, { maxPayment: 0.01, preferredAssets: ['USDT_ADDRESS'] }).asset.symbol)
+      .toBe('USDT');
+  });
+
+  it('should skip preferred assets that exceed the limit', () => {
+    const options = [option('USDC', '5000'), option('USDT', '50000')];
+
+    expect(selectPaymentOption(options, { maxPayment: 0.01, preferredAssets: ['USDT'] }).asset.symbol)
+      .toBe('USDC');
+  });
+
+  it('should ignore options on other networks', () => {
+    const options = [option('USDC', '5000', MAINNET), option('USDT', '5000', DEVNET)];
+
+    expect(selectPaymentOption(options, { maxPayment: 0.01, network: 'mainnet' }).asset.symbol).toBe('USDC');
+
+    try {
+      selectPaymentOption([option('USDC', '5000', MAINNET)], { maxPayment: 0.01 });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as GanymedeError).code).toBe(GanymedeErrorCode.PAYMENT_DECLINED);
+    }
+  });
+
+  it('should report the limit when every option is too expensive', () => {
+    try {
+      selectPaymentOption([option('USDC', '50000'), option('USDT', '20000')], { maxPayment: 0.01 });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as GanymedeError).code).toBe(GanymedeErrorCode.PAYMENT_EXCEEDED_LIMIT);
+      expect((error as GanymedeError).message).toContain('$0.02');
+    }
+  });
+
+  it('should sign the selected option', async () => {
+    const wallet = createMockWallet();
+    const wrappedFetch = wrapFetchWithPayment(wallet, { maxPayment: 0.01, preferredAssets: ['USDT'] });
+
+    mockFetch
+      .mockResolvedValueOnce(new Response(null, {
+        status: 402,
+        headers: { 'payment-required': challengeHeader(option('USDC', '5000'), option('USDT', '6000')) },
+      }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: 'premium' }), { status: 200 }));
+
+    await wrappedFetch('https://api.example.com/premium');
+
+    const payload = JSON.parse(atob(mockFetch.mock.calls[1][1].headers['payment-signature']));
+    const message = JSON.parse(payload.payload.message);
+
+    expect(message.asset).toBe('USDT_ADDRESS');
+    expect(message.amount).toBe('6000');
+  });
+
+  describe('onPaymentRequired', () => {
+    function respondWithChallenge(...accepts: ReturnType<typeof option>[]) {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, {
+          status: 402,
+          headers: { 'payment-required': challengeHeader(...accepts) },
+        }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ data: 'premium' }), { status: 200 }));
+    }
+
+    function signedMessage() {
+      const payload = JSON.parse(atob(mockFetch.mock.calls[1][1].headers['payment-signature']));
+      return JSON.parse(payload.payload.message);
+    }
+
+    it('should pass the selection and payable options to the handler', async () => {
+      const onPaymentRequired = vi.fn().mockResolvedValue(true);
+      const wrappedFetch = wrapFetchWithPayment(createMockWallet(), { maxPayment: 0.01, onPaymentRequired });
+      respondWithChallenge(option('USDC', '5000'), option('USDT', '50000'), option('PYUSD', '6000'));
+
+      await wrappedFetch('https://api.example.com/premium');
+
+      expect(onPaymentRequired).toHaveBeenCalledWith({
+        selected: option('USDC', '5000'),
+        options: [option('USDC', '5000'), option('PYUSD', '6000')],
+      });
+      expect(signedMessage().asset).toBe('USDC_ADDRESS');
+    });
+
+    it('should not sign when the handler rejects the payment', async () => {
+      const wallet = createMockWallet();
+      const signMessage = vi.spyOn(wallet, 'signMessage');
+      const wrappedFetch = wrapFetchWithPayment(wallet, {
+        maxPayment: 0.01,
+        onPaymentRequired: ({ selected }) => selected.payTo === 'TrustedRecipient',
+      });
+      respondWithChallenge(option('USDC', '5000'));
+
+      await expect(wrappedFetch('https://api.example.com/premium'))
+        .rejects.toMatchObject({ code: GanymedeErrorCode.PAYMENT_DECLINED });
+      expect(signMessage).not.toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pay with the option the handler picks', async () => {
+      const wrappedFetch = wrapFetchWithPayment(createMockWallet(), {
+        maxPayment: 0.01,
+        onPaymentRequired: async ({ options }) => ({ ...options[1] }),
+      });
+      respondWithChallenge(option('USDC', '5000'), option('USDT', '6000'));
+
+      await wrappedFetch('https://api.example.com/premium');
+
+      expect(signedMessage()).toMatchObject({ asset: 'USDT_ADDRESS', amount: '6000' });
+    });
+
+    it('should refuse options the handler invents', async () => {
+      const wrappedFetch = wrapFetchWithPayment(createMockWallet(), {
+        maxPayment: 0.01,
+        onPaymentRequired: ({ selected }) => ({ ...selected, amount: '1' }),
+      });
+      respondWithChallenge(option('USDC', '5000'));
+
+      await expect(wrappedFetch('https://api.example.com/premium'))
+        .rejects.toThrow('not one of the payable options');
+    });
+
+    it('should report handler failures as declined payments', async () => {
+      const wrappedFetch = wrapFetchWithPayment(createMockWallet(), {
+        maxPayment: 0.01,
+        onPaymentRequired: () => { throw new Error('Dialog closed'); },
+      });
+      respondWithChallenge(option('USDC', '5000'));
+
+      await expect(wrappedFetch('https://api.example.com/premium')).rejects.toMatchObject({
+        code: GanymedeErrorCode.PAYMENT_DECLINED,
+        message: 'Payment approval failed: Dialog closed',
+      });
+    });
+  });
+});
+
 describe('extractPaymentTxHash', () => {
   it('should extract tx hash from x-payment-response header', () => {
     const response = new Response('', {
@@ -212,3 +440,43 @@ describe('extractPaymentTxHash', () => {
     expect(extractPaymentTxHash(response)).toBeUndefined();
   });
 });
+
+describe('extractPaymentReceipt', () => {
+  const receipt = {
+    success: true,
+    transaction: '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW',
+    network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+    payer: '11111111111111111111111111111111',
+  };
+
+  it('should decode a base64 JSON settlement response', () => {
+    const response = new Response('', {
+      headers: { 'x-payment-response': btoa(JSON.stringify(receipt)) },
+    });
+
+    expect(extractPaymentReceipt(response)).toEqual(receipt);
+    expect(extractPaymentTxHash(response)).toBe(receipt.transaction);
+  });
+
+  it('should include the error reason of a failed settlement', () => {
+    const failed = { ...receipt, success: false, transaction: '', errorReason: 'insufficient_funds' };
+    const response = new Response('', {
+      headers: { 'x-payment-response': btoa(JSON.stringify(failed)) },
+    });
+
+    expect(extractPaymentReceipt(response)?.errorReason).toBe('insufficient_funds');
+    expect(extractPaymentTxHash(response)).toBeUndefined();
+  });
+
+  it('should return undefined for a bare transaction hash', () => {
+    const response = new Response('', {
+      headers: { 'x-payment-response': 'tx_hash_123' },
+    });
+
+    expect(extractPaymentReceipt(response)).toBeUndefined();
+  });
+
+  it('should ignore base64 JSON that is not a settlement response', () => {
+    expect(decodePaymentResponse(btoa(JSON.stringify({ foo: 'bar' })))).toBeUndefined();
+  });
+});
@@ -0,0 +1,15 @@
+import { createMockFacilitatorApp, MockFacilitator } from './services/mock-facilitator.js';
+
+/**
+ * Standalone mock x402 facilitator for local development
+ *
+ * Point the API server at it with X402_FACILITATOR_URL=http://localhost:4021
+ */
+const PORT = process.env.MOCK_FACILITATOR_PORT || 4021;
+
+const facilitator = new MockFacilitator();
+const app = createMockFacilitatorApp(facilitator);
+
+app.listen(PORT, () => {
+  console.log(`[MockFacilitator] Listening on http://localhost:${PORT}`);
+});
@@ -5,8 +5,14 @@ import { resolve } from 'path';
 import { fileURLToPath } from 'url';
 
 import healthRoutes from './routes/health.js';
-import premiumRoutes from './routes/premium.js';
-import { paymentMiddleware, type PricingConfig } from './middleware/x402.js';
+import premiumRoutes, { premiumPricing } from './routes/premium.js';
+import { createCreditsRouter, creditsPricing } from './routes/credits.js';
+import { routerPaymentMiddleware, type PaymentMiddlewareOptions } from './middleware/x402.js';
+import { FileNonceStore, InMemoryNonceStore } from './middleware/nonce-store.js';
+import { InMemoryCreditStore } from './middleware/credit-store.js';
+import { InMemorySessionStore } from './middleware/session.js';
+import { HttpFacilitator, type Facilitator } from './services/facilitator.js';
+import { MockFacilitator } from './services/mock-facilitator.js';
 
 // Load environment variables from monorepo root
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
@@ -23,6 +29,8 @@ app.use(cors({
     'X-Payment-Required',
     'X-Payment-Response',
     'X-Payment-TxHash',
+    'X-Credit-Balance',
+    'X-Payment-Session-Remaining',
   ],
 }));
 app.use(express.json());
@@ -41,28 +49,47 @@ app.use((req, res, next) => {
 const PAYMENT_WALLET = process.env.PAYMENT_WALLET || 'YOUR_WALLET_ADDRESS_HERE';
 const X402_FACILITATOR = process.env.X402_FACILITATOR_URL || 'https://x402.org/facilitator';
 
+// Payment nonce ledger (file-backed if a path is configured)
+const nonceStore = process.env.X402_NONCE_STORE_PATH
+  ? new FileNonceStore(process.env.X402_NONCE_STORE_PATH)
+  : new InMemoryNonceStore();
+
+// Prepaid credit balances bought through POST /v1/credits
+const creditStore = new InMemoryCreditStore();
+
+// Payment session budgets, shared so a session spanning routers is charged once
+const sessionStore = new InMemorySessionStore();
+
 // Determine network based on environment
 const isProduction = process.env.NODE_ENV === 'production';
 const NETWORK = isProduction
   ? 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp'  // Mainnet
   : 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1'; // Devnet
 
-// x402 pricing configuration
-const premiumPricing: Record<string, PricingConfig> = {
-  'POST /v1/swap/enhanced': {
-    price: '$0.005',
-    network: NETWORK,
-    description: 'Enhanced swap with MEV protection, priority fees, and analytics',
-    mimeType: 'application/json',
-  },
-};
+// The mock facilitator accepts any well-formed signature without moving funds
+if (isProduction && X402_FACILITATOR === 'mock') {
+  throw new Error('X402_FACILITATOR_URL=mock cannot be used when NODE_ENV=production');
+}
+
+// Facilitator that verifies and settles payments ("mock" runs one in-process)
+const facilitator: Facilitator = X402_FACILITATOR === 'mock'
+  ? new MockFacilitator()
+  : new HttpFacilitator(X402_FACILITATOR);
 
-// Apply x402 payment middleware to premium routes
-app.use(paymentMiddleware(PAYMENT_WALLET, premiumPricing, X402_FACILITATOR));
+// Accepted x402 payment options (devnet has no canonical USDT mint, so only USDC is offered there)
+const payment: PaymentMiddlewareOptions = {
+  nonceStore,
+  sessionStore,
+  creditStore,
+  accepts: isProduction
+    ? [{ network: NETWORK, asset: 'USDC' }, { network: NETWORK, asset: 'USDT' }]
+    : [{ network: NETWORK, asset: 'USDC' }],
+};
 
-// Routes
+// Routes, each behind x402 payment middleware for the pricing it declares
 app.use('/', healthRoutes);
-app.use('/', premiumRoutes);
+app.use('/', routerPaymentMiddleware(PAYMENT_WALLET, premiumPricing, facilitator, payment), premiumRoutes);
+app.use('/', routerPaymentMiddleware(PAYMENT_WALLET, creditsPricing, facilitator, payment), createCreditsRouter(creditStore));
 
 // Error handling
 app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
@@ -97,7 +124,11 @@ app.listen(PORT, () => {
 ║   • GET  /health           - Health check                     ║
 ║   • GET  /info             - Server info                      ║
 ║   • GET  /v1/quote         - Free tier quote (no payment)     ║
-║   • POST /v1/swap/enhanced - Premium swap ($0.005)            ║
+║   • POST /v1/quote/batch   - Free tier batch quote            ║
+║   • POST /v1/quote/batch/enhanced - Premium batch quote       ║
+║   • POST /v1/swap/enhanced - Premium swap ($0.001-$0.010)     ║
+║   • POST /v1/credits       - Buy prepaid credit (x402)        ║
+║   • GET  /v1/credits       - Prepaid credit balance           ║
 ║                                                               ║
 ╚═══════════════════════════════════════════════════════════════╝
   `);
@@ -0,0 +1,17 @@
+import { createStubJupiterApp, StubJupiter, type StubJupiterScenario } from './services/stub-jupiter.js';
+
+/**
+ * Standalone stub Jupiter API for offline development and CI
+ *
+ * Point the API server at it with JUPITER_API_URL=http://localhost:8080/swap/v1
+ * and JUPITER_PRICE_API_URL=http://localhost:8080/price/v2, and the SDK with
+ * `jupiter: { baseUrl: 'http://localhost:8080/swap/v1' }`
+ */
+const PORT = process.env.STUB_JUPITER_PORT || 8080;
+const SCENARIO = (process.env.STUB_JUPITER_SCENARIO || 'direct') as StubJupiterScenario;
+
+const app = createStubJupiterApp(new StubJupiter(SCENARIO));
+
+app.listen(PORT, () => {
+  console.log(`[StubJupiter] Listening on http://localhost:${PORT} (scenario: ${SCENARIO})`);
+});
@@ -0,0 +1,73 @@
+/**
+ * Prepaid credit account funded by an x402 top-up
+ */
+export interface CreditAccount {
+  /** Remaining balance in micro-USD (1 USD = 1,000,000) */
+  balance: number;
+  /** Wallet that paid for the credits */
+  payer?: string;
+  /** When the account was created (ms since epoch) */
+  createdAt: number;
+}
+
+/**
+ * Outcome of debiting a credit account
+ */
+export type DebitResult =
+  | { status: 'debited'; balance: number }
+  | { status: 'insufficient'; balance: number }
+  | { status: 'unknown' };
+
+/**
+ * Ledger of prepaid credit balances keyed by bearer token
+ *
+ * Implementations must make `debit` atomic so that concurrent requests
+ * cannot spend the same credit twice.
+ */
+export interface CreditStore {
+  /** Creates an account for a new token */
+  create(token: string, account: CreditAccount): Promise<void>;
+  /** Looks up an account */
+  get(token: string): Promise<CreditAccount | undefined>;
+  /** Removes `amount` micro-USD from the balance if it covers it */
+  debit(token: string, amount: number): Promise<DebitResult>;
+  /** Adds `amount` micro-USD to the balance, returning the new balance (undefined for unknown tokens) */
+  credit(token: string, amount: number): Promise<number | undefined>;
+}
+
+/**
+ * In-memory credit store (default)
+ *
+ * Balances are lost on restart, so production deployments that sell credits
+ * should provide a persistent store.
+ */
+export class InMemoryCreditStore implements CreditStore {
+  private accounts = new Map<string, CreditAccount>();
+
+  async create(token: string, account: CreditAccount): Promise<void> {
+    this.accounts.set(token, { ...account });
+  }
+
+  async get(token: string): Promise<CreditAccount | undefined> {
+    const account = this.accounts.get(token);
+    return account ? { ...account } : undefined;
+  }
+
+  async debit(token: string, amount: number): Promise<DebitResult> {
+    const account = this.accounts.get(token);
+
+    if (!account) return { status: 'unknown' };
+    if (account.balance < amount) return { status: 'insufficient', balance: account.balance };
+
+    account.balance -= amount;
+    return { status: 'debited', balance: account.balance };
+  }
+
+  async credit(token: string, amount: number): Promise<number | undefined> {
+    const account = this.accounts.get(token);
+    if (!account) return undefined;
+
+    account.balance += amount;
+    return account.balance;
+  }
+}
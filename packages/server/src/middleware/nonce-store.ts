@@ -0,0 +1,160 @@
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+
+/**
+ * Outcome of consuming a payment nonce
+ */
+export type NonceConsumeResult = 'consumed' | 'unknown' | 'replayed' | 'expired';
+
+/**
+ * Ledger of nonces issued in x402 challenges
+ *
+ * A nonce is issued with each 402 response and may be consumed by exactly one
+ * signed payment before it expires. Implementations must make `consume` atomic
+ * so that concurrent requests carrying the same payload cannot both succeed.
+ */
+export interface NonceStore {
+  /** Records a freshly issued nonce that expires at the given time (ms since epoch) */
+  issue(nonce: string, expiresAt: number): Promise<void>;
+  /** Marks a nonce as used, reporting why it was rejected if it cannot be */
+  consume(nonce: string, now?: number): Promise<NonceConsumeResult>;
+}
+
+/**
+ * Ledger entry for a single issued nonce
+ */
+interface NonceEntry {
+  expiresAt: number;
+  consumed: boolean;
+}
+
+/**
+ * Applies a consume operation to a nonce table
+ */
+function consumeEntry(entries: Map<string, NonceEntry>, nonce: string, now: number): NonceConsumeResult {
+  const entry = entries.get(nonce);
+
+  if (!entry) return 'unknown';
+  if (entry.consumed) return 'replayed';
+  if (entry.expiresAt <= now) return 'expired';
+
+  entry.consumed = true;
+  return 'consumed';
+}
+
+/**
+ * Drops entries that can no longer be consumed or replayed
+ *
+ * Expired entries are safe to forget: an expired nonce is rejected whether
+ * or not it is still known, since unknown nonces are rejected too.
+ */
+function pruneEntries(entries: Map<string, NonceEntry>, now: number): void {
+  for (const [nonce, entry] of entries) {
+    if (entry.expiresAt <= now) {
+      entries.delete(nonce);
+    }
+  }
+}
+
+/**
+ * In-memory nonce store (default)
+ *
+ * Suitable for a single server process. Nonces are lost on restart, which
+ * only invalidates outstanding challenges.
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private entries = new Map<string, NonceEntry>();
+
+  async issue(nonce: string, expiresAt: number): Promise<void> {
+    pruneEntries(this.entries, Date.now());
+    this.entries.set(nonce, { expiresAt, consumed: false });
+  }
+
+  async consume(nonce: string, now: number = Date.now()): Promise<NonceConsumeResult> {
+    return consumeEntry(this.entries, nonce, now);
+  }
+
+  /** Number of nonces currently tracked */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * File-backed nonce store
+ *
+ * Issued nonces are kept in memory, so answering a 402 never touches the
+ * disk. Consumed nonces are persisted as JSON (nonce to expiry) until they
+ * expire, so that replays are still reported after a restart. Operations are
+ * serialized within the process; the file must not be shared between server
+ * instances.
+ */
+export class FileNonceStore implements NonceStore {
+  private issued = new Map<string, NonceEntry>();
+  private consumed: Map<string, number> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async issue(nonce: string, expiresAt: number): Promise<void> {
+    pruneEntries(this.issued, Date.now());
+    this.issued.set(nonce, { expiresAt, consumed: false });
+  }
+
+  async consume(nonce: string, now: number = Date.now()): Promise<NonceConsumeResult> {
+    return this.serialize(async (consumed) => {
+      if (consumed.has(nonce)) return 'replayed';
+
+      const entry = this.issued.get(nonce);
+      const result = consumeEntry(this.issued, nonce, now);
+      if (result === 'consumed') {
+        this.issued.delete(nonce);
+        for (const [used, expiresAt] of consumed) {
+          if (expiresAt <= now) consumed.delete(used);
+        }
+        consumed.set(nonce, entry!.expiresAt);
+        await this.persist(consumed);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Runs an operation after all previously queued ones have finished
+   */
+  private serialize<T>(operation: (consumed: Map<string, number>) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => operation(await this.load()));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Loads the consumed nonces from disk on first use
+   */
+  private async load(): Promise<Map<string, number>> {
+    if (this.consumed) return this.consumed;
+
+    try {
+      const raw = await readFile(this.filePath, 'utf8');
+      const data = JSON.parse(raw) as Record<string, number>;
+      this.consumed = new Map(Object.entries(data));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.consumed = new Map();
+    }
+
+    return this.consumed;
+  }
+
+  /**
+   * Writes the consumed nonces atomically via a temporary file
+   */
+  private async persist(consumed: Map<string, number>): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tmpPath, JSON.stringify(Object.fromEntries(consumed)));
+    await rename(tmpPath, this.filePath);
+  }
+}
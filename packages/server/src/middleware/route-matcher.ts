@@ -0,0 +1,142 @@
+/**
+ * Result of matching a request against a route table
+ */
+export interface RouteMatch<T> {
+  /** Value registered for the matching route */
+  value: T;
+  /** Named path parameters (`:mint`) and the wildcard remainder (`*`) */
+  params: Record<string, string>;
+}
+
+/**
+ * Route table entry compiled from a "METHOD /path" key
+ */
+interface CompiledRoute<T> {
+  method: string;
+  segments: string[];
+  value: T;
+}
+
+/**
+ * Splits a path into segments, ignoring a trailing slash
+ */
+function splitPath(path: string): string[] {
+  const trimmed = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  return trimmed.split('/').slice(1);
+}
+
+/**
+ * Parses a "METHOD /path" route key
+ */
+function parseRouteKey<T>(key: string, value: T): CompiledRoute<T> {
+  const match = /^([A-Za-z]+)\s+(\/\S*)$/.exec(key.trim());
+  if (!match) {
+    throw new Error(`Invalid route key "${key}": expected "METHOD /path"`);
+  }
+
+  // Literal segments are matched case-insensitively, like Express routes
+  const segments = splitPath(match[2]).map(segment => segment.startsWith(':') ? segment : segment.toLowerCase());
+  return { method: match[1].toUpperCase(), segments, value };
+}
+
+/**
+ * Whether a route key contains parameters or wildcards
+ */
+function isPattern(route: CompiledRoute<unknown>): boolean {
+  return route.segments.some(segment => segment.startsWith(':') || segment === '*');
+}
+
+/**
+ * Matches path segments against a compiled pattern
+ *
+ * `:name` matches exactly one segment. `*` as the last segment matches one or
+ * more remaining segments; anywhere else it matches a single segment.
+ */
+function matchSegments(pattern: string[], segments: string[]): Record<string, string> | null {
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < pattern.length; i++) {
+    const part = pattern[i];
+    const isLast = i === pattern.length - 1;
+
+    if (part === '*' && isLast) {
+      if (segments.length <= i) return null;
+      params['*'] = segments.slice(i).map(decodeSegment).join('/');
+      return params;
+    }
+
+    const segment = segments[i];
+    if (segment === undefined) return null;
+
+    if (part === '*') continue;
+
+    if (part.startsWith(':')) {
+      if (segment === '') return null;
+      params[part.slice(1)] = decodeSegment(segment);
+      continue;
+    }
+
+    if (part !== segment.toLowerCase()) return null;
+  }
+
+  return segments.length === pattern.length ? params : null;
+}
+
+/**
+ * Decodes a percent-encoded path segment, leaving malformed ones as-is
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Compiles a table keyed by "METHOD /path" into a request matcher
+ *
+ * Keys may use `:name` parameters and `*` wildcards, e.g.
+ * `GET /v1/analytics/:mint` or `POST /v1/premium/*`. Exact keys win over
+ * patterns; patterns are tried in the order they appear in the table. Like
+ * Express, literal path segments match regardless of case; parameters keep
+ * the case of the request.
+ *
+ * @throws Error if a key is not of the form "METHOD /path"
+ */
+export function compileRouteTable<T>(
+  table: Record<string, T>
+): (method: string, path: string) => RouteMatch<T> | undefined {
+  const routes = Object.entries(table).map(([key, value]) => parseRouteKey(key, value));
+
+  const exact = new Map<string, T>();
+  const patterns: CompiledRoute<T>[] = [];
+  for (const route of routes) {
+    if (isPattern(route)) {
+      patterns.push(route);
+    } else {
+      exact.set(`${route.method} /${route.segments.join('/')}`, route.value);
+    }
+  }
+
+  return (method, path) => {
+    const segments = splitPath(path);
+    const upperMethod = method.toUpperCase();
+
+    const exactValue = exact.get(`${upperMethod} /${segments.join('/').toLowerCase()}`);
+    if (exactValue !== undefined) {
+      return { value: exactValue, params: {} };
+    }
+
+    for (const route of patterns) {
+      if (route.method !== upperMethod) continue;
+
+      const params = matchSegments(route.segments, segments);
+      if (params) {
+        return { value: route.value, params };
+      }
+    }
+
+    return undefined;
+  };
+}
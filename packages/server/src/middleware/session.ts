@@ -0,0 +1,190 @@
+import { verifyEd25519 } from './signature.js';
+import type { PaymentPayload, PaymentTerms } from './x402.js';
+
+/** Longest session a wallet may authorize, in seconds */
+export const MAX_SESSION_SECONDS = 24 * 60 * 60;
+
+/** How far ahead of the server clock a session may be signed, in ms */
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * Message a wallet signs to open a payment session
+ *
+ * Authorizes the server to charge up to `maxAmount` of `asset` for requests to
+ * any of `resources` until `expiresAt`, without a signature per request.
+ */
+export interface SessionAuthorization {
+  x402Version: number;
+  scheme: 'session';
+  /** Client-chosen session identifier, unique per payer */
+  sessionId: string;
+  network: string;
+  /** Mint address of the token being paid with */
+  asset: string;
+  payTo: string;
+  payer: string;
+  /** Total spend allowed over the session, in atomic units */
+  maxAmount: string;
+  /** Resource URLs the session may pay for; a trailing `*` matches any suffix */
+  resources: string[];
+  /** When the authorization was signed (ms since epoch) */
+  issuedAt: number;
+  /** When the session stops being accepted (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Result of checking a session payload against a request's terms
+ */
+export type SessionCheckResult =
+  | { valid: true; payer: string; message: SessionAuthorization }
+  | { valid: false; error: string };
+
+/**
+ * Whether a session's resource list covers the requested resource
+ */
+function coversResource(resources: string[], resource: string): boolean {
+  return resources.some(entry =>
+    entry.endsWith('*') ? resource.startsWith(entry.slice(0, -1)) : entry === resource
+  );
+}
+
+/**
+ * Checks a decoded session payload against the terms of one request
+ *
+ * Verifies the wallet signature over the authorization, that it was granted
+ * to this server for this token, network and resource, and that it has not
+ * expired. Does not check the remaining budget.
+ */
+export function checkSessionPayload(
+  payload: PaymentPayload,
+  requirements: PaymentTerms,
+  now: number = Date.now()
+): SessionCheckResult {
+  if (payload.x402Version !== 1 || payload.scheme !== 'session') {
+    return { valid: false, error: 'Not a session payload' };
+  }
+
+  const { message, signature, publicKey } = payload.payload || {};
+  if (typeof message !== 'string' || typeof signature !== 'string' || typeof publicKey !== 'string') {
+    return { valid: false, error: 'Malformed session payload' };
+  }
+
+  if (!verifyEd25519(message, signature, publicKey)) {
+    return { valid: false, error: 'Invalid session signature' };
+  }
+
+  let session: SessionAuthorization;
+  try {
+    session = JSON.parse(message);
+  } catch {
+    return { valid: false, error: 'Malformed session authorization' };
+  }
+
+  if (session.x402Version !== 1 || session.scheme !== 'session') {
+    return { valid: false, error: 'Signed scheme is not a session' };
+  }
+
+  if (typeof session.sessionId !== 'string' || session.sessionId.length === 0) {
+    return { valid: false, error: 'Missing session id' };
+  }
+
+  if (session.network !== requirements.network) {
+    return { valid: false, error: 'Session network does not match required network' };
+  }
+
+  if (session.asset !== requirements.asset.address) {
+    return { valid: false, error: 'Session asset does not match required asset' };
+  }
+
+  if (session.payTo !== requirements.payTo) {
+    return { valid: false, error: 'Session recipient does not match payTo' };
+  }
+
+  if (session.payer !== publicKey) {
+    return { valid: false, error: 'Session payer does not match signing key' };
+  }
+
+  if (typeof session.maxAmount !== 'string' || !/^\d+$/.test(session.maxAmount)) {
+    return { valid: false, error: 'Invalid session budget' };
+  }
+
+  if (typeof session.expiresAt !== 'number' || session.expiresAt <= now) {
+    return { valid: false, error: 'Session expired' };
+  }
+
+  if (typeof session.issuedAt !== 'number' || session.issuedAt > now + MAX_CLOCK_SKEW_MS) {
+    return { valid: false, error: 'Session issued in the future' };
+  }
+
+  // Bounded from now as well, so a future-dated session cannot outlive the cap
+  if (session.expiresAt - session.issuedAt > MAX_SESSION_SECONDS * 1000 ||
+      session.expiresAt - now > MAX_SESSION_SECONDS * 1000) {
+    return { valid: false, error: 'Session lifetime exceeds the maximum' };
+  }
+
+  if (!Array.isArray(session.resources) || !coversResource(session.resources, requirements.resource)) {
+    return { valid: false, error: 'Session does not cover this resource' };
+  }
+
+  return { valid: true, payer: publicKey, message: session };
+}
+
+/**
+ * Outcome of reserving spend against a session budget
+ */
+export type SessionReserveResult =
+  | { status: 'reserved'; remaining: number }
+  | { status: 'exhausted'; remaining: number };
+
+/**
+ * Ledger of spend per payment session
+ *
+ * Spend is reserved before the handler runs and released if the request is
+ * not charged. Implementations must make `reserve` atomic so that concurrent
+ * requests cannot overspend a session.
+ */
+export interface SessionStore {
+  /** Adds `amount` to the session's spend if it stays within `maxAmount` */
+  reserve(key: string, amount: number, maxAmount: number, expiresAt: number): Promise<SessionReserveResult>;
+  /** Gives back a reservation for a request that was not charged */
+  release(key: string, amount: number): Promise<void>;
+}
+
+/**
+ * In-memory session store (default)
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, { spent: number; expiresAt: number }>();
+
+  async reserve(key: string, amount: number, maxAmount: number, expiresAt: number): Promise<SessionReserveResult> {
+    this.prune(Date.now());
+
+    const session = this.sessions.get(key) ?? { spent: 0, expiresAt };
+    if (session.spent + amount > maxAmount) {
+      return { status: 'exhausted', remaining: maxAmount - session.spent };
+    }
+
+    session.spent += amount;
+    this.sessions.set(key, session);
+    return { status: 'reserved', remaining: maxAmount - session.spent };
+  }
+
+  async release(key: string, amount: number): Promise<void> {
+    const session = this.sessions.get(key);
+    if (session) {
+      session.spent = Math.max(0, session.spent - amount);
+    }
+  }
+
+  /**
+   * Drops sessions that have expired
+   */
+  private prune(now: number): void {
+    for (const [key, session] of this.sessions) {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { createPublicKey, verify as verifySignature } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+
+/**
+ * Verifies an ed25519 signature over a UTF-8 message
+ */
+export function verifyEd25519(message: string, signatureBase64: string, publicKeyBase58: string): boolean {
+  try {
+    const publicKeyBytes = new PublicKey(publicKeyBase58).toBytes();
+    const key = createPublicKey({
+      key: {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: Buffer.from(publicKeyBytes).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+
+    const signature = Buffer.from(signatureBase64, 'base64');
+    if (signature.length !== 64) {
+      return false;
+    }
+
+    return verifySignature(null, Buffer.from(message, 'utf8'), key, signature);
+  } catch {
+    return false;
+  }
+}
@@ -1,23 +1,124 @@
 import type { Request, Response, NextFunction } from 'express';
+import { randomBytes } from 'crypto';
+import { InMemoryNonceStore, type NonceStore } from './nonce-store.js';
+import { verifyEd25519 } from './signature.js';
+import type { CreditStore } from './credit-store.js';
+import { checkSessionPayload, InMemorySessionStore, type SessionStore } from './session.js';
+import { compileRouteTable } from './route-matcher.js';
+import { HttpFacilitator, type Facilitator, type VerifyResponse } from '../services/facilitator.js';
 
 /**
- * Pricing configuration for x402-protected endpoints
+ * SPL token accepted as payment
  */
-export interface PricingConfig {
-  /** Price in USD (e.g., "$0.005") */
-  price: string;
+export interface PaymentAsset {
+  address: string;
+  decimals: number;
+  symbol: string;
+}
+
+/**
+ * One way a client may pay for an endpoint
+ */
+export interface PaymentOption {
   /** Network identifier in CAIP-2 format */
   network: string;
+  /** Known token symbol ("USDC", "USDT") or a custom token (default: "USDC") */
+  asset?: string | PaymentAsset;
+  /** Price override for this option (defaults to the route price) */
+  price?: string;
+}
+
+/**
+ * Computes the price of a request from its parsed body
+ *
+ * Called for both the unpaid request and the paid retry, so it must return
+ * the same price for the same body. Requires a body parser to run before the
+ * payment middleware. `params` holds the values matched by `:name` and `*`
+ * in the route key.
+ */
+export type PriceFunction = (
+  body: any,
+  req: Request,
+  params: Record<string, string>
+) => string | Promise<string>;
+
+/**
+ * Pricing configuration for x402-protected endpoints
+ */
+export interface PricingConfig {
+  /** Price in USD (e.g., "$0.005"), or a function pricing each request */
+  price: string | PriceFunction;
+  /** Network identifier in CAIP-2 format (shorthand for a single USDC option) */
+  network?: string;
+  /** Accepted payment options, in the order offered to clients (default: the middleware's `accepts`) */
+  accepts?: PaymentOption[];
   /** Description of what the payment is for */
   description: string;
   /** MIME type of the response */
   mimeType?: string;
+  /** How long an issued payment challenge stays valid (default: 60) */
+  maxTimeoutSeconds?: number;
+  /** Whether prepaid credits may pay for this route (default: true) */
+  acceptsCredit?: boolean;
+}
+
+/**
+ * Thrown by a price function to answer 400 instead of a payment challenge,
+ * so malformed requests are rejected before anything is paid
+ */
+export class InvalidPaymentRequestError extends Error {
+  constructor(
+    public error: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'InvalidPaymentRequestError';
+  }
+}
+
+/**
+ * Options for the x402 payment middleware
+ */
+export interface PaymentMiddlewareOptions {
+  /** Ledger of issued payment nonces (default: in-memory) */
+  nonceStore?: NonceStore;
+  /** Payment options for routes whose pricing specifies neither `accepts` nor `network` */
+  accepts?: PaymentOption[];
+  /**
+   * Prepaid credit ledger. When set, requests carrying `Authorization: Bearer <token>`
+   * are debited from the token's balance instead of paying per request.
+   */
+  creditStore?: CreditStore;
+  /** Spend ledger for wallet-signed payment sessions (default: in-memory) */
+  sessionStore?: SessionStore;
+}
+
+/**
+ * Payment details attached to a paid request
+ */
+export interface PaymentInfo {
+  /** Settlement transaction signature (set once the payment is settled) */
+  txHash?: string;
+  /** Amount paid in atomic units */
+  amount?: string;
+  /** Network the payment was made on, in CAIP-2 format */
+  network?: string;
+  /** Mint address of the token paid with */
+  asset?: string;
+  /** Address of the paying wallet */
+  payer?: string;
+  /** Payment lifecycle state: verified before the handler runs, then settled, cancelled or failed */
+  status?: 'verified' | 'settled' | 'cancelled' | 'failed';
+  /** How the request was paid for: a per-request x402 payment, a payment session or prepaid credit */
+  method?: 'x402' | 'session' | 'credit';
+  /** Remaining credit balance in USD after this request (credit payments only) */
+  creditBalance?: string;
 }
 
 /**
  * x402 payment requirements sent to client
  */
-interface PaymentRequirements {
+export interface PaymentRequirements {
   x402Version: number;
   scheme: string;
   network: string;
@@ -28,205 +129,887 @@ interface PaymentRequirements {
   mimeType: string;
   payTo: string;
   maxTimeoutSeconds: number;
-  asset: {
-    address: string;
-    decimals: number;
-    symbol: string;
+  asset: PaymentAsset;
+  /** Single-use nonce the client must include in its signed authorization */
+  nonce: string;
+}
+
+/**
+ * 402 challenge listing every accepted payment option
+ */
+export interface PaymentRequiredResponse {
+  x402Version: number;
+  error: string;
+  accepts: PaymentRequirements[];
+}
+
+/**
+ * Payment requirements for a route before a nonce is attached
+ */
+export type PaymentTerms = Omit<PaymentRequirements, 'nonce'>;
+
+/**
+ * x402 payment payload sent by the client in the payment-signature header
+ */
+export interface PaymentPayload {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: {
+    /** JSON-encoded payment authorization that was signed */
+    message: string;
+    /** Base64-encoded ed25519 signature over the message bytes */
+    signature: string;
+    /** Base58-encoded public key of the payer */
+    publicKey: string;
   };
 }
 
 /**
- * USDC token addresses by network
+ * Payment authorization signed by the client wallet
+ */
+export interface SignedPaymentMessage {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  amount: string;
+  resource: string;
+  payTo: string;
+  timestamp: number;
+  payer: string;
+  nonce: string;
+  /** Mint address of the token being paid with */
+  asset: string;
+}
+
+/**
+ * Known payment tokens by network and symbol
  */
-const USDC_ADDRESSES: Record<string, string> = {
-  'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp': 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // Mainnet
-  'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1': '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU', // Devnet
+const KNOWN_ASSETS: Record<string, Record<string, PaymentAsset>> = {
+  // Mainnet
+  'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp': {
+    USDC: { address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6, symbol: 'USDC' },
+    USDT: { address: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', decimals: 6, symbol: 'USDT' },
+  },
+  // Devnet
+  'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1': {
+    USDC: { address: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU', decimals: 6, symbol: 'USDC' },
+  },
 };
 
+/**
+ * Resolves the payment options configured for a route
+ *
+ * Throws if an option names a token that is not known on its network.
+ */
+function resolvePaymentOptions(
+  config: PricingConfig,
+  price: string,
+  defaults: PaymentOption[] = []
+): Array<{ network: string; asset: PaymentAsset; price: string }> {
+  const options = config.accepts ?? (config.network ? [{ network: config.network }] : defaults);
+  if (options.length === 0) {
+    throw new Error('Pricing config must specify a network or at least one accepted option');
+  }
+
+  return options.map((option) => {
+    const asset = typeof option.asset === 'object'
+      ? option.asset
+      : KNOWN_ASSETS[option.network]?.[option.asset ?? 'USDC'];
+
+    if (!asset) {
+      throw new Error(`Unknown payment asset ${option.asset ?? 'USDC'} on network ${option.network}`);
+    }
+
+    return { network: option.network, asset, price: option.price ?? price };
+  });
+}
+
 /**
  * Parses a price string like "$0.005" into atomic units
+ *
+ * Works on the decimal digits directly so that computed prices convert
+ * exactly; digits beyond the token's precision are truncated.
  */
-function parsePrice(priceString: string, decimals: number): string {
-  const numericValue = parseFloat(priceString.replace('$', ''));
-  const atomicValue = Math.floor(numericValue * Math.pow(10, decimals));
-  return atomicValue.toString();
+export function parsePrice(priceString: string, decimals: number): string {
+  const match = /^\$?\s*(\d*)(?:\.(\d*))?$/.exec(priceString.trim());
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid price: ${priceString}`);
+  }
+
+  const whole = match[1] || '0';
+  const fraction = (match[2] || '').padEnd(decimals, '0').slice(0, decimals);
+  return BigInt(whole + fraction).toString();
 }
 
 /**
- * Verifies an x402 payment signature
+ * Checks that the signed payment message authorizes exactly what the server asked for
+ */
+function checkSignedTerms(
+  message: SignedPaymentMessage,
+  publicKey: string,
+  requirements: PaymentTerms
+): string | null {
+  if (message.x402Version !== requirements.x402Version) {
+    return 'Signed x402 version mismatch';
+  }
+
+  if (message.scheme !== requirements.scheme) {
+    return 'Signed scheme mismatch';
+  }
+
+  if (message.network !== requirements.network) {
+    return 'Signed network mismatch';
+  }
+
+  if (message.amount !== requirements.amount) {
+    return 'Signed amount does not match required amount';
+  }
+
+  if (message.asset !== requirements.asset.address) {
+    return 'Signed asset does not match required asset';
+  }
+
+  if (message.payTo !== requirements.payTo) {
+    return 'Signed recipient does not match payTo';
+  }
+
+  if (message.resource !== requirements.resource) {
+    return 'Signed resource does not match requested resource';
+  }
+
+  if (message.payer !== publicKey) {
+    return 'Signed payer does not match public key';
+  }
+
+  if (typeof message.nonce !== 'string' || message.nonce.length === 0) {
+    return 'Missing payment nonce';
+  }
+
+  const age = Date.now() - message.timestamp;
+  if (!Number.isFinite(age) || age > requirements.maxTimeoutSeconds * 1000) {
+    return 'Payment authorization expired';
+  }
+
+  return null;
+}
+
+/**
+ * Error messages for nonces that cannot be consumed
+ */
+const NONCE_ERRORS: Record<string, string> = {
+  unknown: 'Unknown payment nonce',
+  replayed: 'Payment has already been used',
+  expired: 'Payment nonce expired',
+};
+
+/**
+ * Result of checking a payment payload's signature and signed terms
+ */
+export type PayloadCheckResult =
+  | { valid: true; payer: string; message: SignedPaymentMessage }
+  | { valid: false; error: string };
+
+/**
+ * Checks a decoded x402 payment payload against the issued requirements
  *
- * In a production implementation, this would:
- * 1. Decode the payment payload
- * 2. Verify the signature against the public key
- * 3. Check the payment amount and recipient
- * 4. Optionally call a facilitator to verify/settle
+ * Verifies the ed25519 signature over the signed message against the payer's
+ * public key, and checks that the signed amount, recipient and resource match
+ * the requirements. Does not consume the nonce.
+ */
+export function checkPaymentPayload(
+  payload: PaymentPayload,
+  requirements: PaymentTerms
+): PayloadCheckResult {
+  if (payload.x402Version !== 1) {
+    return { valid: false, error: 'Invalid x402 version' };
+  }
+
+  if (payload.network !== requirements.network) {
+    return { valid: false, error: 'Network mismatch' };
+  }
+
+  const { message, signature, publicKey } = payload.payload || {};
+  if (typeof message !== 'string' || typeof signature !== 'string' || typeof publicKey !== 'string') {
+    return { valid: false, error: 'Malformed payment payload' };
+  }
+
+  // Verify the wallet signature over the exact message bytes
+  if (!verifyEd25519(message, signature, publicKey)) {
+    return { valid: false, error: 'Invalid payment signature' };
+  }
+
+  let signedMessage: SignedPaymentMessage;
+  try {
+    signedMessage = JSON.parse(message);
+  } catch {
+    return { valid: false, error: 'Malformed payment message' };
+  }
+
+  const termsError = checkSignedTerms(signedMessage, publicKey, requirements);
+  if (termsError) {
+    return { valid: false, error: termsError };
+  }
+
+  return { valid: true, payer: publicKey, message: signedMessage };
+}
+
+/**
+ * Picks the accepted option a payment payload claims to pay with
+ */
+function selectPaymentOption(accepts: PaymentTerms[], payload: PaymentPayload): PaymentTerms | undefined {
+  let signedAsset: unknown;
+  try {
+    signedAsset = JSON.parse(payload.payload?.message).asset;
+  } catch {
+    return undefined;
+  }
+
+  return accepts.find(option =>
+    option.network === payload.network && option.asset.address === signedAsset
+  );
+}
+
+/**
+ * Result of verifying a payment before the protected handler runs
+ */
+type VerificationResult =
+  | {
+      valid: true;
+      payer: string;
+      payload: PaymentPayload;
+      requirements: PaymentRequirements;
+      /** Session budget left after this request, in atomic units (session payments only) */
+      sessionRemaining?: string;
+      /** Gives back `amount` (default: all) of the session reservation if the request is not charged in full */
+      release?: (amount?: number) => Promise<void>;
+    }
+  | { valid: false; error: string; unavailable?: boolean; exhausted?: boolean };
+
+/**
+ * Verifies an x402 payment without settling it
  *
- * For this MVP, we do basic validation
+ * The payload is checked locally first, then the facilitator is asked to
+ * verify the payment. Only a verified payment consumes its nonce, so a
+ * payload can be retried after a facilitator outage but never replayed once
+ * accepted.
  */
 async function verifyPayment(
   paymentSignature: string,
-  requirements: PaymentRequirements,
-  facilitatorUrl: string
-): Promise<{ valid: boolean; txHash?: string; error?: string }> {
+  accepts: PaymentTerms[],
+  facilitator: Facilitator,
+  nonceStore: NonceStore
+): Promise<VerificationResult> {
+  let payload: PaymentPayload;
   try {
-    // Decode the payment payload
-    const payloadJson = atob(paymentSignature);
-    const payload = JSON.parse(payloadJson);
+    payload = JSON.parse(atob(paymentSignature));
+  } catch {
+    return { valid: false, error: 'Malformed payment header' };
+  }
 
-    // Basic validation
-    if (payload.x402Version !== 1) {
-      return { valid: false, error: 'Invalid x402 version' };
-    }
+  // Fall back to the first option so mismatches are reported against it
+  const requirements = selectPaymentOption(accepts, payload) ?? accepts[0];
 
-    if (payload.network !== requirements.network) {
-      return { valid: false, error: 'Network mismatch' };
-    }
+  const check = checkPaymentPayload(payload, requirements);
+  if (!check.valid) {
+    return { valid: false, error: check.error };
+  }
 
-    // In production, call the facilitator to verify
-    // For MVP, we accept any properly formatted payment
-    // This allows testing without actual blockchain transactions
-
-    // Simulate facilitator verification
-    const response = await fetch(`${facilitatorUrl}/verify`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        paymentPayload: payload,
-        paymentRequirements: requirements,
-      }),
-    }).catch(() => null);
-
-    // If facilitator is available, use its response
-    if (response?.ok) {
-      const result = await response.json();
-      return {
-        valid: result.valid,
-        txHash: result.txHash,
-        error: result.message,
-      };
-    }
+  const paymentRequirements: PaymentRequirements = { ...requirements, nonce: check.message.nonce };
 
-    // For development/testing: accept properly formatted payments
-    // This allows the SDK to work without a live facilitator
-    if (process.env.NODE_ENV !== 'production') {
-      console.log('[x402] Development mode: accepting payment without facilitator verification');
-      return {
-        valid: true,
-        txHash: `dev_${Date.now()}_${Math.random().toString(36).slice(2)}`,
-      };
+  let verification: VerifyResponse;
+  try {
+    verification = await facilitator.verify(payload, paymentRequirements);
+  } catch (error) {
+    console.error('[x402] Facilitator error during verify:', error);
+    return {
+      valid: false,
+      unavailable: true,
+      error: error instanceof Error ? error.message : 'Facilitator unavailable',
+    };
+  }
+
+  if (!verification.isValid) {
+    return { valid: false, error: verification.invalidReason || 'Payment rejected by facilitator' };
+  }
+
+  // Consuming is atomic, so only one of several identical payloads gets through
+  const nonceResult = await nonceStore.consume(check.message.nonce);
+  if (nonceResult !== 'consumed') {
+    return { valid: false, error: NONCE_ERRORS[nonceResult] };
+  }
+
+  return {
+    valid: true,
+    payer: verification.payer || check.payer,
+    payload,
+    requirements: paymentRequirements,
+  };
+}
+
+/**
+ * Verifies a request paid from a wallet-signed payment session
+ *
+ * Checks the session authorization against the request's terms, then
+ * reserves the request's price against the session budget before asking the
+ * facilitator to verify. The reservation is released if verification fails.
+ */
+async function verifySession(
+  sessionHeader: string,
+  accepts: PaymentTerms[],
+  facilitator: Facilitator,
+  sessionStore: SessionStore
+): Promise<VerificationResult> {
+  let payload: PaymentPayload;
+  try {
+    payload = JSON.parse(atob(sessionHeader));
+  } catch {
+    return { valid: false, error: 'Malformed payment session header' };
+  }
+
+  const requirements = selectPaymentOption(accepts, payload) ?? accepts[0];
+
+  const check = checkSessionPayload(payload, requirements);
+  if (!check.valid) {
+    return { valid: false, error: check.error };
+  }
+
+  const session = check.message;
+  const key = `${check.payer}:${session.sessionId}`;
+  const amount = Number(requirements.amount);
+
+  const reservation = await sessionStore.reserve(key, amount, Number(session.maxAmount), session.expiresAt);
+  if (reservation.status === 'exhausted') {
+    return { valid: false, exhausted: true, error: 'Session budget exhausted' };
+  }
+
+  const release = (released: number = amount) => sessionStore.release(key, released);
+  const paymentRequirements: PaymentRequirements = { ...requirements, nonce: session.sessionId };
+
+  try {
+    const verification = await facilitator.verify(payload, paymentRequirements);
+    if (!verification.isValid) {
+      await release();
+      return { valid: false, error: verification.invalidReason || 'Session rejected by facilitator' };
     }
 
-    return { valid: false, error: 'Facilitator unavailable' };
+    return {
+      valid: true,
+      payer: verification.payer || check.payer,
+      payload,
+      requirements: paymentRequirements,
+      sessionRemaining: String(reservation.remaining),
+      release,
+    };
   } catch (error) {
+    await release();
+    console.error('[x402] Facilitator error during session verify:', error);
     return {
       valid: false,
-      error: error instanceof Error ? error.message : 'Payment verification failed',
+      unavailable: true,
+      error: error instanceof Error ? error.message : 'Facilitator unavailable',
+    };
+  }
+}
+
+/**
+ * Settles a verified payment through the facilitator
+ */
+async function settlePayment(
+  payload: PaymentPayload,
+  requirements: PaymentRequirements,
+  facilitator: Facilitator
+): Promise<{ success: boolean; txHash?: string; payer?: string; error?: string; unavailable?: boolean }> {
+  try {
+    const settlement = await facilitator.settle(payload, requirements);
+    if (!settlement.success) {
+      return { success: false, error: settlement.errorReason || 'Payment settlement failed' };
+    }
+
+    return { success: true, txHash: settlement.transaction, payer: settlement.payer };
+  } catch (error) {
+    console.error('[x402] Facilitator error during settle:', error);
+    return {
+      success: false,
+      unavailable: true,
+      error: error instanceof Error ? error.message : 'Facilitator unavailable',
     };
   }
 }
 
+/**
+ * Settlement result sent to the client in the X-Payment-Response header
+ */
+export interface PaymentResponse {
+  success: boolean;
+  /** Settlement transaction signature (empty when settlement failed) */
+  transaction: string;
+  /** Network the payment settled on, in CAIP-2 format */
+  network: string;
+  /** Address of the paying wallet */
+  payer: string;
+  /** Reason settlement failed */
+  errorReason?: string;
+}
+
+/**
+ * Encodes a settlement result as a base64 JSON X-Payment-Response header value
+ */
+export function encodePaymentResponse(paymentResponse: PaymentResponse): string {
+  return Buffer.from(JSON.stringify(paymentResponse)).toString('base64');
+}
+
+/**
+ * Replaces the response body with a JSON error
+ *
+ * Only valid while the response is held back by the middleware, before any
+ * headers have been written.
+ */
+function rewriteAsError(res: Response, status: number, body: Record<string, unknown>): string {
+  const json = JSON.stringify(body);
+  res.status(status);
+  res.removeHeader('ETag');
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Content-Length', Buffer.byteLength(json));
+  return json;
+}
+
+/**
+ * Formats a micro-USD amount as a decimal USD string (e.g. "0.995000")
+ */
+export function formatCredit(micros: number): string {
+  return (micros / 1_000_000).toFixed(6);
+}
+
+/**
+ * Extracts a prepaid credit token sent as `Authorization: Bearer <token>`
+ */
+export function getCreditToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+  return match?.[1];
+}
+
+/**
+ * Holds back `res.end` until `finalize` has run, so the payment outcome can
+ * still change headers and status after the handler has responded
+ */
+function holdResponse(
+  res: Response,
+  finalize: (end: (...args: unknown[]) => Response, endArgs: unknown[]) => Promise<unknown>
+): void {
+  const originalEnd = res.end.bind(res) as (...args: unknown[]) => Response;
+  let finalized = false;
+
+  res.end = ((...args: unknown[]) => {
+    if (!finalized) {
+      finalized = true;
+      res.end = originalEnd as Response['end'];
+      finalize(originalEnd, args).catch(error => {
+        // Always end the response, even if a store failed while finalizing
+        console.error('[x402] Failed to finalize payment:', error);
+        if (res.headersSent) {
+          originalEnd();
+          return;
+        }
+        originalEnd(rewriteAsError(res, 500, {
+          error: 'Payment Finalization Failed',
+          message: 'Could not record the payment outcome',
+        }));
+      });
+    }
+    return res;
+  }) as Response['end'];
+}
+
+/**
+ * Registers work to run once the request's x402 payment has settled
+ *
+ * Callbacks run after settlement succeeds and before the response is sent;
+ * they never run if the handler fails or settlement is rejected. Use this to
+ * grant anything that must not exist unless the payment went through.
+ */
+export function onPaymentSettled(req: Request, callback: () => void | Promise<void>): void {
+  const callbacks: Array<() => void | Promise<void>> = (req as any).x402OnSettled ??= [];
+  callbacks.push(callback);
+}
+
+/**
+ * Lowers what the request is charged, e.g. when a handler delivers only part
+ * of what was priced
+ *
+ * Credit and session payments are charged the lower price. Signed x402
+ * payments authorize an exact amount, so they settle in full. Prices above
+ * the one paid are ignored.
+ */
+export function reducePaymentPrice(req: Request, price: string): void {
+  (req as any).x402ReducedPrice = price;
+}
+
+/**
+ * Atomic units to give back when the handler lowered the price, or 0
+ */
+function reducedBy(req: Request, paid: number, decimals: number): number {
+  const price: string | undefined = (req as any).x402ReducedPrice;
+  return price === undefined ? 0 : Math.max(0, paid - Number(parsePrice(price, decimals)));
+}
+
+/**
+ * Runs the callbacks registered with `onPaymentSettled`
+ */
+async function runSettledCallbacks(req: Request): Promise<void> {
+  const callbacks: Array<() => void | Promise<void>> = (req as any).x402OnSettled ?? [];
+  for (const callback of callbacks) {
+    await callback();
+  }
+}
+
 /**
  * Creates x402 payment middleware for Express
  *
+ * Pricing keys are matched against the full request path, so the middleware
+ * can be applied to the app or to a router with the same table. Keys may use
+ * `:name` parameters and `*` wildcards (e.g. `GET /v1/analytics/:mint`,
+ * `POST /v1/premium/*`); exact keys take precedence over patterns.
+ *
  * This middleware:
  * 1. Checks if the request has a payment signature
  * 2. If not, returns 402 with payment requirements
- * 3. If yes, verifies the payment and allows the request to proceed
+ * 3. If yes, verifies the signed payment and lets the request proceed
+ * 4. Holds the response until the handler finishes, then settles the payment
+ *    if the handler succeeded (2xx) or cancels it otherwise
+ *
+ * Requests may instead carry an `X-Payment-Session` header: a wallet-signed
+ * authorization with a spend limit, expiry and resource list. Each request is
+ * charged against the session budget without a new signature, and the budget
+ * left is returned in `X-Payment-Session-Remaining`.
+ *
+ * With a `creditStore`, requests bearing a credit token are debited up front
+ * and refunded if the handler fails; the remaining balance is returned in the
+ * `X-Credit-Balance` header. Requests with a payment signature always pay
+ * per request.
  *
  * @param payTo - Wallet address to receive payments
- * @param pricing - Map of "METHOD /path" to pricing config
- * @param facilitatorUrl - URL of the x402 facilitator
+ * @param pricing - Map of "METHOD /path" (or pattern) to pricing config
+ * @param facilitator - x402 facilitator, or the URL of an HTTP facilitator
+ * @param options - Additional middleware options (nonce store, default payment options)
  */
 export function paymentMiddleware(
   payTo: string,
   pricing: Record<string, PricingConfig>,
-  facilitatorUrl: string = 'https://x402.org/facilitator'
+  facilitator: Facilitator | string = 'https://x402.org/facilitator',
+  options: PaymentMiddlewareOptions = {}
+) {
+  return createPaymentMiddleware(payTo, pricing, facilitator, options, req => req.baseUrl + req.path);
+}
+
+/**
+ * Creates x402 payment middleware for a sub-router
+ *
+ * Same as `paymentMiddleware`, but pricing keys are relative to wherever the
+ * router is mounted, so a router can declare its own paid endpoints:
+ *
+ * @example
+ * ```typescript
+ * const router = Router();
+ * router.use(routerPaymentMiddleware(payTo, {
+ *   'GET /:mint': { price: '$0.001', description: 'Token analytics' },
+ * }, facilitator, { accepts }));
+ * app.use('/v1/analytics', router);
+ * ```
+ */
+export function routerPaymentMiddleware(
+  payTo: string,
+  pricing: Record<string, PricingConfig>,
+  facilitator: Facilitator | string = 'https://x402.org/facilitator',
+  options: PaymentMiddlewareOptions = {}
+) {
+  return createPaymentMiddleware(payTo, pricing, facilitator, options, req => req.path);
+}
+
+/**
+ * Builds the payment middleware, matching pricing keys against `pathOf(req)`
+ */
+function createPaymentMiddleware(
+  payTo: string,
+  pricing: Record<string, PricingConfig>,
+  facilitator: Facilitator | string,
+  options: PaymentMiddlewareOptions,
+  pathOf: (req: Request) => string
 ) {
-  return async (req: Request, res: Response, next: NextFunction) => {
-    // Build the route key (e.g., "POST /v1/swap/enhanced")
-    const routeKey = `${req.method} ${req.path}`;
+  const matchRoute = compileRouteTable(pricing);
+  const nonceStore = options.nonceStore ?? new InMemoryNonceStore();
+  const sessionStore = options.sessionStore ?? new InMemorySessionStore();
+  const paymentFacilitator = typeof facilitator === 'string'
+    ? new HttpFacilitator(facilitator)
+    : facilitator;
 
-    // Check if this route requires payment
-    const config = pricing[routeKey];
-    if (!config) {
+  const handle = async (req: Request, res: Response, next: NextFunction) => {
+    // Check if this route requires payment (e.g., "POST /v1/swap/enhanced")
+    const route = matchRoute(req.method, pathOf(req));
+    if (!route) {
       return next(); // Not a paid route
     }
+    const config = route.value;
+
+    // Price this request and resolve the accepted payment options
+    let price: string;
+    let accepts: PaymentTerms[];
+    const resource = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+    const maxTimeoutSeconds = config.maxTimeoutSeconds ?? 60;
+    try {
+      price = typeof config.price === 'function'
+        ? await config.price(req.body ?? {}, req, route.params)
+        : config.price;
 
-    // Get the USDC address for this network
-    const usdcAddress = USDC_ADDRESSES[config.network];
-    if (!usdcAddress) {
-      console.error(`[x402] Unknown network: ${config.network}`);
+      // Build payment requirements for each option
+      accepts = resolvePaymentOptions(config, price, options.accepts).map(option => {
+        const amount = parsePrice(option.price, option.asset.decimals);
+        return {
+          x402Version: 1,
+          scheme: 'exact',
+          network: option.network,
+          maxAmountRequired: amount,
+          amount,
+          resource,
+          description: config.description,
+          mimeType: config.mimeType || 'application/json',
+          payTo,
+          maxTimeoutSeconds,
+          asset: option.asset,
+        };
+      });
+    } catch (error) {
+      if (error instanceof InvalidPaymentRequestError) {
+        return res.status(400).json({ error: error.error, message: error.message });
+      }
+      console.error(`[x402] ${error instanceof Error ? error.message : error}`);
       return res.status(500).json({ error: 'Server configuration error' });
     }
 
-    // Build payment requirements
-    const requirements: PaymentRequirements = {
-      x402Version: 1,
-      scheme: 'exact',
-      network: config.network,
-      maxAmountRequired: parsePrice(config.price, 6),
-      amount: parsePrice(config.price, 6),
-      resource: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
-      description: config.description,
-      mimeType: config.mimeType || 'application/json',
-      payTo,
-      maxTimeoutSeconds: 60,
-      asset: {
-        address: usdcAddress,
-        decimals: 6,
-        symbol: 'USDC',
-      },
+    // Issues a nonce and returns 402 with the payment requirements
+    const sendChallenge = async (error: string, message: string, extra: Record<string, unknown> = {}) => {
+      const nonce = randomBytes(16).toString('hex');
+      await nonceStore.issue(nonce, Date.now() + maxTimeoutSeconds * 1000);
+
+      const challenge: PaymentRequiredResponse = {
+        x402Version: 1,
+        error: 'Payment Required',
+        accepts: accepts.map((requirements): PaymentRequirements => ({ ...requirements, nonce })),
+      };
+      const requirementsBase64 = btoa(JSON.stringify(challenge));
+
+      res.setHeader('Payment-Required', requirementsBase64);
+      res.setHeader('X-Payment-Required', requirementsBase64);
+      res.setHeader('Content-Type', 'application/json');
+
+      return res.status(402).json({
+        error,
+        message,
+        price,
+        x402Version: 1,
+        accepts: challenge.accepts,
+        ...extra,
+      });
     };
 
     // Check for payment signature in headers
     const paymentSignature = req.headers['payment-signature'] ||
                              req.headers['x-payment'] as string;
 
-    if (!paymentSignature) {
-      // No payment provided - return 402 with requirements
-      const requirementsBase64 = btoa(JSON.stringify(requirements));
+    const sessionHeader = req.headers['x-payment-session'] as string | undefined;
 
-      res.setHeader('Payment-Required', requirementsBase64);
-      res.setHeader('X-Payment-Required', requirementsBase64);
-      res.setHeader('Content-Type', 'application/json');
+    // Prepaid credit takes over when no payment was signed
+    const creditToken = options.creditStore && config.acceptsCredit !== false &&
+                        !paymentSignature && !sessionHeader
+      ? getCreditToken(req)
+      : undefined;
 
-      return res.status(402).json({
-        error: 'Payment Required',
-        message: config.description,
-        price: config.price,
-        network: config.network,
+    if (creditToken && options.creditStore) {
+      const creditStore = options.creditStore;
+      const cost = Number(parsePrice(price, 6));
+      const debit = await creditStore.debit(creditToken, cost);
+
+      if (debit.status === 'unknown') {
+        return res.status(401).json({
+          error: 'Invalid Credit Token',
+          message: 'Unknown credit token',
+        });
+      }
+
+      if (debit.status === 'insufficient') {
+        res.setHeader('X-Credit-Balance', formatCredit(debit.balance));
+        return sendChallenge('Insufficient Credit', `Credit balance does not cover ${price}`, {
+          creditBalance: formatCredit(debit.balance),
+        });
+      }
+
+      const account = await creditStore.get(creditToken);
+      const creditInfo: PaymentInfo = {
+        amount: String(cost),
+        payer: account?.payer,
+        status: 'settled',
+        method: 'credit',
+        creditBalance: formatCredit(debit.balance),
+      };
+      (req as any).x402Payment = creditInfo;
+      res.setHeader('X-Credit-Balance', formatCredit(debit.balance));
+
+      // Refund the debit if the handler fails, or the part it did not charge
+      holdResponse(res, async (end, endArgs) => {
+        const failed = res.statusCode < 200 || res.statusCode >= 300;
+        const refund = failed ? cost : reducedBy(req, cost, 6);
+        if (refund > 0) {
+          const balance = await creditStore.credit(creditToken, refund);
+          if (failed) {
+            creditInfo.status = 'cancelled';
+          } else {
+            creditInfo.amount = String(cost - refund);
+          }
+          if (balance !== undefined) {
+            creditInfo.creditBalance = formatCredit(balance);
+            res.setHeader('X-Credit-Balance', creditInfo.creditBalance);
+          }
+          console.log(failed
+            ? `[x402] Handler returned ${res.statusCode}, credit refunded`
+            : `[x402] Handler lowered the price, ${formatCredit(refund)} credit refunded`);
+        }
+        return end(...endArgs);
       });
+
+      return next();
     }
 
-    // Verify the payment
-    const verification = await verifyPayment(
-      paymentSignature as string,
-      requirements,
-      facilitatorUrl
-    );
+    if (!paymentSignature && !sessionHeader) {
+      // No payment provided - return 402 with requirements
+      return sendChallenge('Payment Required', config.description);
+    }
+
+    // Verify the payment (a signed payment takes precedence over a session)
+    const verification = paymentSignature
+      ? await verifyPayment(paymentSignature as string, accepts, paymentFacilitator, nonceStore)
+      : await verifySession(sessionHeader as string, accepts, paymentFacilitator, sessionStore);
 
     if (!verification.valid) {
+      if (verification.unavailable) {
+        return res.status(503).json({
+          error: 'Payment Verification Unavailable',
+          message: 'Could not reach the payment facilitator. Please retry.',
+        });
+      }
+
+      // A spent or invalid session gets a fresh challenge so the client can pay another way
+      if (!paymentSignature) {
+        return sendChallenge(
+          verification.exhausted ? 'Session Budget Exhausted' : 'Session Invalid',
+          verification.error || 'Payment session rejected'
+        );
+      }
+
       return res.status(402).json({
         error: 'Payment Invalid',
         message: verification.error || 'Payment verification failed',
       });
     }
 
+    if (verification.sessionRemaining !== undefined) {
+      res.setHeader('X-Payment-Session-Remaining', verification.sessionRemaining);
+    }
+
     // Payment verified - attach payment info to request and continue
-    (req as any).x402Payment = {
-      txHash: verification.txHash,
-      amount: requirements.amount,
-      payer: 'verified',
+    const paymentInfo: PaymentInfo = {
+      amount: verification.requirements.amount,
+      network: verification.requirements.network,
+      asset: verification.requirements.asset.address,
+      payer: verification.payer,
+      status: 'verified',
+      method: paymentSignature ? 'x402' : 'session',
     };
+    (req as any).x402Payment = paymentInfo;
 
-    // Add payment response header
-    if (verification.txHash) {
-      res.setHeader('X-Payment-Response', verification.txHash);
-      res.setHeader('X-Payment-TxHash', verification.txHash);
-    }
+    // Gives back the session reservation (and restores the remaining header)
+    const releaseSession = async (amount: number = Number(verification.requirements.amount)) => {
+      if (!verification.release) return;
+      await verification.release(amount);
+      res.setHeader('X-Payment-Session-Remaining', String(Number(verification.sessionRemaining) + amount));
+    };
+
+    // Hold the response until the payment has been settled or cancelled
+    holdResponse(res, async (originalEnd, endArgs) => {
+      // Handler failed - cancel the payment instead of settling it
+      if (res.statusCode < 200 || res.statusCode >= 300) {
+        paymentInfo.status = 'cancelled';
+        await releaseSession();
+        console.log(`[x402] Handler returned ${res.statusCode}, payment cancelled`);
+        return originalEnd(...endArgs);
+      }
+
+      // Sessions are not signed for an exact amount, so they can be charged less
+      let requirements = verification.requirements;
+      const reduction = verification.release
+        ? reducedBy(req, Number(requirements.amount), requirements.asset.decimals)
+        : 0;
+      if (reduction > 0) {
+        const amount = String(Number(requirements.amount) - reduction);
+        requirements = { ...requirements, amount, maxAmountRequired: amount };
+        paymentInfo.amount = amount;
+      }
+
+      const settlement = await settlePayment(verification.payload, requirements, paymentFacilitator);
+
+      if (!settlement.success) {
+        paymentInfo.status = 'failed';
+        await releaseSession();
+        res.setHeader('X-Payment-Response', encodePaymentResponse({
+          success: false,
+          transaction: '',
+          network: verification.requirements.network,
+          payer: verification.payer,
+          errorReason: settlement.error,
+        }));
+        return originalEnd(rewriteAsError(res, settlement.unavailable ? 503 : 402, {
+          error: settlement.unavailable ? 'Payment Settlement Unavailable' : 'Payment Settlement Failed',
+          message: settlement.error,
+        }));
+      }
+
+      paymentInfo.status = 'settled';
+      paymentInfo.txHash = settlement.txHash;
+      paymentInfo.payer = settlement.payer || verification.payer;
+      if (reduction > 0) {
+        await releaseSession(reduction);
+      }
+
+      // Add payment response headers with the settlement transaction
+      res.setHeader('X-Payment-Response', encodePaymentResponse({
+        success: true,
+        transaction: settlement.txHash || '',
+        network: verification.requirements.network,
+        payer: paymentInfo.payer,
+      }));
+      if (settlement.txHash) {
+        res.setHeader('X-Payment-TxHash', settlement.txHash);
+      }
+
+      try {
+        await runSettledCallbacks(req);
+      } catch (error) {
+        console.error('[x402] Post-settlement callback failed:', error);
+        return originalEnd(rewriteAsError(res, 500, {
+          error: 'Payment Fulfillment Failed',
+          message: 'Payment settled but the purchase could not be completed',
+        }));
+      }
+
+      return originalEnd(...endArgs);
+    });
 
     next();
   };
+
+  // Express 4 ignores rejected promises, so store failures go to the error handler
+  return (req: Request, res: Response, next: NextFunction) => {
+    handle(req, res, next).catch(next);
+  };
 }
 
 /**
@@ -239,6 +1022,6 @@ export function isPaid(req: Request): boolean {
 /**
  * Helper to get payment info from request
  */
-export function getPaymentInfo(req: Request): { txHash?: string; amount?: string; payer?: string } | null {
+export function getPaymentInfo(req: Request): PaymentInfo | null {
   return (req as any).x402Payment || null;
 }
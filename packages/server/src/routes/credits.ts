@@ -0,0 +1,116 @@
+import { Router, type IRouter } from 'express';
+import { randomBytes } from 'crypto';
+import type { CreditStore } from '../middleware/credit-store.js';
+import {
+  getPaymentInfo,
+  getCreditToken,
+  onPaymentSettled,
+  parsePrice,
+  formatCredit,
+  type PricingConfig,
+} from '../middleware/x402.js';
+import {
+  getCreditTopUpPrice,
+  isValidTopUpAmount,
+  CREDIT_TOP_UP_LIMITS,
+} from '../services/pricing.js';
+
+/**
+ * x402 pricing for the credit top-up endpoint
+ *
+ * Top-ups are always paid per request, never with existing credit.
+ */
+export const creditsPricing: Record<string, PricingConfig> = {
+  'POST /v1/credits': {
+    price: getCreditTopUpPrice,
+    description: 'Prepaid credit for premium endpoints',
+    mimeType: 'application/json',
+    acceptsCredit: false,
+  },
+};
+
+/**
+ * Creates the prepaid credit routes
+ *
+ * - `POST /v1/credits` (x402-protected): buys `amount` USD of credit. Creates
+ *   a new bearer token, or tops up the token sent in `Authorization`.
+ * - `GET /v1/credits`: returns the balance of the bearer token.
+ */
+export function createCreditsRouter(creditStore: CreditStore): IRouter {
+  const router: IRouter = Router();
+
+  router.post('/v1/credits', async (req, res) => {
+    const { amount } = req.body ?? {};
+
+    if (!isValidTopUpAmount(amount)) {
+      return res.status(400).json({
+        error: 'Invalid amount',
+        message: `Amount must be a number of USD between ${CREDIT_TOP_UP_LIMITS.min} and ${CREDIT_TOP_UP_LIMITS.max}`,
+      });
+    }
+
+    const paymentInfo = getPaymentInfo(req);
+    if (!paymentInfo) {
+      return res.status(402).json({ error: 'Payment Required' });
+    }
+
+    const credited = Number(parsePrice(getCreditTopUpPrice(req.body), 6));
+    const existingToken = getCreditToken(req);
+    const existing = existingToken ? await creditStore.get(existingToken) : undefined;
+
+    if (existingToken && !existing) {
+      return res.status(401).json({
+        error: 'Invalid Credit Token',
+        message: 'Unknown credit token',
+      });
+    }
+
+    const token = existingToken ?? `gcr_${randomBytes(24).toString('hex')}`;
+    const balance = (existing?.balance ?? 0) + credited;
+
+    // Only grant the credit once the payment has actually settled
+    onPaymentSettled(req, async () => {
+      if (existing) {
+        await creditStore.credit(token, credited);
+      } else {
+        await creditStore.create(token, {
+          balance: credited,
+          payer: paymentInfo.payer,
+          createdAt: Date.now(),
+        });
+      }
+    });
+
+    console.log('[Credits] Top-up', {
+      credited: formatCredit(credited),
+      payer: paymentInfo.payer?.slice(0, 8) + '...',
+    });
+
+    res.setHeader('X-Credit-Balance', formatCredit(balance));
+    res.json({
+      token,
+      credited: formatCredit(credited),
+      balance: formatCredit(balance),
+    });
+  });
+
+  router.get('/v1/credits', async (req, res) => {
+    const token = getCreditToken(req);
+    const account = token ? await creditStore.get(token) : undefined;
+
+    if (!account) {
+      return res.status(401).json({
+        error: 'Invalid Credit Token',
+        message: 'Send a credit token as "Authorization: Bearer <token>"',
+      });
+    }
+
+    res.setHeader('X-Credit-Balance', formatCredit(account.balance));
+    res.json({
+      balance: formatCredit(account.balance),
+      createdAt: new Date(account.createdAt).toISOString(),
+    });
+  });
+
+  return router;
+}
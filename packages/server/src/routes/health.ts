@@ -1,4 +1,5 @@
 import { Router, type IRouter } from 'express';
+import { getQuoteCacheStats, getJupiterCircuitState } from '../services/jupiter.js';
 
 const router: IRouter = Router();
 
@@ -10,6 +11,8 @@ router.get('/health', (req, res) => {
     status: 'ok',
     timestamp: new Date().toISOString(),
     version: '1.0.0',
+    quoteCache: getQuoteCacheStats(),
+    upstream: { jupiter: getJupiterCircuitState() },
   });
 });
 
@@ -22,7 +25,15 @@ router.get('/info', (req, res) => {
     version: '1.0.0',
     description: 'x402 micropayment-gated premium Jupiter swap features',
     pricing: {
-      'POST /v1/swap/enhanced': '$0.005 per request',
+      'POST /v1/swap/enhanced': {
+        base: '$0.001',
+        mevProtection: '+$0.002',
+        optimizePriorityFee: '+$0.001',
+        includeAnalytics: '+$0.001',
+        tradeSize: { medium: '+$0.002', large: '+$0.005' },
+      },
+      'POST /v1/quote/batch/enhanced': 'Sum of the items, each priced like POST /v1/swap/enhanced (up to 25 per batch)',
+      'POST /v1/credits': '$0.10-$100 of prepaid credit, spent per request with Authorization: Bearer <token>',
     },
     features: {
       mevProtection: 'MEV risk analysis and Jito bundle support',
@@ -1,12 +1,88 @@
-import { Router, type IRouter } from 'express';
-import { getJupiterQuote, buildEnhancedSwap } from '../services/jupiter.js';
+import { Router, type IRouter, type Response } from 'express';
+import type { QuoteResponse } from '@jup-ag/api';
+import {
+  getJupiterQuote,
+  buildEnhancedSwap,
+  isSwapMode,
+  parseRouteOptions,
+  JupiterError,
+  type GetQuoteParams,
+} from '../services/jupiter.js';
 import { getMEVAnalysis } from '../services/mev.js';
 import { getOptimalPriorityFee } from '../services/priority.js';
 import { getRouteAnalytics } from '../services/analytics.js';
-import { getPaymentInfo } from '../middleware/x402.js';
+import { getEnhancedSwapPrice, getBatchQuotePrice, MAX_QUOTE_BATCH_SIZE } from '../services/pricing.js';
+import {
+  getPaymentInfo,
+  reducePaymentPrice,
+  InvalidPaymentRequestError,
+  type PricingConfig,
+} from '../middleware/x402.js';
 
 const router: IRouter = Router();
 
+/**
+ * x402 pricing for the paid endpoints in this router
+ *
+ * Payment options (network and asset) come from the payment middleware.
+ */
+export const premiumPricing: Record<string, PricingConfig> = {
+  'POST /v1/swap/enhanced': {
+    // Priced per request by requested features and trade size
+    price: getEnhancedSwapPrice,
+    description: 'Enhanced swap with MEV protection, priority fees, and analytics',
+    mimeType: 'application/json',
+  },
+  'POST /v1/quote/batch/enhanced': {
+    // One payment for the whole batch, priced per item; malformed batches get 400 instead
+    price: priceBatch,
+    description: 'Batch of quotes with MEV analysis, priority fees, and analytics',
+    mimeType: 'application/json',
+  },
+};
+
+/** Quotes fetched from Jupiter at once while answering a batch */
+const BATCH_CONCURRENCY = 4;
+
+/**
+ * Error result for one item of a batch
+ */
+interface BatchItemError {
+  error: string;
+  message: string;
+}
+
+/**
+ * Describes a failed Jupiter call to the client
+ */
+function describeJupiterError(error: JupiterError): BatchItemError {
+  switch (error.code) {
+    case 'no_route':
+      return { error: 'No route found', message: 'No swap route available for the requested token pair' };
+    case 'bad_request':
+      return { error: 'Invalid quote request', message: error.message };
+    case 'rate_limited':
+      return { error: 'Rate limited', message: 'Too many requests. Please try again later.' };
+    case 'timeout':
+      return { error: 'Upstream timeout', message: 'Jupiter did not respond in time' };
+    case 'unavailable':
+    case 'circuit_open':
+      return { error: 'Upstream unavailable', message: 'Jupiter is unavailable. Please try again later.' };
+  }
+}
+
+/**
+ * Answers with the HTTP status for a failed Jupiter call, passing on how
+ * long to wait before retrying
+ */
+function sendJupiterError(res: Response, error: JupiterError) {
+  const { retryAfterMs } = error.options;
+  if (retryAfterMs !== undefined) {
+    res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000).toString());
+  }
+  return res.status(error.status).json(describeJupiterError(error));
+}
+
 /**
  * Enhanced swap endpoint (x402-protected)
  *
@@ -15,7 +91,8 @@ const router: IRouter = Router();
  * - Optimal priority fee calculation
  * - Detailed route analytics
  *
- * Requires x402 micropayment of $0.005
+ * Requires an x402 micropayment priced by the requested features and trade
+ * size (see services/pricing.ts)
  */
 router.post('/v1/swap/enhanced', async (req, res) => {
   try {
@@ -24,10 +101,13 @@ router.post('/v1/swap/enhanced', async (req, res) => {
       outputMint,
       amount,
       slippageBps,
+      swapMode,
+      feeAccount,
       userPublicKey,
       mevProtection,
       optimizePriorityFee,
       includeAnalytics,
+      fresh,
     } = req.body;
 
     // Validate required fields
@@ -46,13 +126,43 @@ router.post('/v1/swap/enhanced', async (req, res) => {
       });
     }
 
-    // Get payment info (set by x402 middleware)
+    if (swapMode !== undefined && !isSwapMode(swapMode)) {
+      return res.status(400).json({
+        error: 'Invalid swapMode',
+        message: "swapMode must be 'ExactIn' or 'ExactOut'",
+      });
+    }
+
+    const routing = parseRouteOptions(req.body);
+    if ('error' in routing) {
+      return res.status(400).json({
+        error: 'Invalid routing options',
+        message: routing.error,
+      });
+    }
+
+    // Jupiter needs an account to pay a platform fee into
+    if (feeAccount !== undefined && (typeof feeAccount !== 'string' || !feeAccount)) {
+      return res.status(400).json({
+        error: 'Invalid feeAccount',
+        message: 'feeAccount must be a token account address',
+      });
+    }
+    if (routing.options.platformFeeBps && !feeAccount) {
+      return res.status(400).json({
+        error: 'Missing feeAccount',
+        message: 'platformFeeBps requires a feeAccount to receive the fee',
+      });
+    }
+
+    // Get payment info (set by x402 middleware; settled after this handler responds)
     const paymentInfo = getPaymentInfo(req);
     console.log('[Premium] Request received', {
       inputMint: inputMint.slice(0, 8) + '...',
       outputMint: outputMint.slice(0, 8) + '...',
       amount,
-      paymentTx: paymentInfo?.txHash?.slice(0, 16) + '...',
+      swapMode: swapMode ?? 'ExactIn',
+      payer: paymentInfo?.payer?.slice(0, 8) + '...',
     });
 
     // Get base quote from Jupiter
@@ -61,7 +171,9 @@ router.post('/v1/swap/enhanced', async (req, res) => {
       outputMint,
       amount,
       slippageBps: slippageBps || 50,
-    });
+      swapMode,
+      ...routing.options,
+    }, { bypassCache: fresh === true });
 
     // Build response with requested premium features
     const response: any = { quote };
@@ -86,14 +198,19 @@ router.post('/v1/swap/enhanced', async (req, res) => {
 
     // Build the swap transaction with optimizations applied
     console.log('[Premium] Building enhanced swap transaction...');
-    const swapTransaction = await buildEnhancedSwap({
+    const { swapTransaction, lastValidBlockHeight } = await buildEnhancedSwap({
       quote,
       userPublicKey,
       priorityFee: response.recommendedPriorityFee?.microLamports,
       mevProtection: response.mevAnalysis?.shouldUseMevProtection,
+      asLegacyTransaction: routing.options.asLegacyTransaction,
+      feeAccount,
     });
 
     response.swapTransaction = swapTransaction;
+    if (lastValidBlockHeight) {
+      response.lastValidBlockHeight = lastValidBlockHeight;
+    }
 
     console.log('[Premium] Response ready', {
       hasMevAnalysis: !!response.mevAnalysis,
@@ -105,21 +222,8 @@ router.post('/v1/swap/enhanced', async (req, res) => {
   } catch (error) {
     console.error('[Premium] Error:', error);
 
-    // Handle specific error types
-    if (error instanceof Error) {
-      if (error.message.includes('No route found')) {
-        return res.status(400).json({
-          error: 'No route found',
-          message: 'No swap route available for the requested token pair',
-        });
-      }
-
-      if (error.message.includes('rate limit')) {
-        return res.status(429).json({
-          error: 'Rate limited',
-          message: 'Too many requests. Please try again later.',
-        });
-      }
+    if (error instanceof JupiterError) {
+      return sendJupiterError(res, error);
     }
 
     res.status(500).json({
@@ -134,7 +238,7 @@ router.post('/v1/swap/enhanced', async (req, res) => {
  */
 router.get('/v1/quote', async (req, res) => {
   try {
-    const { inputMint, outputMint, amount, slippageBps } = req.query;
+    const { inputMint, outputMint, amount, slippageBps, swapMode, fresh } = req.query;
 
     if (!inputMint || !outputMint || !amount) {
       return res.status(400).json({
@@ -143,16 +247,38 @@ router.get('/v1/quote', async (req, res) => {
       });
     }
 
+    if (swapMode !== undefined && !isSwapMode(swapMode)) {
+      return res.status(400).json({
+        error: 'Invalid swapMode',
+        message: "swapMode must be 'ExactIn' or 'ExactOut'",
+      });
+    }
+
+    const routing = parseRouteOptions(req.query);
+    if ('error' in routing) {
+      return res.status(400).json({
+        error: 'Invalid routing options',
+        message: routing.error,
+      });
+    }
+
     const quote = await getJupiterQuote({
       inputMint: inputMint as string,
       outputMint: outputMint as string,
       amount: parseInt(amount as string),
       slippageBps: slippageBps ? parseInt(slippageBps as string) : 50,
-    });
+      swapMode,
+      ...routing.options,
+    }, { bypassCache: fresh === 'true' });
 
     res.json({ quote });
   } catch (error) {
     console.error('[Quote] Error:', error);
+
+    if (error instanceof JupiterError) {
+      return sendJupiterError(res, error);
+    }
+
     res.status(500).json({
       error: 'Failed to get quote',
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -160,4 +286,171 @@ router.get('/v1/quote', async (req, res) => {
   }
 });
 
+/**
+ * Validates one item of a batch quote request
+ */
+function parseBatchItem(item: any): { params: GetQuoteParams } | BatchItemError {
+  if (typeof item !== 'object' || item === null) {
+    return { error: 'Invalid request', message: 'Each batch item must be an object' };
+  }
+
+  const { inputMint, outputMint, amount, slippageBps, swapMode } = item;
+  if (typeof inputMint !== 'string' || typeof outputMint !== 'string' || !inputMint || !outputMint) {
+    return { error: 'Missing required fields', message: 'inputMint and outputMint are required' };
+  }
+  if (typeof amount !== 'number' || amount <= 0) {
+    return { error: 'Invalid amount', message: 'Amount must be a positive number in smallest units' };
+  }
+  if (swapMode !== undefined && !isSwapMode(swapMode)) {
+    return { error: 'Invalid swapMode', message: "swapMode must be 'ExactIn' or 'ExactOut'" };
+  }
+
+  const routing = parseRouteOptions(item);
+  if ('error' in routing) {
+    return { error: 'Invalid routing options', message: routing.error };
+  }
+
+  return {
+    params: { inputMint, outputMint, amount, slippageBps: slippageBps || 50, swapMode, ...routing.options },
+  };
+}
+
+/**
+ * Reads the `requests` array of a batch body, or describes why it is invalid
+ */
+function batchRequests(body: any): unknown[] | BatchItemError {
+  const requests = body?.requests;
+  if (!Array.isArray(requests) || requests.length === 0 || requests.length > MAX_QUOTE_BATCH_SIZE) {
+    return {
+      error: 'Invalid batch',
+      message: `requests must be an array of 1 to ${MAX_QUOTE_BATCH_SIZE} quote requests`,
+    };
+  }
+  return requests;
+}
+
+/**
+ * Prices a premium batch, rejecting it before payment if any item is invalid
+ */
+function priceBatch(body: any): string {
+  const requests = batchRequests(body);
+  if (!Array.isArray(requests)) {
+    throw new InvalidPaymentRequestError(requests.error, requests.message);
+  }
+
+  requests.forEach((item, index) => {
+    const parsed = parseBatchItem(item);
+    if ('error' in parsed) {
+      throw new InvalidPaymentRequestError(parsed.error, `requests[${index}]: ${parsed.message}`);
+    }
+  });
+
+  return getBatchQuotePrice(body);
+}
+
+/**
+ * Quotes every item of a batch, a few at a time
+ *
+ * Each item resolves to its own result or error, in request order.
+ */
+async function quoteBatch<T>(
+  requests: unknown[],
+  quoteItem: (params: GetQuoteParams, item: any) => Promise<T>
+): Promise<Array<T | BatchItemError>> {
+  const results: Array<T | BatchItemError> = new Array(requests.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < requests.length) {
+      const index = next++;
+      const item = requests[index];
+      const parsed = parseBatchItem(item);
+
+      if ('error' in parsed) {
+        results[index] = parsed;
+        continue;
+      }
+
+      try {
+        results[index] = await quoteItem(parsed.params, item);
+      } catch (error) {
+        results[index] = error instanceof JupiterError
+          ? describeJupiterError(error)
+          : { error: 'Failed to get quote', message: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, requests.length) }, worker));
+  return results;
+}
+
+/**
+ * Free tier batch quote endpoint (no payment required)
+ *
+ * Answers 200 with one result per request, in order. Failed items carry
+ * `error` and `message` instead of a quote.
+ */
+router.post('/v1/quote/batch', async (req, res) => {
+  const requests = batchRequests(req.body);
+  if (!Array.isArray(requests)) {
+    return res.status(400).json(requests);
+  }
+
+  const results = await quoteBatch(requests, async (params, item) => ({
+    quote: await getJupiterQuote(params, { bypassCache: item.fresh === true }),
+  }));
+
+  res.json({ results });
+});
+
+/**
+ * Premium batch quote endpoint (x402-protected)
+ *
+ * One payment covers the whole batch, priced as the sum of its items (see
+ * services/pricing.ts). Each item may ask for MEV analysis, a priority fee
+ * recommendation and route analytics. Batches with an invalid item are
+ * rejected with 400 before payment. Items that fail upstream are not charged
+ * to credit or session payments; if every item fails the request answers
+ * 502, so the payment is not settled.
+ */
+router.post('/v1/quote/batch/enhanced', async (req, res) => {
+  const requests = batchRequests(req.body);
+  if (!Array.isArray(requests)) {
+    return res.status(400).json(requests);
+  }
+
+  console.log('[Premium] Batch quote request', { items: requests.length });
+
+  const results = await quoteBatch(requests, async (params, item) => {
+    const quote: QuoteResponse = await getJupiterQuote(params, { bypassCache: item.fresh === true });
+    const result: Record<string, unknown> = { quote };
+
+    if (item.mevProtection) {
+      result.mevAnalysis = await getMEVAnalysis(quote, params.inputMint, params.outputMint);
+    }
+    if (item.optimizePriorityFee) {
+      result.recommendedPriorityFee = await getOptimalPriorityFee(quote);
+    }
+    if (item.includeAnalytics) {
+      result.routeAnalytics = await getRouteAnalytics(quote);
+    }
+
+    return result;
+  });
+
+  const failed = results.filter(result => 'error' in result).length;
+  if (failed === results.length) {
+    return res.status(502).json({ error: 'All quotes failed', results });
+  }
+
+  if (failed > 0) {
+    reducePaymentPrice(req, getBatchQuotePrice({
+      requests: requests.filter((_, index) => !('error' in results[index])),
+    }));
+  }
+
+  res.json({ results });
+});
+
 export default router;
@@ -1,4 +1,5 @@
 import type { QuoteResponse } from '@jup-ag/api';
+import { getTokenDecimals } from './token-metadata.js';
 
 /**
  * Detailed breakdown of a single hop in the swap route
@@ -32,7 +33,15 @@ export interface RouteAnalytics {
     dexesUsed: string[];
     estimatedGasCost: number;
     priceImpact: number;
+    /** Output tokens received per input token */
     effectivePrice: number;
+    /** Platform fee taken by the swap (only if one was charged) */
+    platformFee?: {
+      /** Fee in atomic units of `mint` */
+      amount: string;
+      feeBps: number;
+      mint: string;
+    };
   };
   /** Comparison with alternatives */
   comparison: {
@@ -114,7 +123,13 @@ export async function getRouteAnalytics(quote: QuoteResponse): Promise<RouteAnal
   const totalPriceImpact = parseFloat(quote.priceImpactPct || '0');
   const inAmount = parseInt(quote.inAmount);
   const outAmount = parseInt(quote.outAmount);
-  const effectivePrice = inAmount > 0 ? outAmount / inAmount : 0;
+  const [inputDecimals, outputDecimals] = await Promise.all([
+    getTokenDecimals(quote.inputMint),
+    getTokenDecimals(quote.outputMint),
+  ]);
+  const effectivePrice = inAmount > 0
+    ? (outAmount / 10 ** outputDecimals) / (inAmount / 10 ** inputDecimals)
+    : 0;
 
   // Generate warnings
   const warnings: string[] = [];
@@ -158,6 +173,13 @@ export async function getRouteAnalytics(quote: QuoteResponse): Promise<RouteAnal
     suggestions.push('Route uses multiple DEXes. Concentrated liquidity pools might offer better rates.');
   }
 
+  // Jupiter takes the platform fee from the output, or the input for ExactOut
+  const platformFee = quote.platformFee?.feeBps ? {
+    amount: quote.platformFee.amount ?? '0',
+    feeBps: quote.platformFee.feeBps,
+    mint: quote.swapMode === 'ExactOut' ? quote.inputMint : quote.outputMint,
+  } : undefined;
+
   return {
     summary: {
       totalHops: routePlan.length,
@@ -165,6 +187,7 @@ export async function getRouteAnalytics(quote: QuoteResponse): Promise<RouteAnal
       estimatedGasCost: estimateGasCost(routePlan.length),
       priceImpact: totalPriceImpact,
       effectivePrice: Number(effectivePrice.toFixed(10)),
+      ...(platformFee && { platformFee }),
     },
     comparison: {
       vsBestAlternative: {
@@ -200,9 +223,10 @@ function calculateRouteImprovement(quote: QuoteResponse): number {
   if (hops <= 1) return 0;
 
   // Estimate: multi-hop routes typically provide 0.1-0.5% better prices
-  // This is a simplified calculation
-  const outAmount = parseInt(quote.outAmount);
-  return Number((outAmount * 0.002).toFixed(0));
+  // This is a simplified calculation, in units of the variable side
+  // (output gained, or input saved for ExactOut)
+  const variableAmount = parseInt(quote.swapMode === 'ExactOut' ? quote.inAmount : quote.outAmount);
+  return Number((variableAmount * 0.002).toFixed(0));
 }
 
 /**
@@ -0,0 +1,15 @@
+import { Connection } from '@solana/web3.js';
+
+// Solana connection (lazy initialized)
+let connection: Connection | null = null;
+
+/**
+ * Shared RPC connection to SOLANA_RPC_URL (devnet by default)
+ */
+export function getConnection(): Connection {
+  if (!connection) {
+    const rpcUrl = process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com';
+    connection = new Connection(rpcUrl);
+  }
+  return connection;
+}
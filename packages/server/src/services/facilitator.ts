@@ -0,0 +1,163 @@
+import type { PaymentPayload, PaymentRequirements } from '../middleware/x402.js';
+
+/**
+ * Facilitator response to a verify request (x402 facilitator protocol)
+ */
+export interface VerifyResponse {
+  /** Whether the payment payload is valid for the requirements */
+  isValid: boolean;
+  /** Machine-readable reason when the payload is invalid */
+  invalidReason?: string;
+  /** Address of the paying wallet */
+  payer?: string;
+}
+
+/**
+ * Facilitator response to a settle request (x402 facilitator protocol)
+ */
+export interface SettleResponse {
+  /** Whether the payment was settled on chain */
+  success: boolean;
+  /** Machine-readable reason when settlement failed */
+  errorReason?: string;
+  /** Settlement transaction signature */
+  transaction: string;
+  /** Network the payment settled on, in CAIP-2 format */
+  network: string;
+  /** Address of the paying wallet */
+  payer?: string;
+}
+
+/**
+ * Payment kind a facilitator can handle
+ */
+export interface SupportedKind {
+  x402Version: number;
+  scheme: string;
+  network: string;
+}
+
+/**
+ * x402 facilitator that verifies and settles payments on behalf of the server
+ */
+export interface Facilitator {
+  /** Checks that a payment payload satisfies the requirements without settling it */
+  verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse>;
+  /** Settles a previously verified payment */
+  settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse>;
+}
+
+/**
+ * Error raised when a facilitator cannot be reached or answers unexpectedly
+ */
+export class FacilitatorError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'FacilitatorError';
+  }
+}
+
+/**
+ * Options for the HTTP facilitator client
+ */
+export interface HttpFacilitatorOptions {
+  /** Extra headers sent with every request (e.g. authorization) */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** fetch implementation to use (defaults to global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Facilitator client speaking the x402 facilitator HTTP protocol
+ *
+ * POSTs `{ x402Version, paymentPayload, paymentRequirements }` to `/verify`
+ * and `/settle`, and reads supported payment kinds from `/supported`.
+ */
+export class HttpFacilitator implements Facilitator {
+  private readonly baseUrl: string;
+  private readonly options: HttpFacilitatorOptions;
+
+  constructor(baseUrl: string, options: HttpFacilitatorOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.options = options;
+  }
+
+  async verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    return this.post<VerifyResponse>('/verify', payload, requirements);
+  }
+
+  async settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+    return this.post<SettleResponse>('/settle', payload, requirements);
+  }
+
+  /**
+   * Lists the payment kinds the facilitator supports
+   */
+  async supported(): Promise<SupportedKind[]> {
+    const data = await this.request<{ kinds: SupportedKind[] }>('/supported', { method: 'GET' });
+    return data.kinds || [];
+  }
+
+  private async post<T>(
+    path: string,
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<T> {
+    return this.request<T>(path, {
+      method: 'POST',
+      body: JSON.stringify({
+        x402Version: payload.x402Version,
+        paymentPayload: payload,
+        paymentRequirements: requirements,
+      }),
+    });
+  }
+
+  private async request<T>(path: string, init: RequestInit): Promise<T> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const url = `${this.baseUrl}${path}`;
+
+    let response: Response;
+    try {
+      response = await fetchImpl(url, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.options.headers,
+        },
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? 10_000),
+      });
+    } catch (error) {
+      throw new FacilitatorError(
+        `Facilitator request to ${path} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        error
+      );
+    }
+
+    const data = await response.json().catch(() => null) as T | null;
+
+    // Facilitators answer rejected payments with a 4xx and a regular result body
+    const isResultBody = data !== null && typeof data === 'object' &&
+                         ('isValid' in data || 'success' in data);
+
+    if (!response.ok && !isResultBody) {
+      throw new FacilitatorError(
+        `Facilitator returned ${response.status} for ${path}`,
+        response.status
+      );
+    }
+
+    if (data === null) {
+      throw new FacilitatorError(`Facilitator returned invalid JSON for ${path}`, response.status);
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,326 @@
+import type {
+  InitOverrideFunction,
+  QuoteGetRequest,
+  QuoteResponse,
+  SwapPostRequest,
+  SwapResponse,
+} from '@jup-ag/api';
+
+/**
+ * Why a Jupiter call failed
+ */
+export type JupiterErrorCode =
+  | 'no_route'
+  | 'bad_request'
+  | 'rate_limited'
+  | 'timeout'
+  | 'unavailable'
+  | 'circuit_open';
+
+/**
+ * HTTP status a route answers with for each kind of Jupiter failure
+ */
+export const JUPITER_ERROR_STATUS: Record<JupiterErrorCode, number> = {
+  no_route: 400,
+  bad_request: 400,
+  rate_limited: 429,
+  timeout: 504,
+  unavailable: 502,
+  circuit_open: 503,
+};
+
+/**
+ * Error raised for a failed Jupiter call
+ */
+export class JupiterError extends Error {
+  constructor(
+    public code: JupiterErrorCode,
+    message: string,
+    public options: {
+      /** Status Jupiter answered with */
+      upstreamStatus?: number;
+      /** How long to wait before trying again, in ms */
+      retryAfterMs?: number;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'JupiterError';
+  }
+
+  /** HTTP status to answer the client with */
+  get status(): number {
+    return JUPITER_ERROR_STATUS[this.code];
+  }
+
+  /** Whether trying the call again may succeed */
+  get retryable(): boolean {
+    return this.code === 'rate_limited' || this.code === 'timeout' || this.code === 'unavailable';
+  }
+}
+
+/** Jupiter error codes for requests no route can satisfy */
+const NO_ROUTE_ERROR_CODES = ['COULD_NOT_FIND_ANY_ROUTE', 'NO_ROUTES_FOUND', 'TOKEN_NOT_TRADABLE'];
+
+/**
+ * Reads a Retry-After header (seconds or an HTTP date) as milliseconds
+ */
+function parseRetryAfter(value: string | null, now: number): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Turns anything a Jupiter API call throws into a JupiterError
+ */
+export async function classifyJupiterError(error: unknown, now: number = Date.now()): Promise<JupiterError> {
+  if (error instanceof JupiterError) return error;
+
+  const name = error instanceof Error ? error.name : undefined;
+  const response = (error as { response?: Response }).response;
+
+  if (name === 'ResponseError' && response) {
+    const status = response.status;
+
+    if (status === 429) {
+      return new JupiterError('rate_limited', 'Jupiter rate limit exceeded', {
+        upstreamStatus: status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after'), now),
+        cause: error,
+      });
+    }
+
+    if (status >= 500) {
+      return new JupiterError('unavailable', `Jupiter returned ${status}`, { upstreamStatus: status, cause: error });
+    }
+
+    const body = await response.clone().json().catch(() => null) as { error?: string; errorCode?: string } | null;
+    const message = body?.error ?? `Jupiter returned ${status}`;
+    const noRoute = NO_ROUTE_ERROR_CODES.includes(body?.errorCode ?? '') || /no route|find any route/i.test(message);
+
+    return new JupiterError(noRoute ? 'no_route' : 'bad_request', message, { upstreamStatus: status, cause: error });
+  }
+
+  if (name === 'RequiredError') {
+    return new JupiterError('bad_request', (error as Error).message, { cause: error });
+  }
+
+  if (name === 'AbortError' || name === 'TimeoutError') {
+    return new JupiterError('timeout', 'Jupiter request timed out', { cause: error });
+  }
+
+  return new JupiterError(
+    'unavailable',
+    `Jupiter request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    { cause: error }
+  );
+}
+
+/**
+ * Circuit breaker state
+ *
+ * - closed: calls go through
+ * - open: calls fail fast until the reset timeout passes
+ * - half_open: one trial call decides whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Options for a circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial call, in ms (default: 30000) */
+  resetTimeoutMs?: number;
+  /** Clock in ms since epoch (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Fails calls fast after repeated upstream failures
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private currentState: CircuitState = 'closed';
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  get state(): CircuitState {
+    if (this.currentState === 'open' && this.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.currentState = 'half_open';
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Claims permission for a call
+   *
+   * @throws JupiterError (circuit_open) while the circuit is open, or while
+   * another trial call is in flight
+   */
+  acquire(): void {
+    const state = this.state;
+    if (state === 'closed') return;
+
+    if (state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new JupiterError('circuit_open', 'Jupiter is unavailable; failing fast until it recovers', {
+      retryAfterMs: Math.max(0, this.openedAt + this.resetTimeoutMs - this.now()),
+    });
+  }
+
+  /** Records a successful call */
+  onSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    this.currentState = 'closed';
+  }
+
+  /** Records a failed call */
+  onFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      this.currentState = 'open';
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /** Releases a call whose failure says nothing about upstream health */
+  onIgnored(): void {
+    this.trialInFlight = false;
+  }
+}
+
+/**
+ * Jupiter API calls the server makes
+ */
+export interface JupiterApi {
+  quoteGet(request: QuoteGetRequest, initOverrides?: RequestInit | InitOverrideFunction): Promise<QuoteResponse>;
+  swapPost(request: SwapPostRequest, initOverrides?: RequestInit | InitOverrideFunction): Promise<SwapResponse>;
+}
+
+/**
+ * Options for the resilient Jupiter client
+ */
+export interface ResilientJupiterOptions {
+  /** Per-attempt timeout in ms (default: 5000) */
+  timeoutMs?: number;
+  /** Retries after the first attempt on 429, 5xx, network errors and timeouts (default: 2) */
+  maxRetries?: number;
+  /** Backoff base in ms; attempt n waits a random time up to base * 2^n (default: 200) */
+  retryBaseDelayMs?: number;
+  /** Longest wait between attempts, including Retry-After, in ms (default: 5000) */
+  maxRetryDelayMs?: number;
+  /** Circuit breaker settings */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Waits between attempts (defaults to setTimeout) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Random number in [0, 1) for jitter (defaults to Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Jupiter client with per-call timeouts, jittered retries and a circuit
+ * breaker
+ *
+ * Every failure is thrown as a JupiterError.
+ */
+export class ResilientJupiterClient implements JupiterApi {
+  readonly breaker: CircuitBreaker;
+  private readonly options: ResilientJupiterOptions;
+
+  constructor(private readonly api: JupiterApi, options: ResilientJupiterOptions = {}) {
+    this.options = options;
+    this.breaker = new CircuitBreaker(options.circuitBreaker);
+  }
+
+  async quoteGet(request: QuoteGetRequest): Promise<QuoteResponse> {
+    return this.call(init => this.api.quoteGet(request, init));
+  }
+
+  async swapPost(request: SwapPostRequest): Promise<SwapResponse> {
+    return this.call(init => this.api.swapPost(request, init));
+  }
+
+  private async call<T>(attempt: (init: RequestInit) => Promise<T>): Promise<T> {
+    const maxRetries = this.options.maxRetries ?? 2;
+
+    for (let retry = 0; ; retry++) {
+      this.breaker.acquire();
+
+      let error: JupiterError;
+      try {
+        const result = await this.withTimeout(attempt);
+        this.breaker.onSuccess();
+        return result;
+      } catch (thrown) {
+        error = await classifyJupiterError(thrown);
+      }
+
+      // Bad requests and missing routes are answers, not upstream failures
+      if (error.retryable) {
+        this.breaker.onFailure();
+      } else {
+        this.breaker.onIgnored();
+      }
+
+      if (!error.retryable || retry >= maxRetries) throw error;
+
+      await this.sleep(this.retryDelay(retry, error));
+    }
+  }
+
+  private async withTimeout<T>(attempt: (init: RequestInit) => Promise<T>): Promise<T> {
+    const timeoutMs = this.options.timeoutMs ?? 5_000;
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new JupiterError('timeout', `Jupiter did not respond within ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([attempt({ signal: controller.signal }), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private retryDelay(retry: number, error: JupiterError): number {
+    const base = this.options.retryBaseDelayMs ?? 200;
+    const max = this.options.maxRetryDelayMs ?? 5_000;
+    const random = this.options.random ?? Math.random;
+
+    // Full jitter, but never sooner than Jupiter asked
+    const backoff = random() * base * 2 ** retry;
+    return Math.min(max, Math.max(backoff, error.options.retryAfterMs ?? 0));
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return this.options.sleep
+      ? this.options.sleep(ms)
+      : new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
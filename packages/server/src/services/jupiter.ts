@@ -1,15 +1,184 @@
-import { createJupiterApiClient, type QuoteGetRequest, type QuoteResponse } from '@jup-ag/api';
+import {
+  Configuration,
+  SwapApi,
+  createJupiterApiClient,
+  type QuoteGetRequest,
+  type QuoteResponse,
+} from '@jup-ag/api';
+import { QuoteCache, amountBucket, type QuoteCacheKeys, type QuoteCacheStats } from './quote-cache.js';
+import { JupiterError, ResilientJupiterClient, type CircuitState } from './jupiter-client.js';
+import { getTokenMetadata } from './token-metadata.js';
 
-const jupiter = createJupiterApiClient();
+export { JupiterError } from './jupiter-client.js';
+
+/** Wrapped SOL mint */
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/** Default Jupiter price API */
+const DEFAULT_PRICE_API_URL = 'https://api.jup.ag/price/v2';
+
+/**
+ * Headers authenticating Jupiter requests with JUPITER_API_KEY, if set
+ */
+function jupiterHeaders(): Record<string, string> | undefined {
+  const apiKey = process.env.JUPITER_API_KEY;
+  return apiKey ? { 'x-api-key': apiKey } : undefined;
+}
+
+/**
+ * Creates the quote/swap API client, pointed at JUPITER_API_URL if set
+ * (e.g. a self-hosted instance)
+ */
+function createSwapApi(): SwapApi {
+  const baseUrl = process.env.JUPITER_API_URL;
+  if (!baseUrl) {
+    const apiKey = process.env.JUPITER_API_KEY;
+    return createJupiterApiClient(apiKey ? { apiKey } : undefined);
+  }
+
+  return new SwapApi(new Configuration({
+    basePath: baseUrl.replace(/\/+$/, ''),
+    headers: jupiterHeaders(),
+  }));
+}
+
+/**
+ * Builds a Jupiter price API URL for some mints (JUPITER_PRICE_API_URL
+ * overrides the public API)
+ */
+function priceUrl(mints: string): string {
+  const baseUrl = (process.env.JUPITER_PRICE_API_URL || DEFAULT_PRICE_API_URL).replace(/\/+$/, '');
+  return `${baseUrl}?ids=${mints}`;
+}
+
+// Jupiter client with timeouts, retries and a circuit breaker (lazy initialized)
+let jupiter: ResilientJupiterClient | null = null;
+
+function getJupiter(): ResilientJupiterClient {
+  if (!jupiter) {
+    const timeoutMs = parseInt(process.env.JUPITER_TIMEOUT_MS ?? '');
+    const maxRetries = parseInt(process.env.JUPITER_MAX_RETRIES ?? '');
+    jupiter = new ResilientJupiterClient(createSwapApi(), {
+      timeoutMs: Number.isNaN(timeoutMs) ? undefined : timeoutMs,
+      maxRetries: Number.isNaN(maxRetries) ? undefined : maxRetries,
+    });
+  }
+  return jupiter;
+}
+
+// Quote cache (lazy initialized, so it reads the environment after dotenv has loaded)
+let quoteCache: QuoteCache<QuoteResponse> | null = null;
+
+function getQuoteCache(): QuoteCache<QuoteResponse> {
+  if (!quoteCache) {
+    const ttlMs = parseInt(process.env.QUOTE_CACHE_TTL_MS ?? '');
+    quoteCache = new QuoteCache({ ttlMs: Number.isNaN(ttlMs) ? undefined : ttlMs });
+  }
+  return quoteCache;
+}
+
+/** Significant digits of the amount that quotes share a cache slot by */
+function quoteCacheAmountDigits(): number {
+  const digits = parseInt(process.env.QUOTE_CACHE_AMOUNT_DIGITS ?? '');
+  return Number.isNaN(digits) || digits < 1 ? 6 : digits;
+}
+
+/**
+ * Which side of a swap is fixed: the input amount (ExactIn) or the output
+ * amount (ExactOut)
+ */
+export type SwapMode = 'ExactIn' | 'ExactOut';
+
+/**
+ * Whether a request value is a supported swap mode
+ */
+export function isSwapMode(value: unknown): value is SwapMode {
+  return value === 'ExactIn' || value === 'ExactOut';
+}
+
+/**
+ * Jupiter routing controls
+ */
+export interface RouteOptions {
+  dexes?: string[];
+  excludeDexes?: string[];
+  onlyDirectRoutes?: boolean;
+  restrictIntermediateTokens?: boolean;
+  maxAccounts?: number;
+  platformFeeBps?: number;
+  asLegacyTransaction?: boolean;
+}
+
+/**
+ * Reads routing controls from a JSON body or query string
+ *
+ * Accepts query-string forms too: 'true'/'false' for flags, numeric strings,
+ * and comma-separated DEX lists.
+ *
+ * @returns The options, or an error message for the first invalid field
+ */
+export function parseRouteOptions(input: Record<string, unknown>): { options: RouteOptions } | { error: string } {
+  const options: RouteOptions = {};
+
+  for (const key of ['dexes', 'excludeDexes'] as const) {
+    const value = input[key];
+    if (value === undefined) continue;
+
+    const list = typeof value === 'string' ? value.split(',').map(dex => dex.trim()).filter(Boolean) : value;
+    if (!Array.isArray(list) || !list.every(dex => typeof dex === 'string' && dex.length > 0)) {
+      return { error: `${key} must be a list of DEX labels` };
+    }
+    options[key] = list;
+  }
+
+  for (const key of ['onlyDirectRoutes', 'restrictIntermediateTokens', 'asLegacyTransaction'] as const) {
+    const value = input[key];
+    if (value === undefined) continue;
+
+    if (value !== true && value !== false && value !== 'true' && value !== 'false') {
+      return { error: `${key} must be a boolean` };
+    }
+    options[key] = value === true || value === 'true';
+  }
+
+  const limits = { maxAccounts: [1, 256], platformFeeBps: [0, 10_000] } as const;
+  for (const key of ['maxAccounts', 'platformFeeBps'] as const) {
+    const value = input[key];
+    if (value === undefined) continue;
+
+    const number = typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value) : value;
+    const [min, max] = limits[key];
+    if (typeof number !== 'number' || !Number.isInteger(number) || number < min || number > max) {
+      return { error: `${key} must be an integer from ${min} to ${max}` };
+    }
+    options[key] = number;
+  }
+
+  if (options.dexes && options.excludeDexes) {
+    return { error: 'dexes and excludeDexes cannot be combined' };
+  }
+
+  return { options };
+}
 
 /**
  * Parameters for getting a Jupiter quote
  */
-export interface GetQuoteParams {
+export interface GetQuoteParams extends RouteOptions {
   inputMint: string;
   outputMint: string;
+  /** Input amount, or output amount for ExactOut swaps */
   amount: number;
   slippageBps?: number;
+  swapMode?: SwapMode;
+}
+
+/**
+ * Options for a single quote lookup
+ */
+export interface QuoteLookupOptions {
+  /** Fetch a fresh quote instead of using the cache */
+  bypassCache?: boolean;
 }
 
 /**
@@ -20,42 +189,121 @@ export interface BuildSwapParams {
   userPublicKey: string;
   priorityFee?: number;
   mevProtection?: boolean;
+  asLegacyTransaction?: boolean;
+  /** Token account that receives the quote's platform fee */
+  feeAccount?: string;
+}
+
+/**
+ * Swap transaction built by Jupiter
+ */
+export interface EnhancedSwapTransaction {
+  /** Base64-encoded unsigned versioned transaction */
+  swapTransaction: string;
+  /** Last block height at which the transaction's blockhash is valid */
+  lastValidBlockHeight?: number;
+}
+
+/**
+ * Keys a quote request is cached and coalesced under
+ *
+ * The cache key rounds the amount, so requests for nearly the same amount
+ * share a cache slot; the request key uses the exact amount.
+ */
+function quoteCacheKeys(request: QuoteGetRequest): QuoteCacheKeys {
+  const { amount, ...rest } = request;
+  const key = (value: number) => JSON.stringify({ ...rest, amount: value });
+
+  return {
+    cacheKey: key(amountBucket(amount, quoteCacheAmountDigits())),
+    requestKey: key(amount),
+  };
 }
 
 /**
  * Gets a swap quote from Jupiter
+ *
+ * Quotes are cached briefly (QUOTE_CACHE_TTL_MS) and identical concurrent
+ * requests share one upstream call. A cached quote is only returned for
+ * exactly the amount it was fetched for.
  */
-export async function getJupiterQuote(params: GetQuoteParams): Promise<QuoteResponse> {
+export async function getJupiterQuote(
+  params: GetQuoteParams,
+  options: QuoteLookupOptions = {}
+): Promise<QuoteResponse> {
   const quoteRequest: QuoteGetRequest = {
     inputMint: params.inputMint,
     outputMint: params.outputMint,
     amount: params.amount,
     slippageBps: params.slippageBps ?? 50,
-    restrictIntermediateTokens: true,
+    swapMode: params.swapMode ?? 'ExactIn',
+    dexes: params.dexes,
+    excludeDexes: params.excludeDexes,
+    onlyDirectRoutes: params.onlyDirectRoutes,
+    restrictIntermediateTokens: params.restrictIntermediateTokens ?? true,
+    maxAccounts: params.maxAccounts,
+    platformFeeBps: params.platformFeeBps,
+    asLegacyTransaction: params.asLegacyTransaction,
   };
 
-  const quote = await jupiter.quoteGet(quoteRequest);
+  const fixedAmount = (quote: QuoteResponse) =>
+    quoteRequest.swapMode === 'ExactOut' ? quote.outAmount : quote.inAmount;
 
-  if (!quote) {
-    throw new Error('No route found for the requested swap');
-  }
+  return getQuoteCache().get(
+    quoteCacheKeys(quoteRequest),
+    async () => {
+      const quote = await getJupiter().quoteGet(quoteRequest);
+
+      if (!quote) {
+        throw new JupiterError('no_route', 'No route found for the requested swap');
+      }
+
+      return quote;
+    },
+    {
+      bypass: options.bypassCache,
+      accept: quote => fixedAmount(quote) === String(params.amount),
+    }
+  );
+}
 
-  return quote;
+/**
+ * Quote cache hit/miss counters
+ */
+export function getQuoteCacheStats(): QuoteCacheStats {
+  return getQuoteCache().getStats();
+}
+
+/**
+ * Drops every cached quote and resets the counters
+ */
+export function clearQuoteCache(): void {
+  getQuoteCache().clear();
+}
+
+/**
+ * State of the circuit breaker guarding Jupiter
+ */
+export function getJupiterCircuitState(): CircuitState {
+  return getJupiter().breaker.state;
 }
 
 /**
  * Builds an enhanced swap transaction with optional optimizations
  */
-export async function buildEnhancedSwap(params: BuildSwapParams): Promise<string> {
-  const { swapTransaction } = await jupiter.swapPost({
+export async function buildEnhancedSwap(params: BuildSwapParams): Promise<EnhancedSwapTransaction> {
+  const { swapTransaction, lastValidBlockHeight } = await getJupiter().swapPost({
     swapRequest: {
       quoteResponse: params.quote,
       userPublicKey: params.userPublicKey,
       dynamicComputeUnitLimit: true,
-      // Apply custom priority fee if provided, otherwise use auto
+      asLegacyTransaction: params.asLegacyTransaction,
+      feeAccount: params.feeAccount,
+      // Apply custom priority fee if provided; without one Jupiter picks the
+      // fee itself (the API client cannot serialize the string 'auto')
       prioritizationFeeLamports: params.priorityFee
         ? { jitoTipLamports: params.priorityFee }
-        : 'auto',
+        : undefined,
       // Use Jito for MEV protection if requested
       ...(params.mevProtection && {
         prioritizationFeeLamports: {
@@ -65,68 +313,65 @@ export async function buildEnhancedSwap(params: BuildSwapParams): Promise<string
     },
   });
 
-  return swapTransaction;
+  return { swapTransaction, lastValidBlockHeight };
 }
 
 /**
- * Gets the current SOL price in USD
+ * Gets the USD price of a token from Jupiter, if it has one
  */
-export async function getSolPrice(): Promise<number> {
+export async function getTokenPrice(mint: string): Promise<number | undefined> {
   try {
-    // Use Jupiter's price API
-    const response = await fetch(
-      'https://api.jup.ag/price/v2?ids=So11111111111111111111111111111111111111112'
-    );
+    const response = await fetch(priceUrl(mint), { headers: jupiterHeaders() });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch SOL price');
-    }
-
-    const data = await response.json();
-    const solData = data.data?.['So11111111111111111111111111111111111111112'];
-
-    if (solData?.price) {
-      return parseFloat(solData.price);
+      return undefined;
     }
 
-    // Fallback price
-    return 150;
+    const data = await response.json() as { data?: Record<string, { price?: string } | null> };
+    const price = parseFloat(data.data?.[mint]?.price ?? '');
+    return Number.isNaN(price) ? undefined : price;
   } catch {
-    // Fallback if price fetch fails
-    return 150;
+    return undefined;
   }
 }
 
 /**
- * Gets token info from Jupiter
+ * Gets the current SOL price in USD, falling back to $150 if Jupiter has none
+ */
+export async function getSolPrice(): Promise<number> {
+  return (await getTokenPrice(SOL_MINT)) ?? 150;
+}
+
+/**
+ * Values an amount of a token in atomic units in USD, if the token is
+ * known and has a price
+ */
+export async function getUsdValue(mint: string, amount: number): Promise<number | undefined> {
+  const [metadata, price] = await Promise.all([getTokenMetadata(mint), getTokenPrice(mint)]);
+  if (!metadata || price === undefined) return undefined;
+
+  return (amount / 10 ** metadata.decimals) * price;
+}
+
+/**
+ * Gets token info: decimals from the mint on chain, symbol and name from the
+ * token list, price from Jupiter
  */
 export async function getTokenInfo(mint: string): Promise<{
   symbol: string;
   name: string;
   decimals: number;
+  logoURI?: string;
   price?: number;
 } | null> {
-  try {
-    const response = await fetch(`https://api.jup.ag/price/v2?ids=${mint}`);
-
-    if (!response.ok) {
-      return null;
-    }
+  const [metadata, price] = await Promise.all([getTokenMetadata(mint), getTokenPrice(mint)]);
+  if (!metadata) return null;
 
-    const data = await response.json();
-    const tokenData = data.data?.[mint];
-
-    if (tokenData) {
-      return {
-        symbol: tokenData.mintSymbol || 'UNKNOWN',
-        name: tokenData.mintSymbol || 'Unknown Token',
-        decimals: 6, // Most SPL tokens use 6 decimals
-        price: tokenData.price ? parseFloat(tokenData.price) : undefined,
-      };
-    }
-
-    return null;
-  } catch {
-    return null;
-  }
+  return {
+    symbol: metadata.symbol,
+    name: metadata.name,
+    decimals: metadata.decimals,
+    ...(metadata.logoURI && { logoURI: metadata.logoURI }),
+    price,
+  };
 }
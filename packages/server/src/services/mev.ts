@@ -1,4 +1,6 @@
 import type { QuoteResponse } from '@jup-ag/api';
+import { getUsdValue } from './jupiter.js';
+import { getTokenDecimals } from './token-metadata.js';
 
 /**
  * MEV (Maximal Extractable Value) risk analysis
@@ -49,12 +51,15 @@ export async function getMEVAnalysis(
 ): Promise<MEVAnalysis> {
   const routePlan = quote.routePlan || [];
   const priceImpact = parseFloat(quote.priceImpactPct || '0');
-  const swapAmount = parseInt(quote.inAmount);
+  // ExactOut inputs can rise up to the slippage-adjusted maximum
+  const swapAmount = quote.swapMode === 'ExactOut'
+    ? parseInt(quote.otherAmountThreshold || quote.inAmount)
+    : parseInt(quote.inAmount);
 
   // Calculate MEV risk factors
   const factors = {
     poolLiquidity: assessPoolLiquidity(routePlan),
-    tradeSize: assessTradeSize(swapAmount, inputMint),
+    tradeSize: assessTradeSize(swapAmount, inputMint, await getTokenDecimals(inputMint)),
     tokenVolatility: assessVolatility(inputMint, outputMint),
     recentMevActivity: await checkRecentMevActivity(inputMint, outputMint),
   };
@@ -88,7 +93,7 @@ export async function getMEVAnalysis(
   // Cap risk score at 100
   riskScore = Math.min(riskScore, 100);
 
-  const estimatedMevCost = calculateEstimatedMevCost(quote, riskScore);
+  const estimatedMevCost = await calculateEstimatedMevCost(quote, inputMint, outputMint, riskScore);
 
   return {
     riskScore: Math.round(riskScore),
@@ -112,26 +117,25 @@ function assessPoolLiquidity(routePlan: any[]): 'low' | 'medium' | 'high' {
 /**
  * Assesses trade size relative to typical swap volumes
  */
-function assessTradeSize(amount: number, inputMint: string): 'small' | 'medium' | 'large' {
-  // SOL-based assessment (amount in lamports)
+export function assessTradeSize(amount: number, inputMint: string, decimals: number): 'small' | 'medium' | 'large' {
+  // Amount in whole tokens
+  const normalizedAmount = amount / 10 ** decimals;
+
+  // SOL-based assessment
   if (inputMint === 'So11111111111111111111111111111111111111112') {
-    const solAmount = amount / 1_000_000_000;
-    if (solAmount > 100) return 'large';
-    if (solAmount > 10) return 'medium';
+    if (normalizedAmount > 100) return 'large';
+    if (normalizedAmount > 10) return 'medium';
     return 'small';
   }
 
-  // USDC/USDT-based assessment (amount in atomic units, 6 decimals)
+  // USDC/USDT-based assessment
   if (STABLECOINS.has(inputMint)) {
-    const usdAmount = amount / 1_000_000;
-    if (usdAmount > 10000) return 'large';
-    if (usdAmount > 1000) return 'medium';
+    if (normalizedAmount > 10000) return 'large';
+    if (normalizedAmount > 1000) return 'medium';
     return 'small';
   }
 
   // For other tokens, use a general heuristic
-  // Assuming 6 decimal tokens
-  const normalizedAmount = amount / 1_000_000;
   if (normalizedAmount > 10000) return 'large';
   if (normalizedAmount > 1000) return 'medium';
   return 'small';
@@ -170,14 +174,22 @@ async function checkRecentMevActivity(inputMint: string, outputMint: string): Pr
 }
 
 /**
- * Calculates estimated MEV cost based on quote and risk score
+ * Calculates estimated MEV cost in USD based on quote and risk score
  */
-function calculateEstimatedMevCost(quote: QuoteResponse, riskScore: number): number {
-  const outAmount = parseInt(quote.outAmount);
+async function calculateEstimatedMevCost(
+  quote: QuoteResponse,
+  inputMint: string,
+  outputMint: string,
+  riskScore: number
+): Promise<number> {
+  // MEV is taken from the variable side: less output, or more input for ExactOut
+  const exactOut = quote.swapMode === 'ExactOut';
+  const variableAmount = parseInt(exactOut ? quote.inAmount : quote.outAmount);
   // High risk trades lose 0.5-2% to MEV
   const mevPercentage = (riskScore / 100) * 0.02;
-  // Assuming output is in USDC (6 decimals) or converting
-  return Number(((outAmount * mevPercentage) / 1_000_000).toFixed(4));
+  // Tokens without a price have no USD estimate
+  const mevUsd = await getUsdValue(exactOut ? inputMint : outputMint, variableAmount * mevPercentage);
+  return Number((mevUsd ?? 0).toFixed(4));
 }
 
 /**
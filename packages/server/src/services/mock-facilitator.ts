@@ -0,0 +1,235 @@
+import express, { type Express } from 'express';
+import { randomBytes } from 'crypto';
+import bs58 from 'bs58';
+import type { Facilitator, VerifyResponse, SettleResponse, SupportedKind } from './facilitator.js';
+import {
+  checkPaymentPayload,
+  type PaymentPayload,
+  type PaymentRequirements,
+} from '../middleware/x402.js';
+import { checkSessionPayload } from '../middleware/session.js';
+
+/**
+ * Record of a payment handled by the mock facilitator
+ */
+export interface MockPaymentRecord {
+  payer?: string;
+  nonce: string;
+  amount: string;
+  resource: string;
+  transaction?: string;
+}
+
+/**
+ * In-process x402 facilitator for local development and tests
+ *
+ * Verifies payload signatures and signed terms exactly like the middleware,
+ * then "settles" by minting a random transaction signature instead of sending
+ * anything on chain. Rejections can be scripted with `failNextVerify` and
+ * `failNextSettle`. Session payloads may be settled repeatedly until their
+ * signed budget is spent.
+ */
+export class MockFacilitator implements Facilitator {
+  /** Payments that passed verification */
+  readonly verified: MockPaymentRecord[] = [];
+  /** Payments that were settled */
+  readonly settled: MockPaymentRecord[] = [];
+
+  private settledNonces = new Set<string>();
+  private sessionSpend = new Map<string, number>();
+  private verifyFailures: string[] = [];
+  private settleFailures: string[] = [];
+
+  /**
+   * Makes the next verify call report the payload as invalid
+   */
+  failNextVerify(reason: string = 'invalid_payment'): void {
+    this.verifyFailures.push(reason);
+  }
+
+  /**
+   * Makes the next settle call fail
+   */
+  failNextSettle(reason: string = 'settlement_failed'): void {
+    this.settleFailures.push(reason);
+  }
+
+  async verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    const scriptedFailure = this.verifyFailures.shift();
+    if (scriptedFailure) {
+      return { isValid: false, invalidReason: scriptedFailure };
+    }
+
+    const result = this.validate(payload, requirements);
+    if (result.isValid) {
+      this.verified.push(toRecord(result.payer, requirements));
+    }
+    return result;
+  }
+
+  async settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+    const scriptedFailure = this.settleFailures.shift();
+    if (scriptedFailure) {
+      return { success: false, errorReason: scriptedFailure, transaction: '', network: requirements.network };
+    }
+
+    const verification = this.validate(payload, requirements);
+    if (!verification.isValid) {
+      return {
+        success: false,
+        errorReason: verification.invalidReason,
+        transaction: '',
+        network: requirements.network,
+        payer: verification.payer,
+      };
+    }
+
+    if (payload.scheme === 'session') {
+      const session = JSON.parse(payload.payload.message);
+      const key = `${verification.payer}:${session.sessionId}`;
+      const spent = (this.sessionSpend.get(key) ?? 0) + Number(requirements.amount);
+
+      if (spent > Number(session.maxAmount)) {
+        return {
+          success: false,
+          errorReason: 'Session budget exceeded',
+          transaction: '',
+          network: requirements.network,
+          payer: verification.payer,
+        };
+      }
+      this.sessionSpend.set(key, spent);
+    } else if (this.settledNonces.has(requirements.nonce)) {
+      return {
+        success: false,
+        errorReason: 'Payment already settled',
+        transaction: '',
+        network: requirements.network,
+        payer: verification.payer,
+      };
+    }
+
+    const transaction = bs58.encode(randomBytes(64));
+    this.settledNonces.add(requirements.nonce);
+    this.settled.push({ ...toRecord(verification.payer, requirements), transaction });
+
+    return {
+      success: true,
+      transaction,
+      network: requirements.network,
+      payer: verification.payer,
+    };
+  }
+
+  /**
+   * Checks the payload signature, signed terms and nonce (or session id)
+   */
+  private validate(payload: PaymentPayload, requirements: PaymentRequirements): VerifyResponse {
+    if (payload.scheme === 'session') {
+      const session = checkSessionPayload(payload, requirements);
+      if (!session.valid) {
+        return { isValid: false, invalidReason: session.error };
+      }
+      if (session.message.sessionId !== requirements.nonce) {
+        return { isValid: false, invalidReason: 'Session id does not match requirements', payer: session.payer };
+      }
+      return { isValid: true, payer: session.payer };
+    }
+
+    const check = checkPaymentPayload(payload, requirements);
+    if (!check.valid) {
+      return { isValid: false, invalidReason: check.error };
+    }
+
+    if (check.message.nonce !== requirements.nonce) {
+      return { isValid: false, invalidReason: 'Signed nonce does not match requirements', payer: check.payer };
+    }
+
+    return { isValid: true, payer: check.payer };
+  }
+
+  /**
+   * Payment kinds the mock facilitator accepts
+   */
+  supported(): SupportedKind[] {
+    return [
+      { x402Version: 1, scheme: 'exact', network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp' },
+      { x402Version: 1, scheme: 'exact', network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1' },
+      { x402Version: 1, scheme: 'session', network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp' },
+      { x402Version: 1, scheme: 'session', network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1' },
+    ];
+  }
+}
+
+function toRecord(payer: string | undefined, requirements: PaymentRequirements): MockPaymentRecord {
+  return {
+    payer,
+    nonce: requirements.nonce,
+    amount: requirements.amount,
+    resource: requirements.resource,
+  };
+}
+
+function describeError(error: unknown): string {
+  return `Malformed payment: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Creates an Express app exposing a mock facilitator over the x402
+ * facilitator HTTP protocol (`POST /verify`, `POST /settle`, `GET /supported`)
+ *
+ * @example
+ * ```typescript
+ * const facilitator = new MockFacilitator();
+ * createMockFacilitatorApp(facilitator).listen(4021);
+ * app.use(paymentMiddleware(payTo, pricing, 'http://localhost:4021'));
+ * ```
+ */
+export function createMockFacilitatorApp(facilitator: MockFacilitator = new MockFacilitator()): Express {
+  const app = express();
+  app.use(express.json());
+
+  app.post('/verify', async (req, res) => {
+    const { paymentPayload, paymentRequirements } = req.body || {};
+    if (!paymentPayload || !paymentRequirements) {
+      return res.status(400).json({ isValid: false, invalidReason: 'Missing paymentPayload or paymentRequirements' });
+    }
+
+    try {
+      const result = await facilitator.verify(paymentPayload, paymentRequirements);
+      res.status(result.isValid ? 200 : 400).json(result);
+    } catch (error) {
+      res.status(400).json({ isValid: false, invalidReason: describeError(error) });
+    }
+  });
+
+  app.post('/settle', async (req, res) => {
+    const { paymentPayload, paymentRequirements } = req.body || {};
+    if (!paymentPayload || !paymentRequirements) {
+      return res.status(400).json({
+        success: false,
+        errorReason: 'Missing paymentPayload or paymentRequirements',
+        transaction: '',
+        network: '',
+      });
+    }
+
+    try {
+      const result = await facilitator.settle(paymentPayload, paymentRequirements);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        errorReason: describeError(error),
+        transaction: '',
+        network: paymentRequirements.network ?? '',
+      });
+    }
+  });
+
+  app.get('/supported', (req, res) => {
+    res.json({ kinds: facilitator.supported() });
+  });
+
+  return app;
+}
@@ -0,0 +1,106 @@
+import { assessTradeSize } from './mev.js';
+import { getTokenMetadataService } from './token-metadata.js';
+
+/**
+ * Enhanced swap price components in micro-USD
+ */
+export const ENHANCED_SWAP_PRICES = {
+  /** Quote and optimized swap transaction */
+  base: 1_000,
+  /** MEV risk analysis */
+  mevProtection: 2_000,
+  /** Priority fee recommendation */
+  optimizePriorityFee: 1_000,
+  /** Route analytics */
+  includeAnalytics: 1_000,
+  /** Surcharge by trade size */
+  tradeSize: {
+    small: 0,
+    medium: 2_000,
+    large: 5_000,
+  },
+} as const;
+
+/**
+ * Prices an enhanced swap request by the features it asks for and its size
+ *
+ * Depends only on the request body, so the 402 challenge and the paid retry
+ * of the same request always agree on the amount. Malformed bodies are priced
+ * at the base rate and rejected by the route handler.
+ */
+export function getEnhancedSwapPrice(body: any): string {
+  return formatMicros(enhancedSwapMicros(body));
+}
+
+/** Most quotes accepted in one batch request */
+export const MAX_QUOTE_BATCH_SIZE = 25;
+
+/**
+ * Prices a premium batch quote as the sum of its items, each priced like
+ * an enhanced swap request
+ *
+ * Bodies without a valid `requests` array are priced at the base rate and
+ * rejected by the route handler.
+ */
+export function getBatchQuotePrice(body: any): string {
+  const requests = body?.requests;
+  if (!Array.isArray(requests) || requests.length === 0 || requests.length > MAX_QUOTE_BATCH_SIZE) {
+    return formatMicros(ENHANCED_SWAP_PRICES.base);
+  }
+
+  return formatMicros(requests.reduce((sum: number, item: unknown) => sum + enhancedSwapMicros(item), 0));
+}
+
+/**
+ * Enhanced swap price in micro-USD
+ */
+function enhancedSwapMicros(body: any): number {
+  let micros: number = ENHANCED_SWAP_PRICES.base;
+
+  if (body?.mevProtection) micros += ENHANCED_SWAP_PRICES.mevProtection;
+  if (body?.optimizePriorityFee) micros += ENHANCED_SWAP_PRICES.optimizePriorityFee;
+  if (body?.includeAnalytics) micros += ENHANCED_SWAP_PRICES.includeAnalytics;
+
+  // ExactOut amounts are in the output token. Decimals come from the token
+  // list only, never the network, so the price stays deterministic
+  const amountMint = body?.swapMode === 'ExactOut' ? body?.outputMint : body?.inputMint;
+  if (typeof body?.amount === 'number' && body.amount > 0 && typeof amountMint === 'string') {
+    const decimals = getTokenMetadataService().getListed(amountMint)?.decimals ?? 6;
+    micros += ENHANCED_SWAP_PRICES.tradeSize[assessTradeSize(body.amount, amountMint, decimals)];
+  }
+
+  return micros;
+}
+
+function formatMicros(micros: number): string {
+  return `$${(micros / 1_000_000).toFixed(6)}`;
+}
+
+/**
+ * Credit top-up limits in USD
+ */
+export const CREDIT_TOP_UP_LIMITS = {
+  min: 0.1,
+  max: 100,
+} as const;
+
+/**
+ * Whether a top-up request body carries a valid USD amount
+ */
+export function isValidTopUpAmount(amount: unknown): amount is number {
+  return typeof amount === 'number' &&
+         Number.isFinite(amount) &&
+         amount >= CREDIT_TOP_UP_LIMITS.min &&
+         amount <= CREDIT_TOP_UP_LIMITS.max;
+}
+
+/**
+ * Prices a credit top-up at the USD amount requested
+ *
+ * Invalid amounts are priced at the minimum and rejected by the route
+ * handler, so no payment is settled for them.
+ */
+export function getCreditTopUpPrice(body: any): string {
+  const amount = isValidTopUpAmount(body?.amount) ? body.amount : CREDIT_TOP_UP_LIMITS.min;
+  return `$${amount.toFixed(6)}`;
+}
@@ -1,6 +1,6 @@
-import { Connection } from '@solana/web3.js';
 import type { QuoteResponse } from '@jup-ag/api';
-import { getSolPrice } from './jupiter.js';
+import { getSolPrice, getUsdValue } from './jupiter.js';
+import { getConnection } from './connection.js';
 
 /**
  * Priority fee recommendation for optimal transaction landing
@@ -27,17 +27,6 @@ export interface PriorityFeeRecommendation {
   };
 }
 
-// Solana connection (lazy initialized)
-let connection: Connection | null = null;
-
-function getConnection(): Connection {
-  if (!connection) {
-    const rpcUrl = process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com';
-    connection = new Connection(rpcUrl);
-  }
-  return connection;
-}
-
 /**
  * Gets optimal priority fee recommendation based on current network conditions
  */
@@ -72,8 +61,8 @@ export async function getOptimalPriorityFee(quote: QuoteResponse): Promise<Prior
       : 'low';
 
   // Analyze trade characteristics
-  const tradeSize = parseInt(quote.inAmount);
-  const isLargeTrade = tradeSize > 1_000_000_000; // > 1000 USDC equivalent
+  const tradeValue = await getUsdValue(quote.inputMint, parseInt(quote.inAmount));
+  const isLargeTrade = tradeValue !== undefined && tradeValue > 1000;
   const priceImpact = parseFloat(quote.priceImpactPct || '0');
   const isHighImpact = priceImpact > 1;
 
@@ -0,0 +1,145 @@
+/**
+ * Options for a quote cache
+ */
+export interface QuoteCacheOptions {
+  /** How long a quote is served from the cache in ms (0 only coalesces in-flight requests) */
+  ttlMs?: number;
+  /** Most quotes kept at once; the oldest are evicted first */
+  maxEntries?: number;
+  /** Clock in ms since epoch (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Cache effectiveness counters
+ */
+export interface QuoteCacheStats {
+  /** Lookups answered from the cache */
+  hits: number;
+  /** Lookups that called upstream */
+  misses: number;
+  /** Lookups that joined an identical in-flight upstream call */
+  coalesced: number;
+  /** Quotes currently cached */
+  size: number;
+}
+
+/**
+ * Keys a quote is cached and coalesced under
+ */
+export interface QuoteCacheKeys {
+  /** Key of the cached quote; requests for nearby amounts may share it */
+  cacheKey: string;
+  /** Key of the upstream request; only identical requests share it */
+  requestKey: string;
+}
+
+/**
+ * Options for a single lookup
+ */
+export interface QuoteLookupOptions<T> {
+  /** Skip the cache and in-flight requests and fetch a fresh quote */
+  bypass?: boolean;
+  /** Whether a cached quote may answer this lookup (defaults to any) */
+  accept?: (value: T) => boolean;
+}
+
+const DEFAULT_TTL_MS = 2_000;
+const DEFAULT_MAX_ENTRIES = 1_000;
+
+/**
+ * Rounds an amount to a number of significant digits, so that requests for
+ * nearly the same amount share a cache entry
+ */
+export function amountBucket(amount: number, significantDigits: number): number {
+  if (amount <= 0) return amount;
+
+  const scale = 10 ** Math.max(0, Math.floor(Math.log10(amount)) + 1 - significantDigits);
+  return Math.round(amount / scale) * scale;
+}
+
+/**
+ * Short-lived cache of upstream quotes
+ *
+ * Quotes are served until they expire. Concurrent identical lookups share
+ * one upstream call; failures are never cached.
+ */
+export class QuoteCache<T> {
+  private entries = new Map<string, { value: T; expiresAt: number }>();
+  private inFlight = new Map<string, Promise<T>>();
+  private stats = { hits: 0, misses: 0, coalesced: 0 };
+  private ttlMs: number;
+  private maxEntries: number;
+  private now: () => number;
+
+  constructor(options: QuoteCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Returns a cached quote, joins an identical in-flight request, or calls
+   * `load` and caches its result
+   */
+  async get(keys: QuoteCacheKeys, load: () => Promise<T>, options: QuoteLookupOptions<T> = {}): Promise<T> {
+    if (!options.bypass) {
+      const entry = this.entries.get(keys.cacheKey);
+      if (entry && entry.expiresAt <= this.now()) {
+        this.entries.delete(keys.cacheKey);
+      } else if (entry && (options.accept?.(entry.value) ?? true)) {
+        this.stats.hits++;
+        return entry.value;
+      }
+
+      const pending = this.inFlight.get(keys.requestKey);
+      if (pending) {
+        this.stats.coalesced++;
+        return pending;
+      }
+    }
+
+    this.stats.misses++;
+    const request = load().then(value => {
+      this.store(keys.cacheKey, value);
+      return value;
+    });
+
+    this.inFlight.set(keys.requestKey, request);
+    const clear = () => {
+      if (this.inFlight.get(keys.requestKey) === request) this.inFlight.delete(keys.requestKey);
+    };
+    request.then(clear, clear);
+
+    return request;
+  }
+
+  /**
+   * Current counters and cache size
+   */
+  getStats(): QuoteCacheStats {
+    return { ...this.stats, size: this.entries.size };
+  }
+
+  /**
+   * Drops every cached quote and resets the counters
+   */
+  clear(): void {
+    this.entries.clear();
+    this.stats = { hits: 0, misses: 0, coalesced: 0 };
+  }
+
+  private store(key: string, value: T): void {
+    if (this.ttlMs <= 0) return;
+
+    // Re-inserting moves the key to the end of the eviction order
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + this.ttlMs });
+
+    const now = this.now();
+    for (const [oldKey, entry] of this.entries) {
+      if (this.entries.size <= this.maxEntries && entry.expiresAt > now) break;
+      this.entries.delete(oldKey);
+    }
+  }
+}
@@ -0,0 +1,415 @@
+import express, { type Express } from 'express';
+import { createHash } from 'crypto';
+import bs58 from 'bs58';
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+/**
+ * How the stub answers quote requests
+ *
+ * - direct: a single-hop route
+ * - multi_hop: a two-hop route through USDC (SOL or USDT for USDC pairs)
+ * - no_route: 400 with Jupiter's COULD_NOT_FIND_ANY_ROUTE error
+ * - rate_limit: 429 with Retry-After on every endpoint
+ */
+export type StubJupiterScenario = 'direct' | 'multi_hop' | 'no_route' | 'rate_limit';
+
+/**
+ * Token the stub can route, with its fixed USD price
+ */
+export interface StubToken {
+  symbol: string;
+  decimals: number;
+  price: number;
+}
+
+/**
+ * Request received by the stub
+ */
+export interface StubJupiterRequest {
+  method: string;
+  path: string;
+  query: Record<string, unknown>;
+  body?: unknown;
+}
+
+/** Tokens the stub routes by default */
+export const STUB_TOKENS: Record<string, StubToken> = {
+  So11111111111111111111111111111111111111112: { symbol: 'SOL', decimals: 9, price: 150 },
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: { symbol: 'USDC', decimals: 6, price: 1 },
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: { symbol: 'USDT', decimals: 6, price: 1 },
+  '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU': { symbol: 'USDC', decimals: 6, price: 1 },
+  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: { symbol: 'BONK', decimals: 5, price: 0.00002 },
+  JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: { symbol: 'JUP', decimals: 6, price: 0.8 },
+};
+
+/** Intermediate tokens for multi-hop routes, in order of preference (USDC, SOL, USDT) */
+const INTERMEDIATE_MINTS = [
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  'So11111111111111111111111111111111111111112',
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+];
+
+/** DEXes the stub routes through, in order of preference */
+const STUB_DEXES = ['Raydium', 'Whirlpool', 'Meteora DLMM'];
+
+/** Fee each hop takes, in basis points */
+const HOP_FEE_BPS = 25;
+
+/** Most recent requests the stub keeps, so a long-running stub stays bounded */
+const MAX_RECORDED_REQUESTS = 100;
+
+/** Block height the stub's blockhash expires at */
+const STUB_LAST_VALID_BLOCK_HEIGHT = 279_000_150;
+
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+const JITO_TIP_ACCOUNT = new PublicKey('96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5');
+
+/**
+ * Deterministic base58 32-byte value (addresses, blockhashes) from a seed
+ */
+function stubKey(seed: string): string {
+  return bs58.encode(createHash('sha256').update(seed).digest());
+}
+
+/**
+ * Quote request fields the stub understands
+ */
+interface StubQuoteRequest {
+  inputMint: string;
+  outputMint: string;
+  amount: number;
+  slippageBps: number;
+  swapMode: 'ExactIn' | 'ExactOut';
+  dexes?: string[];
+  excludeDexes?: string[];
+  onlyDirectRoutes?: boolean;
+  platformFeeBps?: number;
+}
+
+/**
+ * Outcome of a stubbed call: a JSON body with a status
+ */
+export interface StubResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+const NO_ROUTE: StubResponse = {
+  status: 400,
+  body: { error: 'Could not find any route', errorCode: 'COULD_NOT_FIND_ANY_ROUTE' },
+};
+
+const RATE_LIMITED: StubResponse = {
+  status: 429,
+  body: { error: 'Rate limit exceeded' },
+  headers: { 'Retry-After': '1' },
+};
+
+/**
+ * Offline stand-in for the Jupiter quote, swap and price APIs
+ *
+ * Quotes are priced deterministically from fixed token prices, with a 0.25%
+ * fee per hop. Swaps are valid unsigned versioned transactions paying from
+ * the user's wallet (a compute budget and a memo describing the swap), so
+ * they deserialize, sign and simulate like real ones but move no tokens.
+ * The scenario applies to every request until changed; `queueScenario`
+ * scripts the next quote only.
+ */
+export class StubJupiter {
+  /** Most recent requests received (up to 100), oldest first */
+  readonly requests: StubJupiterRequest[] = [];
+
+  private queued: StubJupiterScenario[] = [];
+
+  constructor(
+    public scenario: StubJupiterScenario = 'direct',
+    readonly tokens: Record<string, StubToken> = STUB_TOKENS
+  ) {}
+
+  /**
+   * Records a received request, dropping the oldest beyond the limit
+   */
+  record(request: StubJupiterRequest): void {
+    this.requests.push(request);
+    if (this.requests.length > MAX_RECORDED_REQUESTS) {
+      this.requests.splice(0, this.requests.length - MAX_RECORDED_REQUESTS);
+    }
+  }
+
+  /**
+   * Uses a scenario for the next quote only
+   */
+  queueScenario(scenario: StubJupiterScenario): void {
+    this.queued.push(scenario);
+  }
+
+  /**
+   * Answers GET /quote
+   */
+  quote(request: StubQuoteRequest): StubResponse {
+    const scenario = this.queued.shift() ?? this.scenario;
+    if (scenario === 'rate_limit') return RATE_LIMITED;
+    if (scenario === 'no_route') return NO_ROUTE;
+
+    const { inputMint, outputMint, amount, swapMode } = request;
+    if (!this.tokens[inputMint] || !this.tokens[outputMint] || inputMint === outputMint) return NO_ROUTE;
+
+    let path = [inputMint, outputMint];
+    if (scenario === 'multi_hop') {
+      if (request.onlyDirectRoutes) return NO_ROUTE;
+      const intermediate = INTERMEDIATE_MINTS.find(mint => mint !== inputMint && mint !== outputMint)!;
+      path = [inputMint, intermediate, outputMint];
+    }
+
+    const dexes = STUB_DEXES.filter(dex =>
+      (!request.dexes || request.dexes.includes(dex)) && !request.excludeDexes?.includes(dex)
+    );
+    if (dexes.length === 0) return NO_ROUTE;
+
+    // Walk the route from the fixed side: forwards for ExactIn, backwards for ExactOut
+    const hops = path.length - 1;
+    const amounts: number[] = new Array(path.length);
+    const keep = 1 - HOP_FEE_BPS / 10_000;
+    if (swapMode === 'ExactOut') {
+      amounts[hops] = amount;
+      for (let i = hops; i > 0; i--) {
+        amounts[i - 1] = Math.ceil(this.convert(amounts[i], path[i], path[i - 1]) / keep);
+      }
+    } else {
+      amounts[0] = amount;
+      for (let i = 0; i < hops; i++) {
+        amounts[i + 1] = Math.floor(this.convert(amounts[i], path[i], path[i + 1]) * keep);
+      }
+    }
+
+    const routePlan = path.slice(0, -1).map((mint, i) => {
+      const label = dexes[i % dexes.length];
+      const gross = this.convert(amounts[i], mint, path[i + 1]);
+      return {
+        swapInfo: {
+          ammKey: stubKey(`amm:${label}:${mint}:${path[i + 1]}`),
+          label,
+          inputMint: mint,
+          outputMint: path[i + 1],
+          inAmount: amounts[i].toString(),
+          outAmount: amounts[i + 1].toString(),
+          feeAmount: Math.round(gross * HOP_FEE_BPS / 10_000).toString(),
+          feeMint: path[i + 1],
+        },
+        percent: 100,
+      };
+    });
+
+    let inAmount = amounts[0];
+    let outAmount = amounts[hops];
+
+    // Platform fees come out of the output, or the input for ExactOut
+    let platformFee: { amount: string; feeBps: number } | null = null;
+    if (request.platformFeeBps) {
+      const feeBase = swapMode === 'ExactOut' ? inAmount : outAmount;
+      const fee = Math.floor(feeBase * request.platformFeeBps / 10_000);
+      platformFee = { amount: fee.toString(), feeBps: request.platformFeeBps };
+      if (swapMode === 'ExactOut') inAmount += fee;
+      else outAmount -= fee;
+    }
+
+    const slippage = request.slippageBps / 10_000;
+    const otherAmountThreshold = swapMode === 'ExactOut'
+      ? Math.ceil(inAmount * (1 + slippage))
+      : Math.floor(outAmount * (1 - slippage));
+
+    // Impact grows with trade size: 0.01% per $10,000
+    const usdValue = inAmount / 10 ** this.tokens[inputMint].decimals * this.tokens[inputMint].price;
+    const priceImpactPct = Math.min(5, usdValue / 1_000_000).toFixed(6);
+
+    return {
+      status: 200,
+      body: {
+        inputMint,
+        inAmount: inAmount.toString(),
+        outputMint,
+        outAmount: outAmount.toString(),
+        otherAmountThreshold: otherAmountThreshold.toString(),
+        swapMode,
+        slippageBps: request.slippageBps,
+        platformFee,
+        priceImpactPct,
+        routePlan,
+        contextSlot: 300_000_000,
+        timeTaken: 0.001,
+      },
+    };
+  }
+
+  /**
+   * Answers POST /swap
+   */
+  swap(body: any): StubResponse {
+    if (this.scenario === 'rate_limit') return RATE_LIMITED;
+
+    const quote = body?.quoteResponse;
+    let user: PublicKey;
+    try {
+      user = new PublicKey(body?.userPublicKey);
+    } catch {
+      return { status: 400, body: { error: 'Invalid userPublicKey' } };
+    }
+    if (!quote?.inputMint || !quote?.outputMint) {
+      return { status: 400, body: { error: 'Missing quoteResponse' } };
+    }
+
+    const instructions: TransactionInstruction[] = [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: body.dynamicComputeUnitLimit ? 200_000 : 1_400_000 }),
+    ];
+
+    const fee = body.prioritizationFeeLamports;
+    let prioritizationFeeLamports = 0;
+    if (typeof fee === 'number') {
+      prioritizationFeeLamports = fee;
+      instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: fee }));
+    } else if (fee?.jitoTipLamports) {
+      prioritizationFeeLamports = fee.jitoTipLamports;
+      instructions.push(SystemProgram.transfer({
+        fromPubkey: user,
+        toPubkey: JITO_TIP_ACCOUNT,
+        lamports: fee.jitoTipLamports,
+      }));
+    }
+
+    instructions.push(new TransactionInstruction({
+      programId: MEMO_PROGRAM_ID,
+      keys: [{ pubkey: user, isSigner: true, isWritable: false }],
+      data: Buffer.from(
+        `stub-jupiter swap ${quote.inAmount} ${quote.inputMint} -> ${quote.outAmount} ${quote.outputMint}`
+      ),
+    }));
+
+    const message = new TransactionMessage({
+      payerKey: user,
+      recentBlockhash: stubKey('stub-jupiter:blockhash'),
+      instructions,
+    });
+    const transaction = new VersionedTransaction(
+      body.asLegacyTransaction ? message.compileToLegacyMessage() : message.compileToV0Message()
+    );
+
+    return {
+      status: 200,
+      body: {
+        swapTransaction: Buffer.from(transaction.serialize()).toString('base64'),
+        lastValidBlockHeight: STUB_LAST_VALID_BLOCK_HEIGHT,
+        prioritizationFeeLamports,
+      },
+    };
+  }
+
+  /**
+   * Answers GET /price for a comma-separated list of mints
+   */
+  price(ids: string): StubResponse {
+    if (this.scenario === 'rate_limit') return RATE_LIMITED;
+
+    const data: Record<string, unknown> = {};
+    for (const id of ids.split(',').map(mint => mint.trim()).filter(Boolean)) {
+      const token = this.tokens[id];
+      data[id] = token ? { id, type: 'derivedPrice', price: token.price.toString() } : null;
+    }
+    return { status: 200, body: { data, timeTaken: 0.001 } };
+  }
+
+  /**
+   * Converts an amount between tokens at their fixed prices
+   */
+  private convert(amount: number, fromMint: string, toMint: string): number {
+    const from = this.tokens[fromMint];
+    const to = this.tokens[toMint];
+    return amount / 10 ** from.decimals * from.price / to.price * 10 ** to.decimals;
+  }
+}
+
+/**
+ * Reads a comma-separated or repeated query list
+ */
+function queryList(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  const values = Array.isArray(value) ? value : [value];
+  return values.flatMap(item => String(item).split(',')).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Creates an Express app serving a stub Jupiter API: `GET /swap/v1/quote`,
+ * `POST /swap/v1/swap` and `GET /price/v2`, plus `POST /__stub/scenario`
+ * (`{ scenario, once? }`) to switch scenarios from another process
+ *
+ * @example
+ * ```typescript
+ * createStubJupiterApp(new StubJupiter('multi_hop')).listen(8080);
+ * // JUPITER_API_URL=http://localhost:8080/swap/v1
+ * // JUPITER_PRICE_API_URL=http://localhost:8080/price/v2
+ * ```
+ */
+export function createStubJupiterApp(stub: StubJupiter = new StubJupiter()): Express {
+  const app = express();
+  app.use(express.json());
+
+  app.use((req, res, next) => {
+    stub.record({ method: req.method, path: req.path, query: req.query, body: req.body });
+    next();
+  });
+
+  const send = (res: express.Response, result: StubResponse) => {
+    if (result.headers) res.set(result.headers);
+    res.status(result.status).json(result.body);
+  };
+
+  app.get('/swap/v1/quote', (req, res) => {
+    const { inputMint, outputMint, amount, slippageBps, swapMode, onlyDirectRoutes, platformFeeBps } = req.query;
+    if (typeof inputMint !== 'string' || typeof outputMint !== 'string' || !amount) {
+      return res.status(400).json({ error: 'inputMint, outputMint and amount are required' });
+    }
+
+    send(res, stub.quote({
+      inputMint,
+      outputMint,
+      amount: parseInt(amount as string),
+      slippageBps: slippageBps ? parseInt(slippageBps as string) : 50,
+      swapMode: swapMode === 'ExactOut' ? 'ExactOut' : 'ExactIn',
+      dexes: queryList(req.query.dexes),
+      excludeDexes: queryList(req.query.excludeDexes),
+      onlyDirectRoutes: onlyDirectRoutes === 'true',
+      platformFeeBps: platformFeeBps ? parseInt(platformFeeBps as string) : undefined,
+    }));
+  });
+
+  app.post('/swap/v1/swap', (req, res) => {
+    send(res, stub.swap(req.body));
+  });
+
+  app.get('/price/v2', (req, res) => {
+    send(res, stub.price(typeof req.query.ids === 'string' ? req.query.ids : ''));
+  });
+
+  app.post('/__stub/scenario', (req, res) => {
+    const { scenario, once } = req.body || {};
+    if (!['direct', 'multi_hop', 'no_route', 'rate_limit'].includes(scenario)) {
+      return res.status(400).json({ error: 'scenario must be direct, multi_hop, no_route or rate_limit' });
+    }
+
+    if (once) {
+      stub.queueScenario(scenario);
+    } else {
+      stub.scenario = scenario;
+    }
+    res.json({ scenario: stub.scenario });
+  });
+
+  return app;
+}
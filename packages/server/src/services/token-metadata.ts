@@ -0,0 +1,243 @@
+import { readFileSync } from 'node:fs';
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { getConnection } from './connection.js';
+
+/**
+ * What the server knows about a token mint
+ */
+export interface TokenMetadata {
+  mint: string;
+  symbol: string;
+  name: string;
+  /** Decimals of the mint, read on chain when possible */
+  decimals: number;
+  logoURI?: string;
+}
+
+/**
+ * Token list entry (Solana token-list format)
+ */
+export interface TokenListEntry {
+  address: string;
+  symbol: string;
+  name: string;
+  /** Used only when the mint cannot be read on chain */
+  decimals?: number;
+  logoURI?: string;
+}
+
+/**
+ * Options for a token metadata service
+ */
+export interface TokenMetadataOptions {
+  /** Tokens to take symbol, name and logo from; later entries override earlier ones field by field */
+  tokenList?: readonly TokenListEntry[];
+  /** How long to wait for the RPC node in ms (default: 2000) */
+  timeoutMs?: number;
+  /** Most mints kept at once; the oldest are evicted first (default: 10000) */
+  maxEntries?: number;
+}
+
+/**
+ * Tokens the server knows without a token list
+ */
+export const DEFAULT_TOKEN_LIST: readonly TokenListEntry[] = [
+  { address: 'So11111111111111111111111111111111111111112', symbol: 'SOL', name: 'Wrapped SOL', decimals: 9 },
+  { address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+  { address: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', symbol: 'USDT', name: 'USDT', decimals: 6 },
+  { address: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU', symbol: 'USDC', name: 'USD Coin (Devnet)', decimals: 6 },
+  { address: '7dHbWXmci3dT8UFYWYZweBLXgycu7Y3iL6trKn1Y7ARj', symbol: 'stSOL', name: 'Lido Staked SOL', decimals: 9 },
+  { address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', symbol: 'BONK', name: 'Bonk', decimals: 5 },
+  { address: 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm', symbol: 'WIF', name: 'dogwifhat', decimals: 6 },
+  { address: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN', symbol: 'JUP', name: 'Jupiter', decimals: 6 },
+];
+
+/** Programs that own SPL mints */
+const TOKEN_PROGRAM_IDS = new Set([
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+]);
+
+/** Size of the base mint layout; decimals is its byte 44 */
+const MINT_SIZE = 82;
+const MINT_DECIMALS_OFFSET = 44;
+/** Token-2022 accounts with extensions mark mints with this byte at offset 165 */
+const ACCOUNT_TYPE_OFFSET = 165;
+const ACCOUNT_TYPE_MINT = 1;
+
+const DEFAULT_TIMEOUT_MS = 2_000;
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/**
+ * Token metadata from mint accounts on chain, named from a token list
+ *
+ * Decimals never change, so mints read on chain stay cached. When the RPC
+ * node fails or the mint does not exist on the cluster (e.g. a mainnet mint
+ * on devnet), listed decimals are used instead.
+ */
+export class TokenMetadataService {
+  private entries = new Map<string, TokenMetadata | null>();
+  private inFlight = new Map<string, Promise<TokenMetadata | null>>();
+  private listed = new Map<string, TokenListEntry>();
+  private timeoutMs: number;
+  private maxEntries: number;
+
+  constructor(
+    private readonly connection: Pick<Connection, 'getAccountInfo'>,
+    options: TokenMetadataOptions = {}
+  ) {
+    for (const entry of options.tokenList ?? DEFAULT_TOKEN_LIST) {
+      this.listed.set(entry.address, { ...this.listed.get(entry.address), ...entry });
+    }
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * Token list entry for a mint, without touching the network
+   */
+  getListed(mint: string): TokenListEntry | undefined {
+    return this.listed.get(mint);
+  }
+
+  /**
+   * Metadata for a mint, or null if it is neither a mint on chain nor listed
+   */
+  async get(mint: string): Promise<TokenMetadata | null> {
+    if (this.entries.has(mint)) return this.entries.get(mint)!;
+
+    const pending = this.inFlight.get(mint);
+    if (pending) return pending;
+
+    const request = this.load(mint);
+    this.inFlight.set(mint, request);
+    const clear = () => this.inFlight.delete(mint);
+    request.then(clear, clear);
+
+    return request;
+  }
+
+  /**
+   * Drops every cached mint
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private async load(mint: string): Promise<TokenMetadata | null> {
+    const listed = this.listed.get(mint);
+
+    let decimals: number | null;
+    try {
+      decimals = await this.readDecimals(mint);
+    } catch {
+      // Not cached, so the mint is read again once the node recovers
+      return listed?.decimals !== undefined ? this.describe(mint, listed.decimals, listed) : null;
+    }
+
+    const metadata = decimals !== null
+      ? this.describe(mint, decimals, listed)
+      : listed?.decimals !== undefined ? this.describe(mint, listed.decimals, listed) : null;
+
+    this.store(mint, metadata);
+    return metadata;
+  }
+
+  /**
+   * Reads the decimals of a mint account, or null if the account is not a mint
+   */
+  private async readDecimals(mint: string): Promise<number | null> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`RPC did not respond within ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+
+    try {
+      const account = await Promise.race([this.connection.getAccountInfo(new PublicKey(mint)), timeout]);
+      if (!account || !TOKEN_PROGRAM_IDS.has(account.owner.toBase58())) return null;
+
+      const data = account.data;
+      const isMint = data.length === MINT_SIZE ||
+        (data.length > ACCOUNT_TYPE_OFFSET && data[ACCOUNT_TYPE_OFFSET] === ACCOUNT_TYPE_MINT);
+      return isMint ? data[MINT_DECIMALS_OFFSET] : null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private describe(mint: string, decimals: number, listed?: TokenListEntry): TokenMetadata {
+    return {
+      mint,
+      symbol: listed?.symbol ?? 'UNKNOWN',
+      name: listed?.name ?? 'Unknown Token',
+      decimals,
+      ...(listed?.logoURI && { logoURI: listed.logoURI }),
+    };
+  }
+
+  private store(mint: string, metadata: TokenMetadata | null): void {
+    this.entries.set(mint, metadata);
+
+    for (const oldMint of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldMint);
+    }
+  }
+}
+
+/**
+ * Reads a token list file: an array of entries, or an object with a
+ * `tokens` array (Solana token-list format)
+ */
+export function loadTokenList(path: string): TokenListEntry[] {
+  const parsed = JSON.parse(readFileSync(path, 'utf8'));
+  const tokens: unknown = Array.isArray(parsed) ? parsed : parsed?.tokens;
+  if (!Array.isArray(tokens)) {
+    throw new Error(`Token list ${path} has no tokens array`);
+  }
+
+  return tokens.filter((token): token is TokenListEntry =>
+    typeof token?.address === 'string' &&
+    typeof token.symbol === 'string' &&
+    typeof token.name === 'string' &&
+    (token.decimals === undefined || Number.isInteger(token.decimals))
+  );
+}
+
+// Token metadata service (lazy initialized)
+let tokenMetadata: TokenMetadataService | null = null;
+
+/**
+ * Shared token metadata service, with TOKEN_LIST_PATH merged over the
+ * default token list
+ */
+export function getTokenMetadataService(): TokenMetadataService {
+  if (!tokenMetadata) {
+    const path = process.env.TOKEN_LIST_PATH;
+    tokenMetadata = new TokenMetadataService(getConnection(), {
+      tokenList: path ? [...DEFAULT_TOKEN_LIST, ...loadTokenList(path)] : DEFAULT_TOKEN_LIST,
+    });
+  }
+  return tokenMetadata;
+}
+
+/**
+ * Metadata for a mint, or null if it is unknown
+ */
+export async function getTokenMetadata(mint: string): Promise<TokenMetadata | null> {
+  return getTokenMetadataService().get(mint);
+}
+
+/**
+ * Decimals of a mint, falling back to 6 (the most common) if it is unknown
+ */
+export async function getTokenDecimals(mint: string): Promise<number> {
+  return (await getTokenMetadata(mint))?.decimals ?? 6;
+}
+
+/**
+ * Drops every cached mint
+ */
+export function clearTokenMetadataCache(): void {
+  tokenMetadata?.clear();
+}
@@ -0,0 +1,150 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+
+/**
+ * Test payer backed by a real ed25519 keypair
+ */
+export interface TestPayer {
+  address: string;
+  signMessage(message: Uint8Array): Uint8Array;
+}
+
+/**
+ * Terms the test payer signs, mirroring the SDK's payment message
+ */
+export interface PaymentTerms {
+  network: string;
+  amount: string;
+  payTo: string;
+  resource: string;
+  nonce: string;
+  /** Mint address of the token being paid with */
+  asset: string;
+  scheme?: string;
+  timestamp?: number;
+}
+
+/**
+ * Creates a payer with a freshly generated ed25519 keypair
+ */
+export function createTestPayer(): TestPayer {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const jwk = publicKey.export({ format: 'jwk' });
+
+  return {
+    address: new PublicKey(Buffer.from(jwk.x!, 'base64url')).toBase58(),
+    signMessage: (message) => new Uint8Array(sign(null, message, privateKey)),
+  };
+}
+
+/**
+ * Extracts the terms to sign from one of the options in a 402 challenge's
+ * Payment-Required header
+ */
+export function termsFromChallenge(paymentRequiredHeader: string, option: number = 0): PaymentTerms {
+  const requirements = JSON.parse(atob(paymentRequiredHeader)).accepts[option];
+
+  return {
+    network: requirements.network,
+    amount: requirements.amount,
+    payTo: requirements.payTo,
+    resource: requirements.resource,
+    nonce: requirements.nonce,
+    asset: requirements.asset.address,
+    scheme: requirements.scheme,
+  };
+}
+
+/**
+ * Builds a base64 payment-signature header the same way the SDK does
+ */
+export function createPaymentHeader(
+  payer: TestPayer,
+  terms: PaymentTerms,
+  signer: TestPayer = payer
+): string {
+  const scheme = terms.scheme ?? 'exact';
+  const message = JSON.stringify({
+    x402Version: 1,
+    scheme,
+    network: terms.network,
+    amount: terms.amount,
+    resource: terms.resource,
+    payTo: terms.payTo,
+    timestamp: terms.timestamp ?? Date.now(),
+    payer: payer.address,
+    nonce: terms.nonce,
+    asset: terms.asset,
+  });
+
+  const signature = signer.signMessage(new TextEncoder().encode(message));
+
+  return btoa(JSON.stringify({
+    x402Version: 1,
+    scheme,
+    network: terms.network,
+    payload: {
+      message,
+      signature: Buffer.from(signature).toString('base64'),
+      publicKey: payer.address,
+    },
+  }));
+}
+
+/**
+ * Session limits the test payer signs, mirroring the SDK's session authorization
+ */
+export interface SessionTerms {
+  network: string;
+  asset: string;
+  payTo: string;
+  maxAmount: string;
+  resources: string[];
+  sessionId?: string;
+  issuedAt?: number;
+  expiresAt?: number;
+}
+
+/**
+ * Builds a base64 X-Payment-Session header the same way the SDK does
+ */
+export function createSessionHeader(
+  payer: TestPayer,
+  terms: SessionTerms,
+  signer: TestPayer = payer
+): string {
+  const issuedAt = terms.issuedAt ?? Date.now();
+  const message = JSON.stringify({
+    x402Version: 1,
+    scheme: 'session',
+    sessionId: terms.sessionId ?? 'test-session',
+    network: terms.network,
+    asset: terms.asset,
+    payTo: terms.payTo,
+    payer: payer.address,
+    maxAmount: terms.maxAmount,
+    resources: terms.resources,
+    issuedAt,
+    expiresAt: terms.expiresAt ?? issuedAt + 60 * 60 * 1000,
+  });
+
+  const signature = signer.signMessage(new TextEncoder().encode(message));
+
+  return btoa(JSON.stringify({
+    x402Version: 1,
+    scheme: 'session',
+    network: terms.network,
+    payload: {
+      message,
+      signature: Buffer.from(signature).toString('base64'),
+      publicKey: payer.address,
+    },
+  }));
+}
+
+/**
+ * Decodes a base64 JSON X-Payment-Response header
+ */
+export function decodePaymentResponse(header: string) {
+  return JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+}
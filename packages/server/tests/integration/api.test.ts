@@ -1,40 +1,81 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
 import express, { type Express } from 'express';
 import request from 'supertest';
 import cors from 'cors';
 import healthRoutes from '../../src/routes/health.js';
-import premiumRoutes from '../../src/routes/premium.js';
+import premiumRoutes, { premiumPricing as routePricing } from '../../src/routes/premium.js';
 import { paymentMiddleware, type PricingConfig } from '../../src/middleware/x402.js';
+import { InMemoryCreditStore } from '../../src/middleware/credit-store.js';
+import { HttpFacilitator } from '../../src/services/facilitator.js';
+import { MockFacilitator, createMockFacilitatorApp } from '../../src/services/mock-facilitator.js';
+import { clearQuoteCache } from '../../src/services/jupiter.js';
+import {
+  createTestPayer,
+  createPaymentHeader,
+  termsFromChallenge,
+  decodePaymentResponse,
+} from '../helpers/payment.js';
+
+// Real fetch for talking to the local mock facilitator (global fetch is stubbed per test)
+const realFetch = globalThis.fetch;
+
+// Quote and swap requests received by the Jupiter mock
+const quoteRequests = vi.hoisted(() => [] as any[]);
+const swapRequests = vi.hoisted(() => [] as any[]);
+
+// Errors the Jupiter mock throws for the next quote requests
+const quoteFailures = vi.hoisted(() => {
+  // Fail upstream errors without waiting on retries
+  process.env.JUPITER_MAX_RETRIES = '0';
+  return [] as Error[];
+});
 
 // Mock Jupiter API
 vi.mock('@jup-ag/api', () => ({
   createJupiterApiClient: () => ({
-    quoteGet: async () => ({
-      inAmount: '1000000000',
-      outAmount: '150000000',
-      priceImpactPct: '0.1',
-      routePlan: [
-        {
-          swapInfo: {
-            ammKey: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
-            inputMint: 'So11111111111111111111111111111111111111112',
-            outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-            inAmount: '1000000000',
-            outAmount: '150000000',
-            feeAmount: '100000',
+    quoteGet: async (request: any) => {
+      quoteRequests.push(request);
+      const failure = quoteFailures.shift();
+      if (failure) throw failure;
+      return {
+        inAmount: '1000000000',
+        outAmount: '150000000',
+        priceImpactPct: '0.1',
+        routePlan: [
+          {
+            swapInfo: {
+              ammKey: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
+              inputMint: 'So11111111111111111111111111111111111111112',
+              outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+              inAmount: '1000000000',
+              outAmount: '150000000',
+              feeAmount: '100000',
+            },
           },
-        },
-      ],
-    }),
-    swapPost: async () => ({
-      swapTransaction: Buffer.from('mock_transaction').toString('base64'),
-    }),
+        ],
+      };
+    },
+    swapPost: async ({ swapRequest }: any) => {
+      swapRequests.push(swapRequest);
+      return {
+        swapTransaction: Buffer.from('mock_transaction').toString('base64'),
+        lastValidBlockHeight: 279_000_150,
+      };
+    },
   }),
 }));
 
-// Mock Connection for priority fees
-vi.mock('@solana/web3.js', () => ({
+// Mock Connection for priority fees and mint decimals
+vi.mock('@solana/web3.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@solana/web3.js')>(),
   Connection: class MockConnection {
+    // Mints are not on the mocked cluster, so listed decimals are used
+    getAccountInfo() {
+      return Promise.resolve(null);
+    }
+
     getRecentPrioritizationFees() {
       return Promise.resolve([
         { slot: 1, prioritizationFee: 5000 },
@@ -48,6 +89,18 @@ vi.mock('@solana/web3.js', () => ({
 describe('API Integration Tests', () => {
   let app: Express;
   let mockFetch: any;
+  let facilitator: MockFacilitator;
+  let facilitatorServer: Server;
+  let facilitatorUrl: string;
+  let creditStore: InMemoryCreditStore;
+
+  const payer = createTestPayer();
+
+  // Requests a 402 challenge for the premium swap and returns the terms to sign
+  async function challenge() {
+    const response = await request(app).post('/v1/swap/enhanced').set('Host', 'api.test').send({});
+    return termsFromChallenge(response.headers['payment-required']);
+  }
 
   const premiumPricing: Record<string, PricingConfig> = {
     'POST /v1/swap/enhanced': {
@@ -55,9 +108,26 @@ describe('API Integration Tests', () => {
       network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
       description: 'Enhanced swap with premium features',
     },
+    'POST /v1/quote/batch/enhanced': {
+      price: routePricing['POST /v1/quote/batch/enhanced'].price,
+      network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+      description: 'Batch of premium quotes',
+    },
   };
 
+  beforeAll(async () => {
+    facilitator = new MockFacilitator();
+    facilitatorServer = createMockFacilitatorApp(facilitator).listen(0);
+    await new Promise(resolve => facilitatorServer.once('listening', resolve));
+    facilitatorUrl = `http://127.0.0.1:${(facilitatorServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => facilitatorServer.close(resolve));
+  });
+
   beforeEach(() => {
+    clearQuoteCache();
     mockFetch = vi.fn();
     vi.stubGlobal('fetch', mockFetch);
 
@@ -71,10 +141,17 @@ describe('API Integration Tests', () => {
       }),
     });
 
+    creditStore = new InMemoryCreditStore();
+
     app = express();
     app.use(cors());
     app.use(express.json());
-    app.use(paymentMiddleware('TestWallet', premiumPricing, 'https://test.facilitator.com'));
+    app.use(paymentMiddleware(
+      'TestWallet',
+      premiumPricing,
+      new HttpFacilitator(facilitatorUrl, { fetch: realFetch }),
+      { creditStore }
+    ));
     app.use('/', healthRoutes);
     app.use('/', premiumRoutes);
   });
@@ -113,6 +190,148 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('Quote cache', () => {
+    const query = {
+      inputMint: 'So11111111111111111111111111111111111111112',
+      outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amount: '1000000000',
+    };
+
+    it('GET /v1/quote should serve repeated requests from the cache', async () => {
+      const before = quoteRequests.length;
+
+      await request(app).get('/v1/quote').query(query);
+      await request(app).get('/v1/quote').query(query);
+      const health = await request(app).get('/health');
+
+      expect(quoteRequests.length - before).toBe(1);
+      expect(health.body.quoteCache).toMatchObject({ hits: 1, misses: 1, size: 1 });
+    });
+
+    it('should not serve a cached quote for a different amount', async () => {
+      const before = quoteRequests.length;
+
+      // The mock quotes 1000000000 whatever the amount, so the cached quote never matches
+      await request(app).get('/v1/quote').query({ ...query, amount: '1000000004' });
+      const free = await request(app).get('/v1/quote').query({ ...query, amount: '1000000004' });
+      const batch = await request(app)
+        .post('/v1/quote/batch')
+        .send({ requests: [{ ...query, amount: 1000000004 }] });
+
+      expect(free.status).toBe(200);
+      expect(batch.status).toBe(200);
+      expect(quoteRequests.length - before).toBe(3);
+    });
+
+    it('GET /v1/quote should coalesce concurrent identical requests', async () => {
+      const before = quoteRequests.length;
+
+      const responses = await Promise.all([
+        request(app).get('/v1/quote').query(query),
+        request(app).get('/v1/quote').query(query),
+      ]);
+
+      expect(responses.map(response => response.status)).toEqual([200, 200]);
+      expect(quoteRequests.length - before).toBe(1);
+    });
+
+    it('GET /v1/quote should bypass the cache with fresh=true', async () => {
+      const before = quoteRequests.length;
+
+      await request(app).get('/v1/quote').query(query);
+      await request(app).get('/v1/quote').query({ ...query, fresh: 'true' });
+
+      expect(quoteRequests.length - before).toBe(2);
+    });
+
+    it('should not build a swap from a cached quote for a different amount', async () => {
+      const before = quoteRequests.length;
+
+      // The mock quotes 1000000000 whatever the amount, so the cached quote never matches
+      await request(app).get('/v1/quote').query({ ...query, amount: '1000000004' });
+      const response = await request(app)
+        .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
+        .set('payment-signature', createPaymentHeader(payer, await challenge()))
+        .send({ ...query, amount: 1000000004, userPublicKey: 'TestUser123' });
+
+      expect(response.status).toBe(200);
+      expect(quoteRequests.length - before).toBe(2);
+    });
+  });
+
+  describe('Batch quotes', () => {
+    const item = {
+      inputMint: 'So11111111111111111111111111111111111111112',
+      outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amount: 1000000000,
+    };
+
+    it('POST /v1/quote/batch should quote every item without payment', async () => {
+      const response = await request(app)
+        .post('/v1/quote/batch')
+        .send({ requests: [item, { ...item, amount: -1 }, { ...item, swapMode: 'ExactOut' }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results).toHaveLength(3);
+      expect(response.body.results[0].quote).toBeDefined();
+      expect(response.body.results[1]).toEqual({
+        error: 'Invalid amount',
+        message: 'Amount must be a positive number in smallest units',
+      });
+      expect(response.body.results[2].quote).toBeDefined();
+      expect(quoteRequests.at(-1)).toMatchObject({ swapMode: 'ExactOut' });
+    });
+
+    it('POST /v1/quote/batch should reject empty and oversized batches', async () => {
+      const empty = await request(app).post('/v1/quote/batch').send({ requests: [] });
+      const oversized = await request(app).post('/v1/quote/batch').send({ requests: Array(26).fill(item) });
+
+      expect(empty.status).toBe(400);
+      expect(oversized.status).toBe(400);
+      expect(oversized.body.error).toBe('Invalid batch');
+    });
+
+    it('POST /v1/quote/batch/enhanced should charge one payment for the batch', async () => {
+      const body = { requests: [{ ...item, mevProtection: true }, { ...item, includeAnalytics: true }] };
+
+      const unpaid = await request(app).post('/v1/quote/batch/enhanced').set('Host', 'api.test').send(body);
+      expect(unpaid.status).toBe(402);
+
+      const terms = termsFromChallenge(unpaid.headers['payment-required']);
+      expect(terms.amount).toBe('5000'); // ($0.001 + $0.002) + ($0.001 + $0.001)
+
+      const response = await request(app)
+        .post('/v1/quote/batch/enhanced')
+        .set('Host', 'api.test')
+        .set('payment-signature', createPaymentHeader(payer, terms))
+        .send(body);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['x-payment-response']).toBeDefined();
+      expect(response.body.results[0].mevAnalysis).toBeDefined();
+      expect(response.body.results[0].routeAnalytics).toBeUndefined();
+      expect(response.body.results[1].routeAnalytics).toBeDefined();
+    });
+
+    it('POST /v1/quote/batch/enhanced should reject invalid items before payment', async () => {
+      const before = quoteRequests.length;
+
+      const response = await request(app)
+        .post('/v1/quote/batch/enhanced')
+        .set('Host', 'api.test')
+        .send({ requests: [item, { ...item, amount: -1 }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error: 'Invalid amount',
+        message: 'requests[1]: Amount must be a positive number in smallest units',
+      });
+      expect(response.headers['payment-required']).toBeUndefined();
+      expect(quoteRequests.length).toBe(before);
+    });
+  });
+
   describe('Premium tier endpoints', () => {
     it('POST /v1/swap/enhanced should require payment', async () => {
       const response = await request(app)
@@ -129,23 +348,25 @@ describe('API Integration Tests', () => {
       expect(response.body.error).toBe('Payment Required');
     });
 
-    it('POST /v1/swap/enhanced should work with valid payment', async () => {
-      // Mock facilitator unavailable (triggers dev mode)
-      mockFetch.mockRejectedValue(new Error('Network error'));
+    it('POST /v1/swap/enhanced should require payment in any case', async () => {
+      const response = await request(app)
+        .post('/V1/SWAP/Enhanced')
+        .send({
+          inputMint: 'So11111111111111111111111111111111111111112',
+          outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+          amount: 1000000000,
+          userPublicKey: 'TestUserPublicKey',
+        });
 
-      const paymentPayload = btoa(JSON.stringify({
-        x402Version: 1,
-        scheme: 'exact',
-        network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
-        payload: {
-          message: 'test',
-          signature: 'test_sig',
-          publicKey: 'test_pubkey',
-        },
-      }));
+      expect(response.status).toBe(402);
+    });
+
+    it('POST /v1/swap/enhanced should work with valid payment', async () => {
+      const paymentPayload = createPaymentHeader(payer, await challenge());
 
       const response = await request(app)
         .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
         .set('payment-signature', paymentPayload)
         .send({
           inputMint: 'So11111111111111111111111111111111111111112',
@@ -160,23 +381,18 @@ describe('API Integration Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body.quote).toBeDefined();
       expect(response.body.swapTransaction).toBeDefined();
+      expect(response.body.lastValidBlockHeight).toBe(279_000_150);
       expect(response.body.mevAnalysis).toBeDefined();
       expect(response.body.recommendedPriorityFee).toBeDefined();
       expect(response.body.routeAnalytics).toBeDefined();
     });
 
     it('POST /v1/swap/enhanced should validate required fields', async () => {
-      mockFetch.mockRejectedValue(new Error('Network error'));
-
-      const paymentPayload = btoa(JSON.stringify({
-        x402Version: 1,
-        scheme: 'exact',
-        network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
-        payload: { message: 'test', signature: 'sig', publicKey: 'pk' },
-      }));
+      const paymentPayload = createPaymentHeader(payer, await challenge());
 
       const response = await request(app)
         .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
         .set('payment-signature', paymentPayload)
         .send({
           // Missing required fields
@@ -187,18 +403,52 @@ describe('API Integration Tests', () => {
       expect(response.body.error).toBe('Missing required fields');
     });
 
-    it('POST /v1/swap/enhanced should return only requested features', async () => {
-      mockFetch.mockRejectedValue(new Error('Network error'));
+    it('POST /v1/swap/enhanced should collect a platform fee into the fee account', async () => {
+      const paymentPayload = createPaymentHeader(payer, await challenge());
 
-      const paymentPayload = btoa(JSON.stringify({
-        x402Version: 1,
-        scheme: 'exact',
-        network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
-        payload: { message: 'test', signature: 'sig', publicKey: 'pk' },
-      }));
+      const response = await request(app)
+        .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
+        .set('payment-signature', paymentPayload)
+        .send({
+          inputMint: 'So11111111111111111111111111111111111111112',
+          outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+          amount: 1000000000,
+          userPublicKey: 'TestUserPublicKey',
+          platformFeeBps: 25,
+          feeAccount: 'FeeTokenAccount',
+        });
+
+      expect(response.status).toBe(200);
+      expect(quoteRequests.at(-1)).toMatchObject({ platformFeeBps: 25 });
+      expect(swapRequests.at(-1)).toMatchObject({ feeAccount: 'FeeTokenAccount' });
+    });
+
+    it('POST /v1/swap/enhanced should require a fee account for a platform fee', async () => {
+      const paymentPayload = createPaymentHeader(payer, await challenge());
 
       const response = await request(app)
         .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
+        .set('payment-signature', paymentPayload)
+        .send({
+          inputMint: 'So11111111111111111111111111111111111111112',
+          outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+          amount: 1000000000,
+          userPublicKey: 'TestUserPublicKey',
+          platformFeeBps: 25,
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Missing feeAccount');
+    });
+
+    it('POST /v1/swap/enhanced should return only requested features', async () => {
+      const paymentPayload = createPaymentHeader(payer, await challenge());
+
+      const response = await request(app)
+        .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
         .set('payment-signature', paymentPayload)
         .send({
           inputMint: 'So11111111111111111111111111111111111111112',
@@ -217,7 +467,143 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('Payment facilitation', () => {
+    const swapBody = {
+      inputMint: 'So11111111111111111111111111111111111111112',
+      outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amount: 1000000000,
+      userPublicKey: 'TestUserPublicKey',
+      mevProtection: true,
+    };
+
+    it('should verify and settle the payment through the facilitator', async () => {
+      const terms = await challenge();
+      const settledBefore = facilitator.settled.length;
+
+      const response = await request(app)
+        .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
+        .set('payment-signature', createPaymentHeader(payer, terms))
+        .send(swapBody);
+
+      expect(response.status).toBe(200);
+      expect(facilitator.settled).toHaveLength(settledBefore + 1);
+
+      const settlement = facilitator.settled[facilitator.settled.length - 1];
+      expect(settlement.nonce).toBe(terms.nonce);
+      expect(settlement.payer).toBe(payer.address);
+      expect(decodePaymentResponse(response.headers['x-payment-response'])).toEqual({
+        success: true,
+        transaction: settlement.transaction,
+        network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+        payer: payer.address,
+      });
+    });
+
+    it('should not settle when the swap request is rejected', async () => {
+      const settledBefore = facilitator.settled.length;
+
+      const response = await request(app)
+        .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
+        .set('payment-signature', createPaymentHeader(payer, await challenge()))
+        .send({ inputMint: swapBody.inputMint });
+
+      expect(response.status).toBe(400);
+      expect(response.headers['x-payment-response']).toBeUndefined();
+      expect(facilitator.settled).toHaveLength(settledBefore);
+    });
+
+    it('should return 402 when the facilitator rejects the payment', async () => {
+      facilitator.failNextVerify('insufficient_funds');
+
+      const response = await request(app)
+        .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
+        .set('payment-signature', createPaymentHeader(payer, await challenge()))
+        .send(swapBody);
+
+      expect(response.status).toBe(402);
+      expect(response.body.error).toBe('Payment Invalid');
+      expect(response.body.message).toBe('insufficient_funds');
+    });
+
+    it('should return 402 when settlement fails', async () => {
+      facilitator.failNextSettle('transaction_expired');
+
+      const response = await request(app)
+        .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
+        .set('payment-signature', createPaymentHeader(payer, await challenge()))
+        .send(swapBody);
+
+      expect(response.status).toBe(402);
+      expect(response.body.message).toBe('transaction_expired');
+    });
+  });
+
   describe('Error handling', () => {
+    // Error the Jupiter API client throws for a non-2xx response
+    const responseError = (status: number, body: unknown = {}, headers: Record<string, string> = {}) =>
+      Object.assign(new Error('Response returned an error code'), {
+        name: 'ResponseError',
+        response: new Response(JSON.stringify(body), { status, headers }),
+      });
+
+    const quoteQuery = {
+      inputMint: 'So11111111111111111111111111111111111111112',
+      outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      amount: '1000000000',
+    };
+
+    it('should return 400 when Jupiter finds no route', async () => {
+      quoteFailures.push(responseError(400, { error: 'Could not find any route', errorCode: 'COULD_NOT_FIND_ANY_ROUTE' }));
+
+      const response = await request(app).get('/v1/quote').query(quoteQuery);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('No route found');
+    });
+
+    it('should return 429 with Retry-After when Jupiter rate limits', async () => {
+      quoteFailures.push(responseError(429, {}, { 'retry-after': '3' }));
+
+      const response = await request(app).get('/v1/quote').query(quoteQuery);
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('3');
+      expect(response.body.error).toBe('Rate limited');
+    });
+
+    it('should return 502 when Jupiter fails', async () => {
+      quoteFailures.push(responseError(500));
+
+      const response = await request(app)
+        .post('/v1/swap/enhanced')
+        .set('Host', 'api.test')
+        .set('payment-signature', createPaymentHeader(payer, await challenge()))
+        .send({ ...quoteQuery, amount: 1000000000, userPublicKey: 'TestUser123' });
+
+      expect(response.status).toBe(502);
+      expect(response.body.error).toBe('Upstream unavailable');
+    });
+
+    it('should charge credit only for the batch items that were quoted', async () => {
+      await creditStore.create('token-1', { balance: 1_000_000, createdAt: Date.now() });
+      quoteFailures.push(responseError(400, { error: 'Could not find any route', errorCode: 'COULD_NOT_FIND_ANY_ROUTE' }));
+
+      const response = await request(app)
+        .post('/v1/quote/batch/enhanced')
+        .set('Authorization', 'Bearer token-1')
+        .send({ requests: [{ ...quoteQuery, amount: 1000000000, mevProtection: true }, { ...quoteQuery, amount: 2000000000 }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results[0].error).toBe('No route found');
+      expect(response.body.results[1].quote).toBeDefined();
+      // $0.003 was debited for the batch, the failed item's $0.002 is refunded
+      expect(response.headers['x-credit-balance']).toBe('0.999000');
+    });
+
     it('should return 404 for unknown routes', async () => {
       const response = await request(app).get('/unknown-route');
 
@@ -235,5 +621,54 @@ describe('API Integration Tests', () => {
 
       expect(response.status).toBe(400);
     });
+
+    it('should return 400 for an invalid swapMode in quote', async () => {
+      const response = await request(app)
+        .get('/v1/quote')
+        .query({
+          inputMint: 'So11111111111111111111111111111111111111112',
+          outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+          amount: '25000000',
+          swapMode: 'ExactOutput',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid swapMode');
+    });
+
+    it('should pass routing options through to Jupiter', async () => {
+      const response = await request(app)
+        .get('/v1/quote')
+        .query({
+          inputMint: 'So11111111111111111111111111111111111111112',
+          outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+          amount: '1000000000',
+          excludeDexes: 'Raydium,Orca V2',
+          onlyDirectRoutes: 'true',
+          maxAccounts: '40',
+        });
+
+      expect(response.status).toBe(200);
+      expect(quoteRequests.at(-1)).toMatchObject({
+        excludeDexes: ['Raydium', 'Orca V2'],
+        onlyDirectRoutes: true,
+        maxAccounts: 40,
+        restrictIntermediateTokens: true,
+      });
+    });
+
+    it('should return 400 for invalid routing options', async () => {
+      const response = await request(app)
+        .get('/v1/quote')
+        .query({
+          inputMint: 'So11111111111111111111111111111111111111112',
+          outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+          amount: '1000000000',
+          maxAccounts: '0',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid routing options');
+    });
   });
 });
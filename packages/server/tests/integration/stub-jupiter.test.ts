@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import healthRoutes from '../../src/routes/health.js';
+import premiumRoutes, { premiumPricing } from '../../src/routes/premium.js';
+import { paymentMiddleware } from '../../src/middleware/x402.js';
+import { MockFacilitator } from '../../src/services/mock-facilitator.js';
+import { clearQuoteCache } from '../../src/services/jupiter.js';
+import { StubJupiter, createStubJupiterApp } from '../../src/services/stub-jupiter.js';
+import { createTestPayer, createPaymentHeader, termsFromChallenge } from '../helpers/payment.js';
+
+// End to end against the stub Jupiter API: no module mocks, no internet
+describe('API against the stub Jupiter server', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+  const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+  const stub = new StubJupiter();
+  const payer = createTestPayer();
+  let stubServer: Server;
+  let app: Express;
+
+  beforeAll(async () => {
+    stubServer = createStubJupiterApp(stub).listen(0);
+    await new Promise(resolve => stubServer.once('listening', resolve));
+    const url = `http://127.0.0.1:${(stubServer.address() as AddressInfo).port}`;
+
+    process.env.JUPITER_API_URL = `${url}/swap/v1`;
+    process.env.JUPITER_PRICE_API_URL = `${url}/price/v2`;
+    process.env.JUPITER_MAX_RETRIES = '0';
+    // The stub serves no RPC, so mint decimals come from the token list
+    process.env.SOLANA_RPC_URL = url;
+
+    app = express();
+    app.use(express.json());
+    app.use(paymentMiddleware('TestWallet', premiumPricing, new MockFacilitator(), {
+      accepts: [{ network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1', asset: 'USDC' }],
+    }));
+    app.use('/', healthRoutes);
+    app.use('/', premiumRoutes);
+  });
+
+  afterAll(async () => {
+    delete process.env.JUPITER_API_URL;
+    delete process.env.JUPITER_PRICE_API_URL;
+    delete process.env.JUPITER_MAX_RETRIES;
+    delete process.env.SOLANA_RPC_URL;
+    await new Promise(resolve => stubServer.close(resolve));
+  });
+
+  beforeEach(() => {
+    stub.scenario = 'direct';
+    clearQuoteCache();
+  });
+
+  it('should quote through the stub', async () => {
+    const response = await request(app).get('/v1/quote').query({ inputMint: SOL, outputMint: USDC, amount: '1000000000' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.quote.outAmount).toBe('149625000');
+  });
+
+  it('should pass multi-hop routes through', async () => {
+    stub.scenario = 'multi_hop';
+
+    const response = await request(app).get('/v1/quote').query({ inputMint: SOL, outputMint: BONK, amount: '1000000000' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.quote.routePlan).toHaveLength(2);
+  });
+
+  it('should map no-route and rate-limit scenarios to client errors', async () => {
+    stub.scenario = 'no_route';
+    const noRoute = await request(app).get('/v1/quote').query({ inputMint: SOL, outputMint: USDC, amount: '1' });
+
+    stub.scenario = 'rate_limit';
+    const rateLimited = await request(app).get('/v1/quote').query({ inputMint: SOL, outputMint: USDC, amount: '2' });
+
+    expect(noRoute.status).toBe(400);
+    expect(noRoute.body.error).toBe('No route found');
+    expect(rateLimited.status).toBe(429);
+    expect(rateLimited.headers['retry-after']).toBe('1');
+  });
+
+  it('should build a signable swap transaction for a paid request', async () => {
+    const user = Keypair.generate();
+    const body = {
+      inputMint: SOL,
+      outputMint: USDC,
+      amount: 1_000_000_000,
+      userPublicKey: user.publicKey.toBase58(),
+      mevProtection: true,
+    };
+
+    const unpaid = await request(app).post('/v1/swap/enhanced').set('Host', 'api.test').send(body);
+    const response = await request(app)
+      .post('/v1/swap/enhanced')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, termsFromChallenge(unpaid.headers['payment-required'])))
+      .send(body);
+
+    expect(response.status).toBe(200);
+    expect(response.body.mevAnalysis).toBeDefined();
+    expect(response.body.lastValidBlockHeight).toBe(279_000_150);
+
+    const transaction = VersionedTransaction.deserialize(Buffer.from(response.body.swapTransaction, 'base64'));
+    expect(transaction.message.staticAccountKeys[0].equals(user.publicKey)).toBe(true);
+  });
+});
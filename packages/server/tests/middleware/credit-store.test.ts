@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryCreditStore } from '../../src/middleware/credit-store.js';
+
+describe('InMemoryCreditStore', () => {
+  it('should debit balances that cover the amount', async () => {
+    const store = new InMemoryCreditStore();
+    await store.create('token', { balance: 1_000, createdAt: Date.now() });
+
+    expect(await store.debit('token', 400)).toEqual({ status: 'debited', balance: 600 });
+    expect(await store.debit('token', 600)).toEqual({ status: 'debited', balance: 0 });
+  });
+
+  it('should refuse to overdraw', async () => {
+    const store = new InMemoryCreditStore();
+    await store.create('token', { balance: 100, createdAt: Date.now() });
+
+    expect(await store.debit('token', 101)).toEqual({ status: 'insufficient', balance: 100 });
+    expect((await store.get('token'))?.balance).toBe(100);
+  });
+
+  it('should report unknown tokens', async () => {
+    const store = new InMemoryCreditStore();
+
+    expect(await store.debit('missing', 1)).toEqual({ status: 'unknown' });
+    expect(await store.credit('missing', 1)).toBeUndefined();
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('should add credit to existing accounts', async () => {
+    const store = new InMemoryCreditStore();
+    await store.create('token', { balance: 100, createdAt: Date.now() });
+
+    expect(await store.credit('token', 50)).toBe(150);
+  });
+
+  it('should not let callers mutate stored accounts', async () => {
+    const store = new InMemoryCreditStore();
+    await store.create('token', { balance: 100, createdAt: Date.now() });
+
+    const account = await store.get('token');
+    account!.balance = 1_000_000;
+
+    expect((await store.get('token'))?.balance).toBe(100);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryNonceStore, FileNonceStore } from '../../src/middleware/nonce-store.js';
+
+describe('InMemoryNonceStore', () => {
+  let store: InMemoryNonceStore;
+
+  beforeEach(() => {
+    store = new InMemoryNonceStore();
+  });
+
+  it('should consume an issued nonce once', async () => {
+    await store.issue('nonce-1', Date.now() + 60_000);
+
+    expect(await store.consume('nonce-1')).toBe('consumed');
+    expect(await store.consume('nonce-1')).toBe('replayed');
+  });
+
+  it('should reject unknown nonces', async () => {
+    expect(await store.consume('never-issued')).toBe('unknown');
+  });
+
+  it('should reject expired nonces', async () => {
+    const now = Date.now();
+    await store.issue('nonce-1', now + 1000);
+
+    expect(await store.consume('nonce-1', now + 1001)).toBe('expired');
+  });
+
+  it('should prune expired nonces when issuing new ones', async () => {
+    await store.issue('stale', Date.now() - 1);
+    await store.issue('fresh', Date.now() + 60_000);
+
+    expect(store.size).toBe(1);
+  });
+});
+
+describe('FileNonceStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ganymede-nonces-'));
+    filePath = join(dir, 'nonces.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should consume an issued nonce once', async () => {
+    const store = new FileNonceStore(filePath);
+    await store.issue('nonce-1', Date.now() + 60_000);
+
+    expect(await store.consume('nonce-1')).toBe('consumed');
+    expect(await store.consume('nonce-1')).toBe('replayed');
+  });
+
+  it('should persist consumed nonces across instances', async () => {
+    const first = new FileNonceStore(filePath);
+    await first.issue('nonce-1', Date.now() + 60_000);
+    await first.consume('nonce-1');
+
+    const second = new FileNonceStore(filePath);
+    expect(await second.consume('nonce-1')).toBe('replayed');
+  });
+
+  it('should write consumed nonces as JSON', async () => {
+    const store = new FileNonceStore(filePath);
+    await store.issue('nonce-1', 4102444800000);
+    await store.consume('nonce-1');
+
+    const data = JSON.parse(await readFile(filePath, 'utf8'));
+    expect(data).toEqual({ 'nonce-1': 4102444800000 });
+  });
+
+  it('should not write issued nonces to disk', async () => {
+    const store = new FileNonceStore(filePath);
+    await store.issue('nonce-1', Date.now() + 60_000);
+
+    await expect(readFile(filePath, 'utf8')).rejects.toThrow('ENOENT');
+  });
+
+  it('should drop expired consumed nonces when writing', async () => {
+    const store = new FileNonceStore(filePath);
+    const now = Date.now();
+    await store.issue('nonce-1', now + 1000);
+    await store.issue('nonce-2', now + 60_000);
+    await store.consume('nonce-1', now);
+    await store.consume('nonce-2', now + 2000);
+
+    const data = JSON.parse(await readFile(filePath, 'utf8'));
+    expect(Object.keys(data)).toEqual(['nonce-2']);
+  });
+
+  it('should allow only one of several concurrent consumers', async () => {
+    const store = new FileNonceStore(filePath);
+    await store.issue('nonce-1', Date.now() + 60_000);
+
+    const results = await Promise.all([
+      store.consume('nonce-1'),
+      store.consume('nonce-1'),
+      store.consume('nonce-1'),
+    ]);
+
+    expect(results.filter(r => r === 'consumed')).toHaveLength(1);
+  });
+});
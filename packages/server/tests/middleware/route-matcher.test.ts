@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { compileRouteTable } from '../../src/middleware/route-matcher.js';
+
+describe('compileRouteTable', () => {
+  it('should match exact routes', () => {
+    const match = compileRouteTable({ 'POST /v1/swap/enhanced': 'swap' });
+
+    expect(match('POST', '/v1/swap/enhanced')).toEqual({ value: 'swap', params: {} });
+    expect(match('POST', '/v1/swap/enhanced/')).toEqual({ value: 'swap', params: {} });
+    expect(match('GET', '/v1/swap/enhanced')).toBeUndefined();
+    expect(match('POST', '/v1/swap')).toBeUndefined();
+  });
+
+  it('should match literal segments regardless of case, like Express', () => {
+    const match = compileRouteTable({
+      'POST /v1/swap/enhanced': 'swap',
+      'GET /V1/Analytics/:mint': 'analytics',
+    });
+
+    expect(match('post', '/V1/SWAP/Enhanced')?.value).toBe('swap');
+    expect(match('GET', '/v1/analytics/DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263')?.params).toEqual({
+      mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+    });
+  });
+
+  it('should capture named parameters', () => {
+    const match = compileRouteTable({ 'GET /v1/analytics/:mint': 'analytics' });
+
+    expect(match('GET', '/v1/analytics/So11111111111111111111111111111111111111112')).toEqual({
+      value: 'analytics',
+      params: { mint: 'So11111111111111111111111111111111111111112' },
+    });
+    expect(match('GET', '/v1/analytics/a%20b')?.params).toEqual({ mint: 'a b' });
+    expect(match('GET', '/v1/analytics')).toBeUndefined();
+    expect(match('GET', '/v1/analytics/mint/extra')).toBeUndefined();
+  });
+
+  it('should match trailing wildcards against one or more segments', () => {
+    const match = compileRouteTable({ 'POST /v1/premium/*': 'premium' });
+
+    expect(match('POST', '/v1/premium/swap')?.params).toEqual({ '*': 'swap' });
+    expect(match('POST', '/v1/premium/swap/batch')?.params).toEqual({ '*': 'swap/batch' });
+    expect(match('POST', '/v1/premium')).toBeUndefined();
+  });
+
+  it('should match inner wildcards against a single segment', () => {
+    const match = compileRouteTable({ 'GET /v1/*/stats': 'stats' });
+
+    expect(match('GET', '/v1/tokens/stats')?.value).toBe('stats');
+    expect(match('GET', '/v1/tokens/more/stats')).toBeUndefined();
+  });
+
+  it('should prefer exact routes over patterns', () => {
+    const match = compileRouteTable({
+      'POST /v1/premium/*': 'wildcard',
+      'POST /v1/premium/free': 'exact',
+    });
+
+    expect(match('POST', '/v1/premium/free')?.value).toBe('exact');
+    expect(match('POST', '/v1/premium/paid')?.value).toBe('wildcard');
+  });
+
+  it('should try patterns in table order', () => {
+    const match = compileRouteTable({
+      'GET /v1/:resource/latest': 'first',
+      'GET /v1/tokens/:id': 'second',
+    });
+
+    expect(match('GET', '/v1/tokens/latest')?.value).toBe('first');
+  });
+
+  it('should match methods case-insensitively', () => {
+    const match = compileRouteTable({ 'get /health': 'health' });
+
+    expect(match('GET', '/health')?.value).toBe('health');
+  });
+
+  it('should reject malformed keys', () => {
+    expect(() => compileRouteTable({ '/v1/quote': 'quote' })).toThrow('Invalid route key');
+    expect(() => compileRouteTable({ 'GET v1/quote': 'quote' })).toThrow('Invalid route key');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { checkSessionPayload, InMemorySessionStore } from '../../src/middleware/session.js';
+import type { PaymentTerms } from '../../src/middleware/x402.js';
+import { createTestPayer, createSessionHeader, type SessionTerms } from '../helpers/payment.js';
+
+const DEVNET = 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1';
+const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+const requirements: PaymentTerms = {
+  x402Version: 1,
+  scheme: 'exact',
+  network: DEVNET,
+  maxAmountRequired: '5000',
+  amount: '5000',
+  resource: 'http://api.test/v1/swap/enhanced',
+  description: 'Premium',
+  mimeType: 'application/json',
+  payTo: 'TestPaymentWallet',
+  maxTimeoutSeconds: 60,
+  asset: { address: USDC, decimals: 6, symbol: 'USDC' },
+};
+
+const sessionTerms: SessionTerms = {
+  network: DEVNET,
+  asset: USDC,
+  payTo: 'TestPaymentWallet',
+  maxAmount: '20000',
+  resources: ['http://api.test/v1/swap/enhanced'],
+};
+
+describe('checkSessionPayload', () => {
+  const payer = createTestPayer();
+
+  function check(overrides: Partial<SessionTerms> = {}, signer = payer) {
+    const payload = JSON.parse(atob(createSessionHeader(payer, { ...sessionTerms, ...overrides }, signer)));
+    return checkSessionPayload(payload, requirements);
+  }
+
+  it('should accept a valid session', () => {
+    const result = check();
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.payer).toBe(payer.address);
+      expect(result.message.maxAmount).toBe('20000');
+    }
+  });
+
+  it('should reject sessions signed by another key', () => {
+    expect(check({}, createTestPayer())).toEqual({ valid: false, error: 'Invalid session signature' });
+  });
+
+  it('should reject expired sessions', () => {
+    expect(check({ expiresAt: Date.now() - 1 })).toEqual({ valid: false, error: 'Session expired' });
+  });
+
+  it('should reject sessions longer than the maximum lifetime', () => {
+    const issuedAt = Date.now();
+    expect(check({ issuedAt, expiresAt: issuedAt + 48 * 60 * 60 * 1000 }))
+      .toEqual({ valid: false, error: 'Session lifetime exceeds the maximum' });
+  });
+
+  it('should reject future-dated sessions that outlive the maximum lifetime', () => {
+    const issuedAt = Date.now() + 30 * 24 * 60 * 60 * 1000;
+    expect(check({ issuedAt, expiresAt: issuedAt + 60 * 60 * 1000 }))
+      .toEqual({ valid: false, error: 'Session issued in the future' });
+
+    // Within the clock skew allowance, but still ending too far from now
+    const skewed = Date.now() + 30 * 1000;
+    expect(check({ issuedAt: skewed, expiresAt: skewed + 24 * 60 * 60 * 1000 }))
+      .toEqual({ valid: false, error: 'Session lifetime exceeds the maximum' });
+  });
+
+  it('should reject sessions for other recipients or assets', () => {
+    expect(check({ payTo: 'SomeoneElse' })).toEqual({ valid: false, error: 'Session recipient does not match payTo' });
+    expect(check({ asset: 'OtherMint' })).toEqual({ valid: false, error: 'Session asset does not match required asset' });
+  });
+
+  it('should only cover listed resources', () => {
+    expect(check({ resources: ['http://api.test/v1/other'] }))
+      .toEqual({ valid: false, error: 'Session does not cover this resource' });
+    expect(check({ resources: ['http://api.test/v1/*'] }).valid).toBe(true);
+  });
+});
+
+describe('InMemorySessionStore', () => {
+  it('should reserve spend up to the budget', async () => {
+    const store = new InMemorySessionStore();
+    const expiresAt = Date.now() + 60_000;
+
+    expect(await store.reserve('s', 6, 10, expiresAt)).toEqual({ status: 'reserved', remaining: 4 });
+    expect(await store.reserve('s', 6, 10, expiresAt)).toEqual({ status: 'exhausted', remaining: 4 });
+    expect(await store.reserve('s', 4, 10, expiresAt)).toEqual({ status: 'reserved', remaining: 0 });
+  });
+
+  it('should give back released reservations', async () => {
+    const store = new InMemorySessionStore();
+    const expiresAt = Date.now() + 60_000;
+
+    await store.reserve('s', 10, 10, expiresAt);
+    await store.release('s', 10);
+
+    expect(await store.reserve('s', 10, 10, expiresAt)).toEqual({ status: 'reserved', remaining: 0 });
+  });
+
+  it('should track sessions independently', async () => {
+    const store = new InMemorySessionStore();
+    const expiresAt = Date.now() + 60_000;
+
+    await store.reserve('a', 10, 10, expiresAt);
+
+    expect(await store.reserve('b', 10, 10, expiresAt)).toEqual({ status: 'reserved', remaining: 0 });
+  });
+});
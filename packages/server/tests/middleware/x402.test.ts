@@ -1,11 +1,39 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import express, { type Express } from 'express';
+import express, { Router, type Express } from 'express';
 import request from 'supertest';
-import { paymentMiddleware, isPaid, getPaymentInfo, type PricingConfig } from '../../src/middleware/x402.js';
+import {
+  paymentMiddleware,
+  routerPaymentMiddleware,
+  isPaid,
+  getPaymentInfo,
+  reducePaymentPrice,
+  InvalidPaymentRequestError,
+  type PricingConfig,
+} from '../../src/middleware/x402.js';
+import {
+  createTestPayer,
+  createPaymentHeader,
+  termsFromChallenge,
+  decodePaymentResponse,
+  createSessionHeader,
+  type SessionTerms,
+} from '../helpers/payment.js';
+import { InMemoryNonceStore } from '../../src/middleware/nonce-store.js';
+import { InMemoryCreditStore } from '../../src/middleware/credit-store.js';
+import { MockFacilitator } from '../../src/services/mock-facilitator.js';
 
 describe('x402 middleware', () => {
   let app: Express;
   let mockFetch: any;
+  let facilitator: MockFacilitator;
+
+  const payer = createTestPayer();
+
+  // Requests a 402 challenge and returns the terms it asks the client to sign
+  async function challenge() {
+    const response = await request(app).get('/premium').set('Host', 'api.test');
+    return termsFromChallenge(response.headers['payment-required']);
+  }
 
   const testPricing: Record<string, PricingConfig> = {
     'GET /premium': {
@@ -13,15 +41,22 @@ describe('x402 middleware', () => {
       network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
       description: 'Test premium endpoint',
     },
+    'GET /premium-broken': {
+      price: '$0.005',
+      network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+      description: 'Test premium endpoint that fails',
+    },
   };
 
   beforeEach(() => {
     mockFetch = vi.fn();
     vi.stubGlobal('fetch', mockFetch);
 
+    facilitator = new MockFacilitator();
+
     app = express();
     app.use(express.json());
-    app.use(paymentMiddleware('TestPaymentWallet', testPricing, 'https://test.facilitator.com'));
+    app.use(paymentMiddleware('TestPaymentWallet', testPricing, facilitator));
 
     app.get('/premium', (req, res) => {
       res.json({
@@ -31,6 +66,10 @@ describe('x402 middleware', () => {
       });
     });
 
+    app.get('/premium-broken', (req, res) => {
+      res.status(500).json({ error: 'Handler failed' });
+    });
+
     app.get('/free', (req, res) => {
       res.json({ data: 'free content' });
     });
@@ -55,6 +94,12 @@ describe('x402 middleware', () => {
     expect(response.headers['payment-required']).toBeDefined();
   });
 
+  it('should return 402 for premium routes requested in mixed case', async () => {
+    const response = await request(app).get('/PreMium');
+
+    expect(response.status).toBe(402);
+  });
+
   it('should include payment requirements in 402 response', async () => {
     const response = await request(app).get('/premium');
 
@@ -63,43 +108,197 @@ describe('x402 middleware', () => {
     const paymentHeader = response.headers['payment-required'];
     expect(paymentHeader).toBeDefined();
 
-    const requirements = JSON.parse(atob(paymentHeader));
+    const challenge = JSON.parse(atob(paymentHeader));
+    expect(challenge.x402Version).toBe(1);
+    expect(challenge.accepts).toHaveLength(1);
+
+    const requirements = challenge.accepts[0];
     expect(requirements.x402Version).toBe(1);
     expect(requirements.scheme).toBe('exact');
     expect(requirements.network).toBe('solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1');
     expect(requirements.payTo).toBe('TestPaymentWallet');
     expect(requirements.amount).toBe('5000'); // $0.005 * 1e6
+    expect(requirements.nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(requirements.asset).toEqual({
+      address: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+      decimals: 6,
+      symbol: 'USDC',
+    });
   });
 
-  it('should accept valid payment signature (dev mode)', async () => {
-    // Mock facilitator to not respond (triggers dev mode acceptance)
-    mockFetch.mockRejectedValue(new Error('Network error'));
+  it('should issue a fresh nonce with every challenge', async () => {
+    const first = await challenge();
+    const second = await challenge();
 
-    // Create a mock payment payload
-    const paymentPayload = btoa(JSON.stringify({
-      x402Version: 1,
-      scheme: 'exact',
-      network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
-      payload: {
-        message: 'test',
-        signature: 'test_sig',
-        publicKey: 'test_pubkey',
-      },
-    }));
+    expect(first.nonce).not.toBe(second.nonce);
+  });
 
+  it('should accept a valid signed payment', async () => {
     const response = await request(app)
       .get('/premium')
-      .set('payment-signature', paymentPayload);
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, await challenge()));
 
     expect(response.status).toBe(200);
     expect(response.body.data).toBe('premium content');
     expect(response.body.paid).toBe(true);
-    expect(response.body.paymentInfo).toBeDefined();
+    expect(response.body.paymentInfo.payer).toBe(payer.address);
   });
 
   it('should set payment response headers after successful payment', async () => {
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, await challenge()));
+
+    expect(response.status).toBe(200);
+    expect(decodePaymentResponse(response.headers['x-payment-response'])).toEqual({
+      success: true,
+      transaction: facilitator.settled[0].transaction,
+      network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+      payer: payer.address,
+    });
+    expect(response.headers['x-payment-txhash']).toBe(facilitator.settled[0].transaction);
+  });
+
+  it('should verify and settle through the facilitator', async () => {
+    const terms = await challenge();
+
+    await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, terms));
+
+    expect(facilitator.verified).toHaveLength(1);
+    expect(facilitator.settled).toHaveLength(1);
+    expect(facilitator.settled[0]).toMatchObject({
+      payer: payer.address,
+      nonce: terms.nonce,
+      amount: '5000',
+      resource: 'http://api.test/premium',
+    });
+  });
+
+  it('should settle only after the handler has responded', async () => {
+    let settledDuringHandler = -1;
+    app = express();
+    app.use(paymentMiddleware('TestPaymentWallet', testPricing, facilitator));
+    app.get('/premium', (req, res) => {
+      settledDuringHandler = facilitator.settled.length;
+      res.json({ status: getPaymentInfo(req)?.status });
+    });
+
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, await challenge()));
+
+    expect(response.status).toBe(200);
+    expect(response.body.status).toBe('verified');
+    expect(settledDuringHandler).toBe(0);
+    expect(facilitator.settled).toHaveLength(1);
+  });
+
+  it('should cancel the payment when the handler fails', async () => {
+    const challengeResponse = await request(app).get('/premium-broken').set('Host', 'api.test');
+    const terms = termsFromChallenge(challengeResponse.headers['payment-required']);
+
+    const response = await request(app)
+      .get('/premium-broken')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, terms));
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toBe('Handler failed');
+    expect(response.headers['x-payment-response']).toBeUndefined();
+    expect(facilitator.verified).toHaveLength(1);
+    expect(facilitator.settled).toHaveLength(0);
+  });
+
+  it('should reject a payment the facilitator refuses to verify', async () => {
+    facilitator.failNextVerify('insufficient_funds');
+
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, await challenge()));
+
+    expect(response.status).toBe(402);
+    expect(response.body.message).toBe('insufficient_funds');
+    expect(facilitator.settled).toHaveLength(0);
+  });
+
+  it('should reject a payment the facilitator fails to settle', async () => {
+    facilitator.failNextSettle('transaction_failed');
+
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, await challenge()));
+
+    expect(response.status).toBe(402);
+    expect(response.body.error).toBe('Payment Settlement Failed');
+    expect(response.body.message).toBe('transaction_failed');
+    expect(response.body.data).toBeUndefined();
+    expect(response.headers['x-payment-txhash']).toBeUndefined();
+    expect(decodePaymentResponse(response.headers['x-payment-response'])).toMatchObject({
+      success: false,
+      transaction: '',
+      errorReason: 'transaction_failed',
+    });
+  });
+
+  it('should return 503 when the facilitator is unreachable', async () => {
     mockFetch.mockRejectedValue(new Error('Network error'));
 
+    const httpApp = express();
+    httpApp.use(paymentMiddleware('TestPaymentWallet', testPricing, 'https://test.facilitator.com'));
+    httpApp.get('/premium', (req, res) => res.json({ ok: true }));
+
+    const challengeResponse = await request(httpApp).get('/premium').set('Host', 'api.test');
+    const terms = termsFromChallenge(challengeResponse.headers['payment-required']);
+
+    const response = await request(httpApp)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, terms));
+
+    expect(response.status).toBe(503);
+    expect(response.body.error).toBe('Payment Verification Unavailable');
+    expect(mockFetch).toHaveBeenCalledWith('https://test.facilitator.com/verify', expect.anything());
+  });
+
+  it('should accept the same payload again after the facilitator recovers', async () => {
+    vi.spyOn(facilitator, 'verify').mockRejectedValueOnce(new Error('Network error'));
+    const paymentHeader = createPaymentHeader(payer, await challenge());
+
+    const unavailable = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', paymentHeader);
+    const retried = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', paymentHeader);
+
+    expect(unavailable.status).toBe(503);
+    expect(retried.status).toBe(200);
+    expect(retried.body.paid).toBe(true);
+  });
+
+  it('should reject a payload with a forged signature', async () => {
+    const impostor = createTestPayer();
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, await challenge(), impostor));
+
+    expect(response.status).toBe(402);
+    expect(response.body.error).toBe('Payment Invalid');
+    expect(response.body.message).toBe('Invalid payment signature');
+  });
+
+  it('should reject a well-formed payload with a fake signature', async () => {
     const paymentPayload = btoa(JSON.stringify({
       x402Version: 1,
       scheme: 'exact',
@@ -115,14 +314,44 @@ describe('x402 middleware', () => {
       .get('/premium')
       .set('payment-signature', paymentPayload);
 
-    expect(response.status).toBe(200);
-    expect(response.headers['x-payment-response']).toBeDefined();
-    expect(response.headers['x-payment-txhash']).toBeDefined();
+    expect(response.status).toBe(402);
+    expect(response.body.error).toBe('Payment Invalid');
   });
 
-  it('should reject invalid payment version', async () => {
-    mockFetch.mockRejectedValue(new Error('Network error'));
+  it('should reject a signed amount lower than required', async () => {
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, { ...await challenge(), amount: '1' }));
+
+    expect(response.status).toBe(402);
+    expect(response.body.message).toBe('Signed amount does not match required amount');
+  });
 
+  it('should reject a payment signed for a different recipient', async () => {
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, { ...await challenge(), payTo: 'AttackerWallet' }));
+
+    expect(response.status).toBe(402);
+    expect(response.body.message).toBe('Signed recipient does not match payTo');
+  });
+
+  it('should reject a payment signed for a different resource', async () => {
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, {
+        ...await challenge(),
+        resource: 'http://api.test/other',
+      }));
+
+    expect(response.status).toBe(402);
+    expect(response.body.message).toBe('Signed resource does not match requested resource');
+  });
+
+  it('should reject invalid payment version', async () => {
     const paymentPayload = btoa(JSON.stringify({
       x402Version: 999, // Invalid version
       scheme: 'exact',
@@ -139,8 +368,6 @@ describe('x402 middleware', () => {
   });
 
   it('should reject payment with network mismatch', async () => {
-    mockFetch.mockRejectedValue(new Error('Network error'));
-
     const paymentPayload = btoa(JSON.stringify({
       x402Version: 1,
       scheme: 'exact',
@@ -156,29 +383,522 @@ describe('x402 middleware', () => {
     expect(response.body.error).toBe('Payment Invalid');
   });
 
-  it('should accept payment from x-payment header', async () => {
-    mockFetch.mockRejectedValue(new Error('Network error'));
+  it('should reject a replayed payment header', async () => {
+    const paymentHeader = createPaymentHeader(payer, await challenge());
 
-    const paymentPayload = btoa(JSON.stringify({
-      x402Version: 1,
-      scheme: 'exact',
-      network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
-      payload: {
-        message: 'test',
-        signature: 'test_sig',
-        publicKey: 'test_pubkey',
-      },
+    const first = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', paymentHeader);
+
+    const replay = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', paymentHeader);
+
+    expect(first.status).toBe(200);
+    expect(replay.status).toBe(402);
+    expect(replay.body.message).toBe('Payment has already been used');
+  });
+
+  it('should reject a nonce the server never issued', async () => {
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, { ...await challenge(), nonce: 'made-up' }));
+
+    expect(response.status).toBe(402);
+    expect(response.body.message).toBe('Unknown payment nonce');
+  });
+
+  it('should reject a payment signed after the challenge expired', async () => {
+    const terms = await challenge();
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, {
+        ...terms,
+        timestamp: Date.now() - 61_000,
+      }));
+
+    expect(response.status).toBe(402);
+    expect(response.body.message).toBe('Payment authorization expired');
+  });
+
+  it('should use the provided nonce store', async () => {
+    const nonceStore = new InMemoryNonceStore();
+    const issueSpy = vi.spyOn(nonceStore, 'issue');
+
+    const customApp = express();
+    customApp.use(paymentMiddleware('TestPaymentWallet', testPricing, facilitator, {
+      nonceStore,
     }));
+    customApp.get('/premium', (req, res) => res.json({ ok: true }));
+
+    await request(customApp).get('/premium');
+
+    expect(issueSpy).toHaveBeenCalledTimes(1);
+    expect(nonceStore.size).toBe(1);
+  });
+
+  it('should pass nonce store failures to the error handler', async () => {
+    const nonceStore = new InMemoryNonceStore();
+    vi.spyOn(nonceStore, 'issue').mockRejectedValue(new Error('Nonce store is corrupt'));
+
+    const customApp = express();
+    customApp.use(paymentMiddleware('TestPaymentWallet', testPricing, facilitator, { nonceStore }));
+    customApp.get('/premium', (req, res) => res.json({ ok: true }));
+    customApp.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).json({ error: err.message });
+    });
+
+    const response = await request(customApp).get('/premium');
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toBe('Nonce store is corrupt');
+  });
+
+  it('should end the response when a credit refund fails', async () => {
+    const creditStore = new InMemoryCreditStore();
+    await creditStore.create('token-1', { balance: 1_000_000, createdAt: Date.now() });
+    vi.spyOn(creditStore, 'credit').mockRejectedValue(new Error('Credit store unavailable'));
+
+    const customApp = express();
+    customApp.use(paymentMiddleware('TestPaymentWallet', testPricing, facilitator, { creditStore }));
+    customApp.get('/premium-broken', (req, res) => res.status(500).json({ error: 'Handler failed' }));
+
+    const response = await request(customApp)
+      .get('/premium-broken')
+      .set('Authorization', 'Bearer token-1')
+      .timeout(2000);
 
+    expect(response.status).toBe(500);
+    expect(response.body.error).toBe('Payment Finalization Failed');
+  });
+
+  it('should refund credit the handler did not charge', async () => {
+    const creditStore = new InMemoryCreditStore();
+    await creditStore.create('token-1', { balance: 1_000_000, createdAt: Date.now() });
+
+    const customApp = express();
+    customApp.use(paymentMiddleware('TestPaymentWallet', testPricing, facilitator, { creditStore }));
+    customApp.get('/premium', (req, res) => {
+      reducePaymentPrice(req, '$0.002');
+      res.json({ paymentInfo: getPaymentInfo(req) });
+    });
+
+    const response = await request(customApp).get('/premium').set('Authorization', 'Bearer token-1');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-credit-balance']).toBe('0.998000');
+    expect((await creditStore.get('token-1'))?.balance).toBe(998_000);
+  });
+
+  it('should accept payment from x-payment header', async () => {
     const response = await request(app)
       .get('/premium')
-      .set('x-payment', paymentPayload);
+      .set('Host', 'api.test')
+      .set('x-payment', createPaymentHeader(payer, await challenge()));
 
     expect(response.status).toBe(200);
     expect(response.body.paid).toBe(true);
   });
 });
 
+describe('x402 middleware with multiple payment options', () => {
+  const MAINNET = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+  const payer = createTestPayer();
+  let app: Express;
+  let facilitator: MockFacilitator;
+
+  const multiPricing: Record<string, PricingConfig> = {
+    'GET /premium': {
+      price: '$0.005',
+      accepts: [
+        { network: MAINNET, asset: 'USDC' },
+        { network: MAINNET, asset: 'USDT' },
+        {
+          network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+          asset: { address: 'So11111111111111111111111111111111111111112', decimals: 9, symbol: 'SOL' },
+          price: '$0.00003',
+        },
+      ],
+      description: 'Test premium endpoint',
+    },
+  };
+
+  async function challenge() {
+    const response = await request(app).get('/premium').set('Host', 'api.test');
+    return response.headers['payment-required'];
+  }
+
+  beforeEach(() => {
+    facilitator = new MockFacilitator();
+    app = express();
+    app.use(paymentMiddleware('TestPaymentWallet', multiPricing, facilitator));
+    app.get('/premium', (req, res) => res.json({ paymentInfo: getPaymentInfo(req) }));
+  });
+
+  it('should list every option in the accepts array', async () => {
+    const response = await request(app).get('/premium');
+    const { accepts } = JSON.parse(atob(response.headers['payment-required']));
+
+    expect(response.body.accepts).toEqual(accepts);
+    expect(accepts.map((a: any) => a.asset.symbol)).toEqual(['USDC', 'USDT', 'SOL']);
+    expect(accepts.map((a: any) => a.amount)).toEqual(['5000', '5000', '30000']);
+    expect(new Set(accepts.map((a: any) => a.nonce)).size).toBe(1);
+  });
+
+  it('should accept payment with any listed option', async () => {
+    const terms = termsFromChallenge(await challenge(), 1);
+
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, terms));
+
+    expect(response.status).toBe(200);
+    expect(response.body.paymentInfo.asset).toBe('Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB');
+    expect(response.body.paymentInfo.network).toBe(MAINNET);
+  });
+
+  it('should reject payment with an asset that is not offered', async () => {
+    const terms = termsFromChallenge(await challenge(), 0);
+
+    const response = await request(app)
+      .get('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, { ...terms, asset: 'UnlistedMint' }));
+
+    expect(response.status).toBe(402);
+    expect(response.body.message).toBe('Signed asset does not match required asset');
+  });
+
+  it('should return 500 for an unknown asset on a network', async () => {
+    const badApp = express();
+    badApp.use(paymentMiddleware('TestPaymentWallet', {
+      'GET /premium': {
+        price: '$0.005',
+        accepts: [{ network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1', asset: 'USDT' }],
+        description: 'Misconfigured',
+      },
+    }, facilitator));
+
+    const response = await request(badApp).get('/premium');
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('x402 middleware with dynamic pricing', () => {
+  const payer = createTestPayer();
+  let app: Express;
+  let facilitator: MockFacilitator;
+  let priceFn: ReturnType<typeof vi.fn>;
+
+  async function challenge(body: object) {
+    const response = await request(app).post('/premium').set('Host', 'api.test').send(body);
+    return response;
+  }
+
+  beforeEach(() => {
+    facilitator = new MockFacilitator();
+    priceFn = vi.fn((body: any) => (body.deluxe ? '$0.01' : '$0.002'));
+
+    app = express();
+    app.use(express.json());
+    app.use(paymentMiddleware('TestPaymentWallet', {
+      'POST /premium': {
+        price: priceFn,
+        network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+        description: 'Dynamically priced endpoint',
+      },
+    }, facilitator));
+    app.post('/premium', (req, res) => res.json({ paymentInfo: getPaymentInfo(req) }));
+  });
+
+  it('should price the challenge from the parsed body', async () => {
+    const cheap = await challenge({ deluxe: false });
+    const deluxe = await challenge({ deluxe: true });
+
+    expect(priceFn).toHaveBeenCalledWith({ deluxe: true }, expect.anything(), {});
+    expect(cheap.body.price).toBe('$0.002');
+    expect(termsFromChallenge(cheap.headers['payment-required']).amount).toBe('2000');
+    expect(deluxe.body.price).toBe('$0.01');
+    expect(termsFromChallenge(deluxe.headers['payment-required']).amount).toBe('10000');
+  });
+
+  it('should accept payment for the same body', async () => {
+    const terms = termsFromChallenge((await challenge({ deluxe: true })).headers['payment-required']);
+
+    const response = await request(app)
+      .post('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, terms))
+      .send({ deluxe: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body.paymentInfo.amount).toBe('10000');
+  });
+
+  it('should reject a payment signed for a cheaper body', async () => {
+    const terms = termsFromChallenge((await challenge({ deluxe: false })).headers['payment-required']);
+
+    const response = await request(app)
+      .post('/premium')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, terms))
+      .send({ deluxe: true });
+
+    expect(response.status).toBe(402);
+    expect(response.body.message).toBe('Signed amount does not match required amount');
+    expect(facilitator.settled).toHaveLength(0);
+  });
+
+  it('should support async pricing functions', async () => {
+    priceFn.mockImplementation(async () => '$0.003');
+
+    const response = await challenge({});
+
+    expect(termsFromChallenge(response.headers['payment-required']).amount).toBe('3000');
+  });
+
+  it('should return 500 when pricing fails', async () => {
+    priceFn.mockImplementation(() => 'free');
+
+    const response = await challenge({});
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toBe('Server configuration error');
+  });
+
+  it('should answer 400 without a challenge when the price function rejects the request', async () => {
+    priceFn.mockImplementation(() => {
+      throw new InvalidPaymentRequestError('Invalid request', 'deluxe must be a boolean');
+    });
+
+    const response = await challenge({ deluxe: 'yes' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'Invalid request', message: 'deluxe must be a boolean' });
+    expect(response.headers['payment-required']).toBeUndefined();
+  });
+});
+
+describe('x402 middleware route patterns', () => {
+  const DEVNET = 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1';
+  const payer = createTestPayer();
+  let facilitator: MockFacilitator;
+
+  beforeEach(() => {
+    facilitator = new MockFacilitator();
+  });
+
+  it('should price parameterized routes and pass the params to pricing functions', async () => {
+    const priceFn = vi.fn(() => '$0.002');
+    const app = express();
+    app.use(paymentMiddleware('TestPaymentWallet', {
+      'GET /v1/analytics/:mint': { price: priceFn, network: DEVNET, description: 'Token analytics' },
+    }, facilitator));
+    app.get('/v1/analytics/:mint', (req, res) => res.json({ mint: req.params.mint }));
+
+    const response = await request(app).get('/v1/analytics/MintAddress');
+
+    expect(response.status).toBe(402);
+    expect(priceFn).toHaveBeenCalledWith({}, expect.anything(), { mint: 'MintAddress' });
+    expect(response.body.accepts[0].amount).toBe('2000');
+  });
+
+  it('should price every route under a wildcard', async () => {
+    const app = express();
+    app.use(paymentMiddleware('TestPaymentWallet', {
+      'POST /v1/premium/*': { price: '$0.005', network: DEVNET, description: 'Premium' },
+    }, facilitator));
+    app.post('/v1/premium/:feature', (req, res) => res.json({ ok: true }));
+    app.post('/v1/free', (req, res) => res.json({ ok: true }));
+
+    expect((await request(app).post('/v1/premium/swap')).status).toBe(402);
+    expect((await request(app).post('/v1/premium/batch')).status).toBe(402);
+    expect((await request(app).post('/v1/free')).status).toBe(200);
+  });
+
+  it('should match full paths when applied to a mounted router', async () => {
+    const app = express();
+    const router = Router();
+    router.use(paymentMiddleware('TestPaymentWallet', {
+      'GET /v1/premium/report': { price: '$0.005', network: DEVNET, description: 'Report' },
+    }, facilitator));
+    router.get('/report', (req, res) => res.json({ ok: true }));
+    app.use('/v1/premium', router);
+
+    expect((await request(app).get('/v1/premium/report')).status).toBe(402);
+  });
+
+  it('should match keys relative to the router with routerPaymentMiddleware', async () => {
+    const app = express();
+    const router = Router();
+    router.use(routerPaymentMiddleware('TestPaymentWallet', {
+      'GET /:mint': { price: '$0.001', description: 'Token analytics' },
+    }, facilitator, { accepts: [{ network: DEVNET }] }));
+    router.get('/:mint', (req, res) => res.json({ mint: req.params.mint, paymentInfo: getPaymentInfo(req) }));
+    app.use('/v1/analytics', router);
+
+    const unpaid = await request(app).get('/v1/analytics/MintAddress').set('Host', 'api.test');
+    expect(unpaid.status).toBe(402);
+
+    const terms = termsFromChallenge(unpaid.headers['payment-required']);
+    expect(terms.resource).toBe('http://api.test/v1/analytics/MintAddress');
+    expect(terms.network).toBe(DEVNET);
+
+    const paid = await request(app)
+      .get('/v1/analytics/MintAddress')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, terms));
+
+    expect(paid.status).toBe(200);
+    expect(paid.body.mint).toBe('MintAddress');
+    expect(paid.body.paymentInfo.amount).toBe('1000');
+  });
+
+  it('should return 500 when a route has no payment options', async () => {
+    const app = express();
+    app.use(paymentMiddleware('TestPaymentWallet', {
+      'GET /premium': { price: '$0.005', description: 'No options' },
+    }, facilitator));
+
+    expect((await request(app).get('/premium')).status).toBe(500);
+  });
+
+  it('should reject malformed pricing keys when created', () => {
+    expect(() => paymentMiddleware('TestPaymentWallet', {
+      '/premium': { price: '$0.005', network: DEVNET, description: 'Missing method' },
+    }, facilitator)).toThrow('Invalid route key');
+  });
+});
+
+describe('x402 middleware payment sessions', () => {
+  const DEVNET = 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1';
+  const payer = createTestPayer();
+  let app: Express;
+  let facilitator: MockFacilitator;
+
+  const session: SessionTerms = {
+    network: DEVNET,
+    asset: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+    payTo: 'TestPaymentWallet',
+    maxAmount: '12000',
+    resources: ['http://api.test/premium*'],
+  };
+
+  function paidRequest(header: string, path: string = '/premium') {
+    return request(app).get(path).set('Host', 'api.test').set('x-payment-session', header);
+  }
+
+  beforeEach(() => {
+    facilitator = new MockFacilitator();
+    app = express();
+    app.use(paymentMiddleware('TestPaymentWallet', {
+      'GET /premium': { price: '$0.005', network: DEVNET, description: 'Premium' },
+      'GET /premium-broken': { price: '$0.005', network: DEVNET, description: 'Broken' },
+      'GET /premium-partial': { price: '$0.005', network: DEVNET, description: 'Partial' },
+      'GET /other': { price: '$0.005', network: DEVNET, description: 'Other' },
+    }, facilitator));
+    app.get('/premium-partial', (req, res) => {
+      reducePaymentPrice(req, '$0.002');
+      res.json({ ok: true });
+    });
+    app.get('/premium', (req, res) => res.json({ paymentInfo: getPaymentInfo(req) }));
+    app.get('/premium-broken', (req, res) => res.status(500).json({ error: 'Handler failed' }));
+    app.get('/other', (req, res) => res.json({ ok: true }));
+  });
+
+  it('should charge repeated requests to one signed session', async () => {
+    const header = createSessionHeader(payer, session);
+
+    const first = await paidRequest(header);
+    const second = await paidRequest(header);
+
+    expect(first.status).toBe(200);
+    expect(first.body.paymentInfo).toMatchObject({ method: 'session', status: 'verified', payer: payer.address });
+    expect(first.headers['x-payment-session-remaining']).toBe('7000');
+    expect(second.status).toBe(200);
+    expect(second.headers['x-payment-session-remaining']).toBe('2000');
+    expect(decodePaymentResponse(second.headers['x-payment-response']).success).toBe(true);
+    expect(facilitator.settled).toHaveLength(2);
+  });
+
+  it('should answer with a challenge once the budget is spent', async () => {
+    const header = createSessionHeader(payer, session);
+    await paidRequest(header);
+    await paidRequest(header);
+
+    const response = await paidRequest(header);
+
+    expect(response.status).toBe(402);
+    expect(response.body.error).toBe('Session Budget Exhausted');
+    expect(response.headers['payment-required']).toBeDefined();
+    expect(facilitator.settled).toHaveLength(2);
+  });
+
+  it('should not charge the session when the handler fails', async () => {
+    const header = createSessionHeader(payer, session);
+
+    const failed = await paidRequest(header, '/premium-broken');
+    const next = await paidRequest(header);
+
+    expect(failed.status).toBe(500);
+    expect(failed.headers['x-payment-session-remaining']).toBe('12000');
+    expect(next.headers['x-payment-session-remaining']).toBe('7000');
+    expect(facilitator.settled).toHaveLength(1);
+  });
+
+  it('should charge the session the price the handler lowered it to', async () => {
+    const header = createSessionHeader(payer, session);
+
+    const partial = await paidRequest(header, '/premium-partial');
+    const next = await paidRequest(header);
+
+    expect(partial.status).toBe(200);
+    expect(partial.headers['x-payment-session-remaining']).toBe('10000');
+    expect(facilitator.settled[0].amount).toBe('2000');
+    expect(next.headers['x-payment-session-remaining']).toBe('5000');
+  });
+
+  it('should reject expired sessions with a fresh challenge', async () => {
+    const response = await paidRequest(createSessionHeader(payer, { ...session, expiresAt: Date.now() - 1 }));
+
+    expect(response.status).toBe(402);
+    expect(response.body.error).toBe('Session Invalid');
+    expect(response.body.message).toBe('Session expired');
+    expect(response.headers['payment-required']).toBeDefined();
+  });
+
+  it('should reject resources outside the session', async () => {
+    const response = await paidRequest(createSessionHeader(payer, session), '/other');
+
+    expect(response.status).toBe(402);
+    expect(response.body.message).toBe('Session does not cover this resource');
+  });
+
+  it('should reject forged sessions', async () => {
+    const response = await paidRequest(createSessionHeader(payer, session, createTestPayer()));
+
+    expect(response.status).toBe(402);
+    expect(response.body.message).toBe('Invalid session signature');
+  });
+
+  it('should keep budgets of different payers apart', async () => {
+    const other = createTestPayer();
+    await paidRequest(createSessionHeader(payer, session));
+    await paidRequest(createSessionHeader(payer, session));
+
+    const response = await paidRequest(createSessionHeader(other, session));
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-payment-session-remaining']).toBe('7000');
+  });
+});
+
 describe('isPaid helper', () => {
   it('should return false for request without payment', () => {
     const req = {} as any;
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { routerPaymentMiddleware, getPaymentInfo, type PricingConfig } from '../../src/middleware/x402.js';
+import { InMemoryNonceStore } from '../../src/middleware/nonce-store.js';
+import { InMemoryCreditStore } from '../../src/middleware/credit-store.js';
+import { createCreditsRouter, creditsPricing } from '../../src/routes/credits.js';
+import { MockFacilitator } from '../../src/services/mock-facilitator.js';
+import { createTestPayer, createPaymentHeader, termsFromChallenge } from '../helpers/payment.js';
+
+describe('Credit routes', () => {
+  const payer = createTestPayer();
+  let app: Express;
+  let facilitator: MockFacilitator;
+  let creditStore: InMemoryCreditStore;
+
+  const premiumPricing: Record<string, PricingConfig> = {
+    'POST /': { price: '$0.25', description: 'Premium endpoint' },
+  };
+
+  // Buys credit with a per-request x402 payment
+  async function topUp(amount: unknown, token?: string) {
+    const auth = (req: request.Test) => (token ? req.set('Authorization', `Bearer ${token}`) : req);
+
+    const unpaid = await auth(request(app).post('/v1/credits').set('Host', 'api.test')).send({ amount });
+    const terms = termsFromChallenge(unpaid.headers['payment-required']);
+
+    return auth(request(app)
+      .post('/v1/credits')
+      .set('Host', 'api.test')
+      .set('payment-signature', createPaymentHeader(payer, terms)))
+      .send({ amount });
+  }
+
+  beforeEach(() => {
+    facilitator = new MockFacilitator();
+    creditStore = new InMemoryCreditStore();
+
+    // Mounted like the server: each router behind middleware for its own pricing
+    const payment = {
+      accepts: [{ network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1' }],
+      nonceStore: new InMemoryNonceStore(),
+      creditStore,
+    };
+
+    app = express();
+    app.use(express.json());
+    app.use('/', routerPaymentMiddleware('TestPaymentWallet', creditsPricing, facilitator, payment),
+      createCreditsRouter(creditStore));
+    app.use('/premium', routerPaymentMiddleware('TestPaymentWallet', premiumPricing, facilitator, payment));
+    app.post('/premium', (req, res) => {
+      if (req.body.fail) return res.status(500).json({ error: 'Handler failed' });
+      res.json({ paymentInfo: getPaymentInfo(req) });
+    });
+  });
+
+  describe('POST /v1/credits', () => {
+    it('should price the top-up at the requested amount', async () => {
+      const response = await request(app).post('/v1/credits').send({ amount: 2.5 });
+
+      expect(response.status).toBe(402);
+      expect(response.body.accepts[0].amount).toBe('2500000');
+    });
+
+    it('should issue a credit token once the payment settles', async () => {
+      const response = await topUp(1);
+
+      expect(response.status).toBe(200);
+      expect(response.body.token).toMatch(/^gcr_[0-9a-f]{48}$/);
+      expect(response.body.balance).toBe('1.000000');
+      expect(response.headers['x-credit-balance']).toBe('1.000000');
+      expect(facilitator.settled).toHaveLength(1);
+
+      const account = await creditStore.get(response.body.token);
+      expect(account?.balance).toBe(1_000_000);
+      expect(account?.payer).toBe(payer.address);
+    });
+
+    it('should not issue credit when settlement fails', async () => {
+      facilitator.failNextSettle('insufficient_funds');
+
+      const response = await topUp(1);
+
+      expect(response.status).toBe(402);
+      expect(response.body.token).toBeUndefined();
+    });
+
+    it('should add to an existing token', async () => {
+      const { body: { token } } = await topUp(1);
+
+      const response = await topUp(0.5, token);
+
+      expect(response.status).toBe(200);
+      expect(response.body.token).toBe(token);
+      expect(response.body.balance).toBe('1.500000');
+      expect((await creditStore.get(token))?.balance).toBe(1_500_000);
+    });
+
+    it('should reject out-of-range amounts without settling', async () => {
+      const response = await topUp(1000);
+
+      expect(response.status).toBe(400);
+      expect(facilitator.settled).toHaveLength(0);
+    });
+  });
+
+  describe('GET /v1/credits', () => {
+    it('should return the balance for a token', async () => {
+      const { body: { token } } = await topUp(1);
+
+      const response = await request(app).get('/v1/credits').set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.balance).toBe('1.000000');
+    });
+
+    it('should reject unknown tokens', async () => {
+      const response = await request(app).get('/v1/credits').set('Authorization', 'Bearer gcr_unknown');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('spending credit', () => {
+    it('should debit paid routes and report the remaining balance', async () => {
+      const { body: { token } } = await topUp(1);
+
+      const response = await request(app)
+        .post('/premium')
+        .set('Authorization', `Bearer ${token}`)
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(response.headers['x-credit-balance']).toBe('0.750000');
+      expect(response.body.paymentInfo).toMatchObject({
+        method: 'credit',
+        status: 'settled',
+        amount: '250000',
+        payer: payer.address,
+        creditBalance: '0.750000',
+      });
+      expect(facilitator.settled).toHaveLength(1); // only the top-up
+    });
+
+    it('should refund the debit when the handler fails', async () => {
+      const { body: { token } } = await topUp(1);
+
+      const response = await request(app)
+        .post('/premium')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ fail: true });
+
+      expect(response.status).toBe(500);
+      expect(response.headers['x-credit-balance']).toBe('1.000000');
+      expect((await creditStore.get(token))?.balance).toBe(1_000_000);
+    });
+
+    it('should answer with a payment challenge when the balance is too low', async () => {
+      const { body: { token } } = await topUp(0.1);
+
+      const response = await request(app)
+        .post('/premium')
+        .set('Authorization', `Bearer ${token}`)
+        .send({});
+
+      expect(response.status).toBe(402);
+      expect(response.body.error).toBe('Insufficient Credit');
+      expect(response.body.creditBalance).toBe('0.100000');
+      expect(response.headers['payment-required']).toBeDefined();
+    });
+
+    it('should reject unknown tokens', async () => {
+      const response = await request(app)
+        .post('/premium')
+        .set('Authorization', 'Bearer gcr_unknown')
+        .send({});
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Invalid Credit Token');
+    });
+
+    it('should prefer a signed payment over the credit token', async () => {
+      const { body: { token } } = await topUp(1);
+      const unpaid = await request(app).post('/premium').set('Host', 'api.test').send({});
+
+      const response = await request(app)
+        .post('/premium')
+        .set('Host', 'api.test')
+        .set('Authorization', `Bearer ${token}`)
+        .set('payment-signature', createPaymentHeader(payer, termsFromChallenge(unpaid.headers['payment-required'])))
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.paymentInfo.method).toBe('x402');
+      expect((await creditStore.get(token))?.balance).toBe(1_000_000);
+    });
+  });
+});
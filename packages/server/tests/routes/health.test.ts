@@ -42,7 +42,10 @@ describe('Health routes', () => {
       const response = await request(app).get('/info');
 
       expect(response.body.pricing).toBeDefined();
-      expect(response.body.pricing['POST /v1/swap/enhanced']).toBe('$0.005 per request');
+      expect(response.body.pricing['POST /v1/swap/enhanced']).toMatchObject({
+        base: '$0.001',
+        mevProtection: '+$0.002',
+      });
     });
 
     it('should include feature descriptions', async () => {
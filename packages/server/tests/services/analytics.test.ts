@@ -1,6 +1,16 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { getRouteAnalytics, type RouteAnalytics } from '../../src/services/analytics.js';
 
+// Mints are not on the mocked cluster, so listed decimals are used
+vi.mock('@solana/web3.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@solana/web3.js')>(),
+  Connection: class MockConnection {
+    getAccountInfo() {
+      return Promise.resolve(null);
+    }
+  },
+}));
+
 // Mock quote response
 function createMockQuote(options: {
   inAmount?: string;
@@ -42,6 +52,19 @@ describe('getRouteAnalytics', () => {
     expect(typeof analytics.summary.effectivePrice).toBe('number');
   });
 
+  it('should quote the effective price in whole tokens', async () => {
+    const quote = {
+      ...createMockQuote({ inAmount: '1000000000', outAmount: '150000000' }),
+      inputMint: 'So11111111111111111111111111111111111111112', // 9 decimals
+      outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // 6 decimals
+    };
+
+    const analytics = await getRouteAnalytics(quote);
+
+    // 1 SOL for 150 USDC
+    expect(analytics.summary.effectivePrice).toBe(150);
+  });
+
   it('should identify multiple DEXes in multi-hop routes', async () => {
     const routePlan = [
       {
@@ -155,6 +178,39 @@ describe('getRouteAnalytics', () => {
     expect(analytics.comparison.vsDirectRoute?.improvement).toBeGreaterThanOrEqual(0);
   });
 
+  it('should measure ExactOut route improvement as input saved', async () => {
+    const routePlan = [
+      { swapInfo: { ammKey: 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc', inAmount: '1000', outAmount: '900' } },
+      { swapInfo: { ammKey: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', inAmount: '900', outAmount: '800' } },
+    ];
+    const quote = {
+      ...createMockQuote({ inAmount: '1000000000', outAmount: '25000000', routePlan }),
+      swapMode: 'ExactOut',
+    };
+
+    const analytics = await getRouteAnalytics(quote);
+
+    expect(analytics.comparison.vsDirectRoute?.improvement).toBe(2_000_000);
+  });
+
+  it('should report the platform fee in the summary', async () => {
+    const quote = {
+      ...createMockQuote(),
+      inputMint: 'So11111111111111111111111111111111111111112',
+      outputMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      platformFee: { amount: '375000', feeBps: 25 },
+    };
+
+    const analytics = await getRouteAnalytics(quote);
+
+    expect(analytics.summary.platformFee).toEqual({
+      amount: '375000',
+      feeBps: 25,
+      mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    });
+    expect((await getRouteAnalytics(createMockQuote())).summary.platformFee).toBeUndefined();
+  });
+
   it('should return null vsDirectRoute for single-hop routes', async () => {
     const quote = createMockQuote();
     const analytics = await getRouteAnalytics(quote);
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import request from 'supertest';
+import { HttpFacilitator, FacilitatorError } from '../../src/services/facilitator.js';
+import { MockFacilitator, createMockFacilitatorApp } from '../../src/services/mock-facilitator.js';
+import { createTestPayer, createPaymentHeader } from '../helpers/payment.js';
+
+const requirements = {
+  x402Version: 1,
+  scheme: 'exact',
+  network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+  maxAmountRequired: '5000',
+  amount: '5000',
+  resource: 'http://api.test/premium',
+  description: 'Test premium endpoint',
+  mimeType: 'application/json',
+  payTo: 'TestPaymentWallet',
+  maxTimeoutSeconds: 60,
+  asset: {
+    address: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+    decimals: 6,
+    symbol: 'USDC',
+  },
+  nonce: 'nonce-1',
+};
+
+const payer = createTestPayer();
+
+function signedPayload(overrides: Partial<typeof requirements> = {}) {
+  const terms = { ...requirements, ...overrides };
+  return JSON.parse(atob(createPaymentHeader(payer, { ...terms, asset: terms.asset.address })));
+}
+
+describe('HttpFacilitator', () => {
+  it('should POST payload and requirements to /verify', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ isValid: true, payer: 'payer' }), { status: 200 })
+    );
+    const facilitator = new HttpFacilitator('https://facilitator.test/', { fetch: fetchMock });
+    const payload = signedPayload();
+
+    const result = await facilitator.verify(payload, requirements);
+
+    expect(result).toEqual({ isValid: true, payer: 'payer' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://facilitator.test/verify');
+    expect(JSON.parse(init.body)).toEqual({
+      x402Version: 1,
+      paymentPayload: payload,
+      paymentRequirements: requirements,
+    });
+  });
+
+  it('should pass through rejection bodies returned with a 4xx status', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ success: false, errorReason: 'insufficient_funds', transaction: '', network: 'n' }), {
+        status: 400,
+      })
+    );
+    const facilitator = new HttpFacilitator('https://facilitator.test', { fetch: fetchMock });
+
+    const result = await facilitator.settle(signedPayload(), requirements);
+
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe('insufficient_funds');
+  });
+
+  it('should throw FacilitatorError on server errors', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('oops', { status: 500 }));
+    const facilitator = new HttpFacilitator('https://facilitator.test', { fetch: fetchMock });
+
+    await expect(facilitator.verify(signedPayload(), requirements)).rejects.toThrow(FacilitatorError);
+  });
+
+  it('should throw FacilitatorError when the network fails', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+    const facilitator = new HttpFacilitator('https://facilitator.test', { fetch: fetchMock });
+
+    await expect(facilitator.settle(signedPayload(), requirements)).rejects.toThrow(/ECONNREFUSED/);
+  });
+
+  it('should send configured headers', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ kinds: [] }), { status: 200 })
+    );
+    const facilitator = new HttpFacilitator('https://facilitator.test', {
+      fetch: fetchMock,
+      headers: { Authorization: 'Bearer key' },
+    });
+
+    await facilitator.supported();
+
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer key');
+  });
+});
+
+describe('MockFacilitator', () => {
+  it('should verify a correctly signed payload', async () => {
+    const facilitator = new MockFacilitator();
+
+    const result = await facilitator.verify(signedPayload(), requirements);
+
+    expect(result).toEqual({ isValid: true, payer: payer.address });
+  });
+
+  it('should reject a payload signed for another nonce', async () => {
+    const facilitator = new MockFacilitator();
+
+    const result = await facilitator.verify(signedPayload({ nonce: 'other' }), requirements);
+
+    expect(result.isValid).toBe(false);
+  });
+
+  it('should settle a payment only once', async () => {
+    const facilitator = new MockFacilitator();
+    const payload = signedPayload();
+
+    const first = await facilitator.settle(payload, requirements);
+    const second = await facilitator.settle(payload, requirements);
+
+    expect(first.success).toBe(true);
+    expect(first.transaction).toMatch(/^[1-9A-HJ-NP-Za-km-z]{80,90}$/);
+    expect(second.success).toBe(false);
+    expect(second.errorReason).toBe('Payment already settled');
+  });
+
+  it('should apply scripted failures once', async () => {
+    const facilitator = new MockFacilitator();
+    facilitator.failNextVerify('insufficient_funds');
+
+    const failed = await facilitator.verify(signedPayload(), requirements);
+    const passed = await facilitator.verify(signedPayload(), requirements);
+
+    expect(failed).toEqual({ isValid: false, invalidReason: 'insufficient_funds' });
+    expect(passed.isValid).toBe(true);
+  });
+});
+
+describe('createMockFacilitatorApp', () => {
+  it('should serve verify, settle and supported over HTTP', async () => {
+    const app = createMockFacilitatorApp();
+    const body = { x402Version: 1, paymentPayload: signedPayload(), paymentRequirements: requirements };
+
+    const verify = await request(app).post('/verify').send(body);
+    const settle = await request(app).post('/settle').send(body);
+    const supported = await request(app).get('/supported');
+
+    expect(verify.status).toBe(200);
+    expect(verify.body.isValid).toBe(true);
+    expect(settle.status).toBe(200);
+    expect(settle.body.success).toBe(true);
+    expect(supported.body.kinds).toHaveLength(4);
+  });
+
+  it('should answer invalid payloads with 400 and a reason', async () => {
+    const app = createMockFacilitatorApp();
+    const payload = signedPayload({ amount: '1' });
+
+    const response = await request(app)
+      .post('/verify')
+      .send({ x402Version: 1, paymentPayload: payload, paymentRequirements: requirements });
+
+    expect(response.status).toBe(400);
+    expect(response.body.isValid).toBe(false);
+    expect(response.body.invalidReason).toBe('Signed amount does not match required amount');
+  });
+
+  it('should answer malformed requirements with 400 instead of throwing', async () => {
+    const app = createMockFacilitatorApp();
+    const { asset: _asset, ...malformed } = requirements;
+    const body = { x402Version: 1, paymentPayload: signedPayload(), paymentRequirements: malformed };
+
+    const verify = await request(app).post('/verify').send(body);
+    const settle = await request(app).post('/settle').send(body);
+
+    expect(verify.status).toBe(400);
+    expect(verify.body.isValid).toBe(false);
+    expect(verify.body.invalidReason).toMatch(/^Malformed payment/);
+    expect(settle.status).toBe(400);
+    expect(settle.body.success).toBe(false);
+    expect(settle.body.network).toBe(requirements.network);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CircuitBreaker,
+  JupiterError,
+  ResilientJupiterClient,
+  classifyJupiterError,
+} from '../../src/services/jupiter-client.js';
+
+// Error the Jupiter API client throws for a non-2xx response
+function responseError(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return Object.assign(new Error('Response returned an error code'), {
+    name: 'ResponseError',
+    response: new Response(JSON.stringify(body), { status, headers }),
+  });
+}
+
+const quoteRequest = { inputMint: 'SOL', outputMint: 'USDC', amount: 1_000_000_000 };
+
+function createClient(quoteGet: (...args: any[]) => Promise<any>, options = {}) {
+  const api = { quoteGet: vi.fn(quoteGet), swapPost: vi.fn() };
+  const sleep = vi.fn(async () => {});
+  const client = new ResilientJupiterClient(api as any, { sleep, random: () => 0.5, ...options });
+  return { client, api, sleep };
+}
+
+describe('classifyJupiterError', () => {
+  it('should classify upstream responses', async () => {
+    expect((await classifyJupiterError(responseError(429, {}, { 'retry-after': '2' })))).toMatchObject({
+      code: 'rate_limited',
+      status: 429,
+      options: { upstreamStatus: 429, retryAfterMs: 2000 },
+    });
+    expect((await classifyJupiterError(responseError(503))).code).toBe('unavailable');
+    expect((await classifyJupiterError(responseError(400, {
+      error: 'Could not find any route',
+      errorCode: 'COULD_NOT_FIND_ANY_ROUTE',
+    })))).toMatchObject({ code: 'no_route', status: 400 });
+    expect((await classifyJupiterError(responseError(400, { error: 'Invalid mint' })))).toMatchObject({
+      code: 'bad_request',
+      message: 'Invalid mint',
+    });
+  });
+
+  it('should classify network failures and aborts', async () => {
+    expect((await classifyJupiterError(new TypeError('fetch failed'))).code).toBe('unavailable');
+    expect((await classifyJupiterError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).code)
+      .toBe('timeout');
+  });
+});
+
+describe('ResilientJupiterClient', () => {
+  it('should retry 429 and 5xx responses with jittered backoff', async () => {
+    const { client, api, sleep } = createClient(vi.fn()
+      .mockRejectedValueOnce(responseError(502))
+      .mockRejectedValueOnce(responseError(429))
+      .mockResolvedValueOnce({ outAmount: '150000000' }));
+
+    expect(await client.quoteGet(quoteRequest)).toEqual({ outAmount: '150000000' });
+    expect(api.quoteGet).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[100], [200]]); // 0.5 * 200 * 2^retry
+  });
+
+  it('should wait at least as long as Retry-After', async () => {
+    const { client, sleep } = createClient(vi.fn()
+      .mockRejectedValueOnce(responseError(429, {}, { 'retry-after': '1' }))
+      .mockResolvedValueOnce({}));
+
+    await client.quoteGet(quoteRequest);
+
+    expect(sleep).toHaveBeenCalledWith(1000);
+  });
+
+  it('should give up after maxRetries', async () => {
+    const { client, api } = createClient(async () => { throw responseError(500); }, { maxRetries: 1 });
+
+    await expect(client.quoteGet(quoteRequest)).rejects.toMatchObject({ code: 'unavailable', status: 502 });
+    expect(api.quoteGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry requests Jupiter rejected', async () => {
+    const { client, api } = createClient(async () => {
+      throw responseError(400, { errorCode: 'COULD_NOT_FIND_ANY_ROUTE', error: 'Could not find any route' });
+    });
+
+    await expect(client.quoteGet(quoteRequest)).rejects.toMatchObject({ code: 'no_route' });
+    expect(api.quoteGet).toHaveBeenCalledTimes(1);
+    expect(client.breaker.state).toBe('closed');
+  });
+
+  it('should time out slow calls and abort them', async () => {
+    let signal: AbortSignal | undefined;
+    const { client } = createClient((_request, init) => {
+      signal = init.signal;
+      return new Promise(() => {});
+    }, { timeoutMs: 10, maxRetries: 0 });
+
+    await expect(client.quoteGet(quoteRequest)).rejects.toMatchObject({ code: 'timeout', status: 504 });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should fail fast while the circuit is open', async () => {
+    const { client, api } = createClient(async () => { throw responseError(503); }, {
+      maxRetries: 0,
+      circuitBreaker: { failureThreshold: 2 },
+    });
+
+    await expect(client.quoteGet(quoteRequest)).rejects.toMatchObject({ code: 'unavailable' });
+    await expect(client.quoteGet(quoteRequest)).rejects.toMatchObject({ code: 'unavailable' });
+    await expect(client.quoteGet(quoteRequest)).rejects.toMatchObject({ code: 'circuit_open', status: 503 });
+    expect(api.quoteGet).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should allow one trial call after the reset timeout', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1_000, now: () => now });
+
+    breaker.acquire();
+    breaker.onFailure();
+    expect(breaker.state).toBe('open');
+    expect(() => breaker.acquire()).toThrow(JupiterError);
+
+    now = 1_000;
+    expect(breaker.state).toBe('half_open');
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(JupiterError);
+
+    breaker.onSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should reopen when the trial call fails', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1_000, now: () => now });
+    for (let i = 0; i < 3; i++) breaker.onFailure();
+
+    now = 1_000;
+    breaker.acquire();
+    breaker.onFailure();
+
+    expect(breaker.state).toBe('open');
+    let thrown: unknown;
+    try {
+      breaker.acquire();
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toMatchObject({ code: 'circuit_open', options: { retryAfterMs: 1_000 } });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { parseRouteOptions, isSwapMode, getJupiterQuote, getSolPrice } from '../../src/services/jupiter.js';
+
+describe('parseRouteOptions', () => {
+  it('should read routing options from a JSON body', () => {
+    expect(parseRouteOptions({
+      inputMint: 'ignored',
+      dexes: ['Raydium', 'Whirlpool'],
+      onlyDirectRoutes: true,
+      restrictIntermediateTokens: false,
+      maxAccounts: 40,
+      platformFeeBps: 20,
+      asLegacyTransaction: false,
+    })).toEqual({
+      options: {
+        dexes: ['Raydium', 'Whirlpool'],
+        onlyDirectRoutes: true,
+        restrictIntermediateTokens: false,
+        maxAccounts: 40,
+        platformFeeBps: 20,
+        asLegacyTransaction: false,
+      },
+    });
+  });
+
+  it('should read query-string forms', () => {
+    expect(parseRouteOptions({
+      excludeDexes: 'Raydium, Orca V2',
+      onlyDirectRoutes: 'false',
+      maxAccounts: '64',
+    })).toEqual({
+      options: { excludeDexes: ['Raydium', 'Orca V2'], onlyDirectRoutes: false, maxAccounts: 64 },
+    });
+  });
+
+  it('should return no options when none are set', () => {
+    expect(parseRouteOptions({})).toEqual({ options: {} });
+  });
+
+  it('should reject invalid values', () => {
+    expect(parseRouteOptions({ dexes: [1] })).toEqual({ error: 'dexes must be a list of DEX labels' });
+    expect(parseRouteOptions({ onlyDirectRoutes: 'yes' })).toEqual({ error: 'onlyDirectRoutes must be a boolean' });
+    expect(parseRouteOptions({ maxAccounts: 0 })).toEqual({ error: 'maxAccounts must be an integer from 1 to 256' });
+    expect(parseRouteOptions({ platformFeeBps: 12.5 }))
+      .toEqual({ error: 'platformFeeBps must be an integer from 0 to 10000' });
+  });
+
+  it('should reject combining dexes and excludeDexes', () => {
+    expect(parseRouteOptions({ dexes: ['Raydium'], excludeDexes: ['Orca V2'] }))
+      .toEqual({ error: 'dexes and excludeDexes cannot be combined' });
+  });
+});
+
+describe('isSwapMode', () => {
+  it('should accept only Jupiter swap modes', () => {
+    expect(isSwapMode('ExactIn')).toBe(true);
+    expect(isSwapMode('ExactOut')).toBe(true);
+    expect(isSwapMode('exactOut')).toBe(false);
+    expect(isSwapMode(undefined)).toBe(false);
+  });
+});
+
+describe('Jupiter API configuration', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+  const requests: Array<{ path: string; apiKey?: string }> = [];
+  let server: Server;
+
+  beforeAll(async () => {
+    // Local stand-in for a self-hosted Jupiter instance
+    const stub = express();
+    stub.use((req, res, next) => {
+      requests.push({ path: req.path, apiKey: req.get('x-api-key') });
+      next();
+    });
+    stub.get('/swap/v1/quote', (req, res) => {
+      res.json({
+        inputMint: req.query.inputMint,
+        inAmount: req.query.amount,
+        outputMint: req.query.outputMint,
+        outAmount: '150000000',
+        otherAmountThreshold: '149250000',
+        swapMode: 'ExactIn',
+        slippageBps: 50,
+        priceImpactPct: '0',
+        routePlan: [],
+      });
+    });
+    stub.get('/price/v2', (req, res) => {
+      res.json({ data: { [req.query.ids as string]: { price: '175.5' } } });
+    });
+
+    server = stub.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    process.env.JUPITER_API_URL = `${url}/swap/v1/`;
+    process.env.JUPITER_PRICE_API_URL = `${url}/price/v2`;
+    process.env.JUPITER_API_KEY = 'jup_test_key';
+  });
+
+  afterAll(async () => {
+    delete process.env.JUPITER_API_URL;
+    delete process.env.JUPITER_PRICE_API_URL;
+    delete process.env.JUPITER_API_KEY;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should quote from the configured base URL with the API key', async () => {
+    const quote = await getJupiterQuote({ inputMint: SOL, outputMint: USDC, amount: 1_000_000_000 });
+
+    expect(quote.outAmount).toBe('150000000');
+    expect(requests).toContainEqual({ path: '/swap/v1/quote', apiKey: 'jup_test_key' });
+  });
+
+  it('should read prices from the configured price API with the API key', async () => {
+    expect(await getSolPrice()).toBe(175.5);
+    expect(requests).toContainEqual({ path: '/price/v2', apiKey: 'jup_test_key' });
+  });
+});
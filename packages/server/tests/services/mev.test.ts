@@ -1,6 +1,37 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { getMEVAnalysis, type MEVAnalysis } from '../../src/services/mev.js';
 
+// Mints are not on the mocked cluster, so listed decimals are used
+vi.mock('@solana/web3.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@solana/web3.js')>(),
+  Connection: class MockConnection {
+    getAccountInfo() {
+      return Promise.resolve(null);
+    }
+  },
+}));
+
+const PRICES: Record<string, string> = {
+  'So11111111111111111111111111111111111111112': '150',
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': '1',
+  'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263': '0.00002',
+};
+
+beforeEach(() => {
+  // Mock the Jupiter price API
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const mint = new URL(url).searchParams.get('ids')!;
+    return {
+      ok: true,
+      json: () => Promise.resolve({ data: { [mint]: PRICES[mint] ? { price: PRICES[mint] } : null } }),
+    };
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
 // Mock quote response
 function createMockQuote(options: {
   inAmount?: string;
@@ -59,6 +90,17 @@ describe('getMEVAnalysis', () => {
     expect(analysis.factors.tradeSize).toBe('large');
   });
 
+  it('should size trades by the decimals of the input mint', async () => {
+    // 50,000 BONK (5 decimals); read as 6 decimals it would be 5,000
+    const quote = createMockQuote({ inAmount: '5000000000' });
+    const inputMint = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+    const outputMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+    const analysis = await getMEVAnalysis(quote, inputMint, outputMint);
+
+    expect(analysis.factors.tradeSize).toBe('large');
+  });
+
   it('should return higher risk for high volatility tokens', async () => {
     const quote = createMockQuote();
     const inputMint = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263'; // BONK (high volatility)
@@ -96,6 +138,45 @@ describe('getMEVAnalysis', () => {
     expect(typeof analysis.estimatedMevCost).toBe('number');
   });
 
+  it('should estimate MEV cost in USD from the output token', async () => {
+    const quote = createMockQuote({ outAmount: '10000000000', priceImpactPct: '0' }); // 10 SOL out
+    const inputMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+    const outputMint = 'So11111111111111111111111111111111111111112';
+
+    const analysis = await getMEVAnalysis(quote, inputMint, outputMint);
+
+    // 0.2% (risk score 10) of $1,500 of SOL
+    expect(analysis.riskScore).toBe(10);
+    expect(analysis.estimatedMevCost).toBe(3);
+  });
+
+  it('should size ExactOut trades by their maximum input', async () => {
+    const quote = {
+      ...createMockQuote({ inAmount: '90000000000', outAmount: '25000000' }),
+      swapMode: 'ExactOut',
+      otherAmountThreshold: '110000000000', // 110 SOL after slippage
+    };
+    const inputMint = 'So11111111111111111111111111111111111111112';
+    const outputMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+    const analysis = await getMEVAnalysis(quote, inputMint, outputMint);
+
+    expect(analysis.factors.tradeSize).toBe('large');
+  });
+
+  it('should estimate ExactOut MEV cost on the input side', async () => {
+    const inputMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+    const outputMint = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263'; // BONK
+    const exactIn = createMockQuote({ inAmount: '500000000', outAmount: '1' });
+    const exactOut = { ...exactIn, swapMode: 'ExactOut', otherAmountThreshold: '500000000' };
+
+    const exactInAnalysis = await getMEVAnalysis(exactIn, inputMint, outputMint);
+    const exactOutAnalysis = await getMEVAnalysis(exactOut, inputMint, outputMint);
+
+    expect(exactInAnalysis.estimatedMevCost).toBe(0);
+    expect(exactOutAnalysis.estimatedMevCost).toBeGreaterThan(0);
+  });
+
   it('should include all required factors', async () => {
     const quote = createMockQuote();
     const inputMint = 'So11111111111111111111111111111111111111112';
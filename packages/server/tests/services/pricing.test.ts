@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { getEnhancedSwapPrice, getBatchQuotePrice } from '../../src/services/pricing.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+describe('getEnhancedSwapPrice', () => {
+  it('should charge the base price when no premium features are requested', () => {
+    expect(getEnhancedSwapPrice({ inputMint: SOL, amount: 1_000_000_000 })).toBe('$0.001000');
+  });
+
+  it('should add the price of each requested feature', () => {
+    expect(getEnhancedSwapPrice({ inputMint: SOL, amount: 1_000_000_000, mevProtection: true }))
+      .toBe('$0.003000');
+    expect(getEnhancedSwapPrice({
+      inputMint: SOL,
+      amount: 1_000_000_000,
+      mevProtection: true,
+      optimizePriorityFee: true,
+      includeAnalytics: true,
+    })).toBe('$0.005000');
+  });
+
+  it('should add a surcharge for larger trades', () => {
+    expect(getEnhancedSwapPrice({ inputMint: USDC, amount: 5_000_000_000 })).toBe('$0.003000'); // $5k
+    expect(getEnhancedSwapPrice({ inputMint: SOL, amount: 500_000_000_000 })).toBe('$0.006000'); // 500 SOL
+  });
+
+  it('should size ExactOut trades by the output token', () => {
+    // 5,000 USDC out of SOL; the same amount as SOL input would be 0.000005 SOL
+    expect(getEnhancedSwapPrice({
+      inputMint: SOL,
+      outputMint: USDC,
+      amount: 5_000_000_000,
+      swapMode: 'ExactOut',
+    })).toBe('$0.003000');
+  });
+
+  it('should size trades by the listed decimals of the token', () => {
+    // 50,000 BONK (5 decimals)
+    expect(getEnhancedSwapPrice({ inputMint: BONK, amount: 5_000_000_000 })).toBe('$0.006000');
+  });
+
+  it('should price malformed bodies at the base rate', () => {
+    expect(getEnhancedSwapPrice({})).toBe('$0.001000');
+    expect(getEnhancedSwapPrice(undefined)).toBe('$0.001000');
+    expect(getEnhancedSwapPrice({ inputMint: SOL, amount: 'lots' })).toBe('$0.001000');
+  });
+});
+
+describe('getBatchQuotePrice', () => {
+  it('should charge the sum of the items', () => {
+    expect(getBatchQuotePrice({
+      requests: [
+        { inputMint: SOL, amount: 1_000_000_000, mevProtection: true },
+        { inputMint: USDC, amount: 5_000_000_000, includeAnalytics: true },
+      ],
+    })).toBe('$0.007000'); // $0.003 + ($0.002 + $0.002 size surcharge)
+  });
+
+  it('should price malformed batches at the base rate', () => {
+    expect(getBatchQuotePrice({})).toBe('$0.001000');
+    expect(getBatchQuotePrice({ requests: [] })).toBe('$0.001000');
+    expect(getBatchQuotePrice({ requests: Array(26).fill({ inputMint: SOL, amount: 1 }) })).toBe('$0.001000');
+  });
+});
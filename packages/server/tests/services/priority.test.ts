@@ -86,6 +86,7 @@ describe('getOptimalPriorityFee', () => {
 
   it('should return higher fees for large trades', async () => {
     const smallQuote = {
+      inputMint: 'So11111111111111111111111111111111111111112',
       inAmount: '100000000', // 0.1 SOL
       outAmount: '15000000',
       priceImpactPct: '0.1',
@@ -93,6 +94,7 @@ describe('getOptimalPriorityFee', () => {
     } as any;
 
     const largeQuote = {
+      inputMint: 'So11111111111111111111111111111111111111112',
       inAmount: '10000000000000', // 10000 SOL
       outAmount: '1500000000000',
       priceImpactPct: '0.1',
@@ -106,6 +108,26 @@ describe('getOptimalPriorityFee', () => {
     expect(largeRec.tier).toBe('turbo');
   });
 
+  it('should size trades by their USD value', async () => {
+    const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ data: { [BONK]: { price: '0.00002' } } }),
+    });
+    const quote = {
+      inputMint: BONK,
+      inAmount: '2000000000', // 20,000 BONK (5 decimals), about $0.40
+      outAmount: '400000',
+      priceImpactPct: '0.1',
+      routePlan: [{}],
+    } as any;
+
+    const recommendation = await getOptimalPriorityFee(quote);
+
+    // Medium congestion, and not a large trade
+    expect(recommendation.tier).toBe('high');
+  });
+
   it('should ensure minimum fee', async () => {
     const quote = {
       inAmount: '1000000',
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { QuoteCache, amountBucket } from '../../src/services/quote-cache.js';
+
+const keys = (cacheKey: string, requestKey = cacheKey) => ({ cacheKey, requestKey });
+
+describe('QuoteCache', () => {
+  it('should serve a cached quote until it expires', async () => {
+    let now = 1_000;
+    const cache = new QuoteCache<string>({ ttlMs: 500, now: () => now });
+    const load = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+
+    expect(await cache.get(keys('a'), load)).toBe('first');
+    now += 499;
+    expect(await cache.get(keys('a'), load)).toBe('first');
+    now += 1;
+    expect(await cache.get(keys('a'), load)).toBe('second');
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 2, coalesced: 0, size: 1 });
+  });
+
+  it('should coalesce identical in-flight requests into one call', async () => {
+    const cache = new QuoteCache<string>({ ttlMs: 0 });
+    let resolve!: (value: string) => void;
+    const load = vi.fn(() => new Promise<string>(r => { resolve = r; }));
+
+    const first = cache.get(keys('a'), load);
+    const second = cache.get(keys('a'), load);
+    resolve('quote');
+
+    expect(await Promise.all([first, second])).toEqual(['quote', 'quote']);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 1, coalesced: 1, size: 0 });
+  });
+
+  it('should not coalesce requests that only share a cache key', async () => {
+    const cache = new QuoteCache<string>();
+    const load = vi.fn().mockResolvedValue('quote');
+
+    await Promise.all([cache.get(keys('a', '1'), load), cache.get(keys('a', '2'), load)]);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache failures', async () => {
+    const cache = new QuoteCache<string>();
+    const load = vi.fn().mockRejectedValueOnce(new Error('No route found')).mockResolvedValueOnce('quote');
+
+    await expect(cache.get(keys('a'), load)).rejects.toThrow('No route found');
+    expect(await cache.get(keys('a'), load)).toBe('quote');
+  });
+
+  it('should fetch a fresh quote when bypassed', async () => {
+    const cache = new QuoteCache<string>();
+    const load = vi.fn().mockResolvedValueOnce('stale').mockResolvedValueOnce('fresh');
+
+    await cache.get(keys('a'), load);
+
+    expect(await cache.get(keys('a'), load, { bypass: true })).toBe('fresh');
+    expect(await cache.get(keys('a'), load)).toBe('fresh');
+  });
+
+  it('should skip cached quotes the lookup does not accept', async () => {
+    const cache = new QuoteCache<string>();
+    const load = vi.fn().mockResolvedValueOnce('100').mockResolvedValueOnce('101');
+
+    await cache.get(keys('a'), load);
+
+    expect(await cache.get(keys('a'), load, { accept: value => value === '101' })).toBe('101');
+  });
+
+  it('should evict the oldest quotes beyond maxEntries', async () => {
+    const cache = new QuoteCache<string>({ maxEntries: 2 });
+    const load = vi.fn(async () => 'quote');
+
+    for (const key of ['a', 'b', 'c']) await cache.get(keys(key), load);
+    await cache.get(keys('a'), load);
+
+    expect(load).toHaveBeenCalledTimes(4);
+    expect(cache.getStats().size).toBe(2);
+  });
+});
+
+describe('amountBucket', () => {
+  it('should round to significant digits', () => {
+    expect(amountBucket(1_000_000_123, 6)).toBe(1_000_000_000);
+    expect(amountBucket(1_234_567, 3)).toBe(1_230_000);
+    expect(amountBucket(999, 6)).toBe(999);
+  });
+});
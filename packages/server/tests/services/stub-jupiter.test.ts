@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import { StubJupiter, createStubJupiterApp } from '../../src/services/stub-jupiter.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+describe('StubJupiter', () => {
+  it('should quote a direct route at fixed prices less the hop fee', () => {
+    const { status, body } = new StubJupiter().quote({
+      inputMint: SOL, outputMint: USDC, amount: 1_000_000_000, slippageBps: 50, swapMode: 'ExactIn',
+    }) as { status: number; body: any };
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      inAmount: '1000000000',
+      outAmount: '149625000', // 150 USDC less 0.25%
+      otherAmountThreshold: '148876875',
+      swapMode: 'ExactIn',
+      platformFee: null,
+    });
+    expect(body.routePlan).toHaveLength(1);
+    expect(body.routePlan[0].swapInfo.label).toBe('Raydium');
+  });
+
+  it('should quote a multi-hop route through an intermediate token', () => {
+    const { body } = new StubJupiter('multi_hop').quote({
+      inputMint: SOL, outputMint: BONK, amount: 1_000_000_000, slippageBps: 50, swapMode: 'ExactIn',
+    }) as { body: any };
+
+    expect(body.routePlan.map((step: any) => [step.swapInfo.inputMint, step.swapInfo.outputMint]))
+      .toEqual([[SOL, USDC], [USDC, BONK]]);
+    expect(body.routePlan[0].swapInfo.outAmount).toBe(body.routePlan[1].swapInfo.inAmount);
+  });
+
+  it('should fix the output amount for ExactOut', () => {
+    const { body } = new StubJupiter().quote({
+      inputMint: SOL, outputMint: USDC, amount: 149_625_000, slippageBps: 100, swapMode: 'ExactOut',
+    }) as { body: any };
+
+    expect(body.outAmount).toBe('149625000');
+    expect(body.inAmount).toBe('1000000000');
+    expect(body.otherAmountThreshold).toBe('1010000000');
+  });
+
+  it('should report no route for unknown tokens, excluded DEXes and direct-only multi-hop', () => {
+    const base = { inputMint: SOL, outputMint: USDC, amount: 1, slippageBps: 50, swapMode: 'ExactIn' as const };
+
+    expect(new StubJupiter().quote({ ...base, outputMint: 'UnknownMint' }).status).toBe(400);
+    expect(new StubJupiter().quote({ ...base, dexes: ['Orca V2'] }).status).toBe(400);
+    expect(new StubJupiter('multi_hop').quote({ ...base, onlyDirectRoutes: true }).status).toBe(400);
+  });
+
+  it('should script the next quote only', () => {
+    const stub = new StubJupiter();
+    stub.queueScenario('no_route');
+    const params = { inputMint: SOL, outputMint: USDC, amount: 1, slippageBps: 50, swapMode: 'ExactIn' as const };
+
+    expect(stub.quote(params)).toMatchObject({
+      status: 400,
+      body: { errorCode: 'COULD_NOT_FIND_ANY_ROUTE' },
+    });
+    expect(stub.quote(params).status).toBe(200);
+  });
+});
+
+describe('createStubJupiterApp', () => {
+  const user = Keypair.generate();
+
+  it('should serve quotes and valid swap transactions', async () => {
+    const app = createStubJupiterApp();
+
+    const quote = await request(app)
+      .get('/swap/v1/quote')
+      .query({ inputMint: SOL, outputMint: USDC, amount: '1000000000', platformFeeBps: '20' });
+    expect(quote.status).toBe(200);
+    expect(quote.body.platformFee).toEqual({ amount: '299250', feeBps: 20 });
+
+    const swap = await request(app).post('/swap/v1/swap').send({
+      quoteResponse: quote.body,
+      userPublicKey: user.publicKey.toBase58(),
+      prioritizationFeeLamports: { jitoTipLamports: 10_000 },
+    });
+    expect(swap.status).toBe(200);
+    expect(swap.body.lastValidBlockHeight).toBe(279_000_150);
+
+    const transaction = VersionedTransaction.deserialize(Buffer.from(swap.body.swapTransaction, 'base64'));
+    expect(transaction.message.version).toBe(0);
+    expect(transaction.message.staticAccountKeys[0].equals(user.publicKey)).toBe(true);
+    transaction.sign([user]);
+    expect(transaction.signatures[0].some(byte => byte !== 0)).toBe(true);
+  });
+
+  it('should build legacy transactions on request', async () => {
+    const app = createStubJupiterApp();
+    const quote = await request(app).get('/swap/v1/quote').query({ inputMint: SOL, outputMint: USDC, amount: '1' });
+
+    const swap = await request(app).post('/swap/v1/swap').send({
+      quoteResponse: quote.body,
+      userPublicKey: user.publicKey.toBase58(),
+      asLegacyTransaction: true,
+    });
+
+    const transaction = VersionedTransaction.deserialize(Buffer.from(swap.body.swapTransaction, 'base64'));
+    expect(transaction.message.version).toBe('legacy');
+  });
+
+  it('should serve prices', async () => {
+    const response = await request(createStubJupiterApp()).get('/price/v2').query({ ids: `${SOL},Unknown` });
+
+    expect(response.body.data).toEqual({
+      [SOL]: { id: SOL, type: 'derivedPrice', price: '150' },
+      Unknown: null,
+    });
+  });
+
+  it('should rate limit every endpoint in the rate_limit scenario', async () => {
+    const app = createStubJupiterApp(new StubJupiter('rate_limit'));
+
+    const quote = await request(app).get('/swap/v1/quote').query({ inputMint: SOL, outputMint: USDC, amount: '1' });
+    const price = await request(app).get('/price/v2').query({ ids: SOL });
+
+    expect(quote.status).toBe(429);
+    expect(quote.headers['retry-after']).toBe('1');
+    expect(price.status).toBe(429);
+  });
+
+  it('should switch scenarios over HTTP', async () => {
+    const stub = new StubJupiter();
+    const app = createStubJupiterApp(stub);
+
+    await request(app).post('/__stub/scenario').send({ scenario: 'multi_hop' });
+    const invalid = await request(app).post('/__stub/scenario').send({ scenario: 'down' });
+
+    expect(stub.scenario).toBe('multi_hop');
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should keep only the most recent requests', async () => {
+    const stub = new StubJupiter();
+    await request(createStubJupiterApp(stub)).get('/price/v2').query({ ids: SOL });
+
+    for (let i = 0; i < 100; i++) stub.record({ method: 'GET', path: `/request-${i}`, query: {}, body: {} });
+
+    expect(stub.requests).toHaveLength(100);
+    expect(stub.requests[0].path).toBe('/request-0');
+    expect(stub.requests.at(-1)?.path).toBe('/request-99');
+  });
+});
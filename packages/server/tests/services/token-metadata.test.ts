@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { TokenMetadataService, loadTokenList } from '../../src/services/token-metadata.js';
+
+const TOKEN_PROGRAM = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const TOKEN_2022_PROGRAM = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+// Mint account data with the decimals at byte 44
+function mintData(decimals: number, size = 82): Buffer {
+  const data = Buffer.alloc(size);
+  data[44] = decimals;
+  if (size > 165) data[165] = 1; // Token-2022 account type: mint
+  return data;
+}
+
+// Connection answering getAccountInfo from a map of mint to account
+function createConnection(accounts: Record<string, { owner: PublicKey; data: Buffer }>) {
+  return {
+    getAccountInfo: vi.fn(async (key: PublicKey) => accounts[key.toBase58()] ?? null),
+  } as any;
+}
+
+describe('TokenMetadataService', () => {
+  it('should read decimals on chain and names from the token list', async () => {
+    const connection = createConnection({ [BONK]: { owner: TOKEN_PROGRAM, data: mintData(5) } });
+    const service = new TokenMetadataService(connection, {
+      tokenList: [{ address: BONK, symbol: 'BONK', name: 'Bonk', logoURI: 'https://example.com/bonk.png' }],
+    });
+
+    expect(await service.get(BONK)).toEqual({
+      mint: BONK,
+      symbol: 'BONK',
+      name: 'Bonk',
+      decimals: 5,
+      logoURI: 'https://example.com/bonk.png',
+    });
+  });
+
+  it('should prefer on-chain decimals over listed ones', async () => {
+    const connection = createConnection({ [SOL]: { owner: TOKEN_PROGRAM, data: mintData(9) } });
+    const service = new TokenMetadataService(connection, {
+      tokenList: [{ address: SOL, symbol: 'SOL', name: 'Wrapped SOL', decimals: 6 }],
+    });
+
+    expect((await service.get(SOL))?.decimals).toBe(9);
+  });
+
+  it('should describe unlisted mints found on chain', async () => {
+    const mint = Keypair.generate().publicKey.toBase58();
+    const service = new TokenMetadataService(createConnection({
+      [mint]: { owner: TOKEN_PROGRAM, data: mintData(8) },
+    }));
+
+    expect(await service.get(mint)).toEqual({ mint, symbol: 'UNKNOWN', name: 'Unknown Token', decimals: 8 });
+  });
+
+  it('should read Token-2022 mints with extensions', async () => {
+    const mint = Keypair.generate().publicKey.toBase58();
+    const service = new TokenMetadataService(createConnection({
+      [mint]: { owner: TOKEN_2022_PROGRAM, data: mintData(7, 250) },
+    }));
+
+    expect((await service.get(mint))?.decimals).toBe(7);
+  });
+
+  it('should not mistake other accounts for mints', async () => {
+    const tokenAccount = Keypair.generate().publicKey.toBase58();
+    const wallet = Keypair.generate().publicKey.toBase58();
+    const service = new TokenMetadataService(createConnection({
+      [tokenAccount]: { owner: TOKEN_PROGRAM, data: Buffer.alloc(165) },
+      [wallet]: { owner: PublicKey.default, data: mintData(9) },
+    }));
+
+    expect(await service.get(tokenAccount)).toBeNull();
+    expect(await service.get(wallet)).toBeNull();
+  });
+
+  it('should fall back to listed decimals for mints missing on chain', async () => {
+    const service = new TokenMetadataService(createConnection({}));
+
+    expect((await service.get(BONK))?.decimals).toBe(5);
+    expect(await service.get('not-a-mint')).toBeNull();
+  });
+
+  it('should merge token list entries field by field', async () => {
+    const service = new TokenMetadataService(createConnection({}), {
+      tokenList: [
+        { address: BONK, symbol: 'BONK', name: 'Bonk', decimals: 5 },
+        { address: BONK, symbol: 'Bonk', name: 'Bonk Inu', logoURI: 'https://example.com/bonk.png' },
+      ],
+    });
+
+    expect(await service.get(BONK)).toEqual({
+      mint: BONK,
+      symbol: 'Bonk',
+      name: 'Bonk Inu',
+      decimals: 5,
+      logoURI: 'https://example.com/bonk.png',
+    });
+  });
+
+  it('should cache mints and share concurrent reads', async () => {
+    const connection = createConnection({ [BONK]: { owner: TOKEN_PROGRAM, data: mintData(5) } });
+    const service = new TokenMetadataService(connection);
+
+    await Promise.all([service.get(BONK), service.get(BONK)]);
+    await service.get(BONK);
+
+    expect(connection.getAccountInfo).toHaveBeenCalledTimes(1);
+
+    service.clear();
+    await service.get(BONK);
+    expect(connection.getAccountInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use listed decimals without caching them when the RPC node fails', async () => {
+    const connection = {
+      getAccountInfo: vi.fn()
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockResolvedValueOnce({ owner: TOKEN_PROGRAM, data: mintData(9) }),
+    } as any;
+    const service = new TokenMetadataService(connection, {
+      tokenList: [{ address: SOL, symbol: 'SOL', name: 'Wrapped SOL', decimals: 9 }],
+    });
+
+    expect((await service.get(SOL))?.symbol).toBe('SOL');
+    expect((await service.get(SOL))?.decimals).toBe(9);
+    expect(connection.getAccountInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up on a slow RPC node', async () => {
+    const connection = { getAccountInfo: vi.fn(() => new Promise(() => {})) } as any;
+    const service = new TokenMetadataService(connection, { timeoutMs: 10 });
+
+    expect((await service.get(BONK))?.decimals).toBe(5);
+  });
+
+  it('should evict the oldest mints beyond the limit', async () => {
+    const mints = [Keypair.generate(), Keypair.generate()].map(k => k.publicKey.toBase58());
+    const connection = createConnection(Object.fromEntries(
+      mints.map(mint => [mint, { owner: TOKEN_PROGRAM, data: mintData(6) }])
+    ));
+    const service = new TokenMetadataService(connection, { maxEntries: 1 });
+
+    await service.get(mints[0]);
+    await service.get(mints[1]);
+    await service.get(mints[0]);
+
+    expect(connection.getAccountInfo).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('loadTokenList', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'token-list-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read a Solana token-list file', async () => {
+    const path = join(dir, 'tokens.json');
+    await writeFile(path, JSON.stringify({
+      name: 'Test list',
+      tokens: [
+        { address: BONK, symbol: 'BONK', name: 'Bonk', decimals: 5, logoURI: 'https://example.com/bonk.png' },
+        { address: SOL, symbol: 'SOL' },
+      ],
+    }));
+
+    expect(loadTokenList(path)).toEqual([
+      { address: BONK, symbol: 'BONK', name: 'Bonk', decimals: 5, logoURI: 'https://example.com/bonk.png' },
+    ]);
+  });
+
+  it('should read a plain array of tokens', async () => {
+    const path = join(dir, 'tokens.json');
+    await writeFile(path, JSON.stringify([{ address: BONK, symbol: 'BONK', name: 'Bonk' }]));
+
+    expect(loadTokenList(path)).toHaveLength(1);
+  });
+
+  it('should reject files without tokens', async () => {
+    const path = join(dir, 'tokens.json');
+    await writeFile(path, JSON.stringify({ name: 'Empty' }));
+
+    expect(() => loadTokenList(path)).toThrow('has no tokens array');
+  });
+});